@@ -0,0 +1 @@
+ALTER TABLE "generations" ADD COLUMN "updatedAt" timestamp DEFAULT now() NOT NULL;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "jobs" (
+	"id" varchar(36) PRIMARY KEY NOT NULL,
+	"userId" varchar(255) NOT NULL,
+	"model" varchar(255) NOT NULL,
+	"status" varchar(255) NOT NULL,
+	"stage" varchar(255) NOT NULL,
+	"input" jsonb NOT NULL,
+	"task" jsonb,
+	"result" jsonb,
+	"error" varchar(255) DEFAULT '' NOT NULL,
+	"generationId" integer,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"runAt" timestamp DEFAULT now() NOT NULL,
+	"lockedUntil" timestamp,
+	"deadlineAt" timestamp NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_generationId_generations_id_fk" FOREIGN KEY ("generationId") REFERENCES "public"."generations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "jobs_status_run_at_idx" ON "jobs" USING btree ("status","runAt");
\ No newline at end of file
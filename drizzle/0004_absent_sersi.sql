@@ -0,0 +1,14 @@
+CREATE TABLE "votes" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "votes_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"userId" varchar(255) NOT NULL,
+	"generationId" integer NOT NULL,
+	"opponentGenerationId" integer,
+	"value" varchar(255) NOT NULL,
+	"category" varchar(255) NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "votes_user_generation_opponent_unique" UNIQUE NULLS NOT DISTINCT("userId","generationId","opponentGenerationId")
+);
+--> statement-breakpoint
+ALTER TABLE "votes" ADD CONSTRAINT "votes_generationId_generations_id_fk" FOREIGN KEY ("generationId") REFERENCES "public"."generations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "votes" ADD CONSTRAINT "votes_opponentGenerationId_generations_id_fk" FOREIGN KEY ("opponentGenerationId") REFERENCES "public"."generations"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "votes" ADD COLUMN "blind" boolean DEFAULT false NOT NULL;
\ No newline at end of file
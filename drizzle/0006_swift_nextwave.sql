@@ -0,0 +1,2 @@
+ALTER TABLE "generations" ADD COLUMN "costUsd" numeric(12, 6);--> statement-breakpoint
+ALTER TABLE "generations" ADD COLUMN "pricingVersion" varchar(255);
\ No newline at end of file
@@ -0,0 +1,27 @@
+ALTER TABLE "jobs" ADD COLUMN "startedAt" timestamp;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "submittedAt" timestamp;--> statement-breakpoint
+-- Bring rows written before the typed metadata shape (src/metadata.ts) up to
+-- version 1. Existing keys are kept; timing, usage, the provider task id and the
+-- output type are reconstructed where the row or its job still has them.
+UPDATE "generations" AS g
+SET "metadata" = jsonb_build_object('version', 1, 'backfilled', true)
+  || jsonb_strip_nulls(jsonb_build_object(
+    'timing', CASE WHEN g."status" IN ('completed', 'failed')
+      THEN jsonb_build_object('durationMs', round(extract(epoch FROM g."updatedAt" - g."createdAt") * 1000)) END,
+    'usage', (SELECT j."result" -> 'usage' FROM "jobs" AS j WHERE j."generationId" = g."id" LIMIT 1),
+    'provider', (
+      SELECT jsonb_build_object('taskId', coalesce(j."task" ->> 'id', j."task" ->> 'operationName'))
+      FROM "jobs" AS j
+      WHERE j."generationId" = g."id" AND coalesce(j."task" ->> 'id', j."task" ->> 'operationName') IS NOT NULL
+      LIMIT 1
+    ),
+    'output', CASE lower(substring(g."outputImageUrl" FROM '\.([A-Za-z0-9]+)$'))
+      WHEN 'png' THEN jsonb_build_object('mimeType', 'image/png')
+      WHEN 'jpg' THEN jsonb_build_object('mimeType', 'image/jpeg')
+      WHEN 'jpeg' THEN jsonb_build_object('mimeType', 'image/jpeg')
+      WHEN 'webp' THEN jsonb_build_object('mimeType', 'image/webp')
+      WHEN 'mp4' THEN jsonb_build_object('mimeType', 'video/mp4')
+    END
+  ))
+  || g."metadata"
+WHERE NOT (g."metadata" ? 'version');
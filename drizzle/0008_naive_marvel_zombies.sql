@@ -0,0 +1 @@
+ALTER TABLE "generations" ADD COLUMN "enhancedPrompt" varchar(2000);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "prompt_enhancements" (
+	"hash" varchar(64) PRIMARY KEY NOT NULL,
+	"enhancer" varchar(255) NOT NULL,
+	"prompt" varchar(2000) NOT NULL,
+	"enhancedPrompt" varchar(2000) NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,13 @@
+CREATE TABLE "prompt_templates" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "prompt_templates_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"userId" varchar(255) NOT NULL,
+	"teamId" varchar(255),
+	"name" varchar(255) NOT NULL,
+	"body" varchar(2000) NOT NULL,
+	"values" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "prompt_templates_user_id_idx" ON "prompt_templates" USING btree ("userId");--> statement-breakpoint
+CREATE INDEX "prompt_templates_team_id_idx" ON "prompt_templates" USING btree ("teamId");
\ No newline at end of file
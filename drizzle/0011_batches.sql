@@ -0,0 +1,30 @@
+CREATE TABLE "batch_items" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "batch_items_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"batchId" varchar(36) NOT NULL,
+	"position" integer NOT NULL,
+	"prompt" varchar(2000) NOT NULL,
+	"imageUrl" varchar(255),
+	"tags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" varchar(255) NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "batches" (
+	"id" varchar(36) PRIMARY KEY NOT NULL,
+	"userId" varchar(255) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"models" jsonb NOT NULL,
+	"options" jsonb NOT NULL,
+	"concurrency" integer NOT NULL,
+	"status" varchar(255) NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "batchItemId" integer;--> statement-breakpoint
+ALTER TABLE "batch_items" ADD CONSTRAINT "batch_items_batchId_batches_id_fk" FOREIGN KEY ("batchId") REFERENCES "public"."batches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "batch_items_batch_id_status_idx" ON "batch_items" USING btree ("batchId","status");--> statement-breakpoint
+CREATE INDEX "batches_user_id_idx" ON "batches" USING btree ("userId");--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_batchItemId_batch_items_id_fk" FOREIGN KEY ("batchItemId") REFERENCES "public"."batch_items"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "jobs_batch_item_id_idx" ON "jobs" USING btree ("batchItemId");
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "generations_user_id_id_idx" ON "generations" USING btree ("userId","id");
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "session_messages" (
+	"id" varchar(36) PRIMARY KEY NOT NULL,
+	"sessionId" varchar(36) NOT NULL,
+	"prompt" varchar(2000) NOT NULL,
+	"inputImageUrl" varchar(255) NOT NULL,
+	"settings" jsonb NOT NULL,
+	"revealed" boolean DEFAULT false NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" varchar(36) PRIMARY KEY NOT NULL,
+	"userId" varchar(255) NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generations" ADD COLUMN "messageId" varchar(36);--> statement-breakpoint
+ALTER TABLE "session_messages" ADD CONSTRAINT "session_messages_sessionId_sessions_id_fk" FOREIGN KEY ("sessionId") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "session_messages_session_id_idx" ON "session_messages" USING btree ("sessionId");--> statement-breakpoint
+CREATE INDEX "sessions_user_id_updated_at_idx" ON "sessions" USING btree ("userId","updatedAt");--> statement-breakpoint
+ALTER TABLE "generations" ADD CONSTRAINT "generations_messageId_session_messages_id_fk" FOREIGN KEY ("messageId") REFERENCES "public"."session_messages"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generations_message_id_idx" ON "generations" USING btree ("messageId");
\ No newline at end of file
@@ -0,0 +1,13 @@
+ALTER TABLE "generations" ADD COLUMN "parentGenerationId" integer;--> statement-breakpoint
+ALTER TABLE "generations" ADD CONSTRAINT "generations_parentGenerationId_generations_id_fk" FOREIGN KEY ("parentGenerationId") REFERENCES "public"."generations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generations_parent_generation_id_idx" ON "generations" USING btree ("parentGenerationId");--> statement-breakpoint
+CREATE INDEX "generations_user_id_output_image_url_idx" ON "generations" USING btree ("userId","outputImageUrl");--> statement-breakpoint
+-- Link existing edits to the generation whose output they were given as input
+UPDATE "generations" AS g
+SET "parentGenerationId" = (
+  SELECT p."id" FROM "generations" AS p
+  WHERE p."userId" = g."userId" AND p."outputImageUrl" = g."inputImageUrl" AND p."id" < g."id"
+  ORDER BY p."id" DESC
+  LIMIT 1
+)
+WHERE g."inputImageUrl" <> '';
@@ -0,0 +1,9 @@
+CREATE TABLE "shares" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"userId" varchar(255) NOT NULL,
+	"generationIds" jsonb NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"revokedAt" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "shares_user_id_idx" ON "shares" USING btree ("userId");
\ No newline at end of file
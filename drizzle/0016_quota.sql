@@ -0,0 +1,33 @@
+CREATE TABLE "quota_accounts" (
+	"userId" varchar(255) PRIMARY KEY NOT NULL,
+	"plan" varchar(255),
+	"limitOverride" integer,
+	"heldUnits" integer DEFAULT 0 NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "quota_reservations" (
+	"id" varchar(36) PRIMARY KEY NOT NULL,
+	"userId" varchar(255) NOT NULL,
+	"model" varchar(255) NOT NULL,
+	"units" integer NOT NULL,
+	"status" varchar(255) NOT NULL,
+	"batchId" varchar(36),
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"settledAt" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "reservationId" varchar(36);--> statement-breakpoint
+CREATE INDEX "quota_reservations_user_id_status_created_at_idx" ON "quota_reservations" USING btree ("userId","status","createdAt");--> statement-breakpoint
+CREATE INDEX "quota_reservations_batch_id_model_idx" ON "quota_reservations" USING btree ("batchId","model");--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_reservationId_quota_reservations_id_fk" FOREIGN KEY ("reservationId") REFERENCES "public"."quota_reservations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "jobs_reservation_id_idx" ON "jobs" USING btree ("reservationId");--> statement-breakpoint
+-- Completed generations made before the quota service count as committed
+-- units, one job each (extra outputs of a job are free)
+INSERT INTO "quota_reservations" ("id", "userId", "model", "units", "status", "createdAt", "settledAt")
+SELECT gen_random_uuid()::varchar, "userId", "model", CASE WHEN "model" = 'veo-3' THEN 5 ELSE 1 END, 'committed', "createdAt", "updatedAt"
+FROM "generations"
+WHERE "status" = 'completed' AND "userId" IS NOT NULL AND NOT "metadata" ? 'outputIndex';--> statement-breakpoint
+INSERT INTO "quota_accounts" ("userId", "heldUnits")
+SELECT "userId", sum("units") FROM "quota_reservations" GROUP BY "userId";
@@ -0,0 +1,6 @@
+CREATE TABLE "rate_limits" (
+	"key" varchar(255) NOT NULL,
+	"windowStart" timestamp NOT NULL,
+	"count" integer NOT NULL,
+	CONSTRAINT "rate_limits_key_windowStart_pk" PRIMARY KEY("key","windowStart")
+);
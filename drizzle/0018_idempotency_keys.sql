@@ -0,0 +1,10 @@
+CREATE TABLE "idempotency_keys" (
+	"userId" varchar(255) NOT NULL,
+	"key" varchar(255) NOT NULL,
+	"requestHash" varchar(64) NOT NULL,
+	"status" varchar(255) NOT NULL,
+	"response" jsonb,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"expiresAt" timestamp NOT NULL,
+	CONSTRAINT "idempotency_keys_userId_key_pk" PRIMARY KEY("userId","key")
+);
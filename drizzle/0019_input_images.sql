@@ -0,0 +1,3 @@
+ALTER TABLE "generations" ADD COLUMN "inputImages" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+-- Generations made before several input images were allowed had at most one
+UPDATE "generations" SET "inputImages" = jsonb_build_array(jsonb_build_object('url', "inputImageUrl")) WHERE "inputImageUrl" <> '';
@@ -0,0 +1,4 @@
+ALTER TABLE "generations" ADD COLUMN "parentGenerationIds" integer[] DEFAULT '{}'::integer[] NOT NULL;--> statement-breakpoint
+CREATE INDEX "generations_parent_generation_ids_idx" ON "generations" USING gin ("parentGenerationIds");--> statement-breakpoint
+-- Until now only the first input image was looked up
+UPDATE "generations" SET "parentGenerationIds" = ARRAY["parentGenerationId"] WHERE "parentGenerationId" IS NOT NULL;
@@ -0,0 +1,20 @@
+// Long-running job worker for self-hosted deployments:
+//   npm run worker
+import { config } from 'dotenv';
+
+config({ path: ['.env.local', '.env'] });
+
+async function main() {
+  // Imported after the environment is loaded so the database client sees DATABASE_URL
+  const { runWorker } = await import('@/jobs');
+  console.log('Job worker started');
+  for (;;) {
+    const processed = await runWorker({ budgetMs: 60_000 });
+    if (processed > 0) console.log(`Processed ${processed} job step(s)`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
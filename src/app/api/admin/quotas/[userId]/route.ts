@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { handleGetQuotaAccount, handleUpdateQuotaAccount } from "@/quota";
+
+// Admin only (ADMIN_USER_IDS): the user's plan, override and usage
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ userId: string }> }) {
+  return handleGetQuotaAccount((await params).userId);
+}
+
+// Body: { plan?, limitOverride? }
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ userId: string }> }) {
+  return handleUpdateQuotaAccount(request, (await params).userId);
+}
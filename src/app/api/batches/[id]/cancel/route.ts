@@ -0,0 +1,6 @@
+import { NextRequest } from "next/server";
+import { handleCancelBatch } from "@/batches";
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return handleCancelBatch((await params).id);
+}
@@ -0,0 +1,7 @@
+import { NextRequest } from "next/server";
+import { handleExportBatch } from "@/batches";
+
+// ?format=csv (default) or json
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return handleExportBatch((await params).id, request.nextUrl.searchParams.get('format'));
+}
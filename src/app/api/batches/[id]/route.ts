@@ -0,0 +1,7 @@
+import { NextRequest } from "next/server";
+import { handleGetBatch } from "@/batches";
+
+// The prompt × model matrix; polling it also advances the batch
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return handleGetBatch((await params).id);
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { handleCreateBatch, handleListBatches } from "@/batches";
+
+// The user's batches with their progress
+export async function GET() {
+  return handleListBatches();
+}
+
+// Body: { name?, format: 'csv' | 'jsonl', content, models, params?, enhance?, enhanceMode?, concurrency? }
+export async function POST(request: NextRequest) {
+  return handleCreateBatch(request);
+}
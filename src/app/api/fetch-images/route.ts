@@ -2,8 +2,12 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/db";
 import { usersTable } from "@/db/schema";
-import { and, desc, eq } from "drizzle-orm";
+import { getQuotaUsage } from "@/quota";
+import { and, count, eq } from "drizzle-orm";
 
+// The user's completed generation count and their quota (src/quota.ts):
+// `limitReached` once no units are left. The images themselves are paged
+// through GET /api/generations.
 export async function GET() {
   try {
     const { userId } = await auth();
@@ -11,20 +15,15 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const rows = await db
-      .select({ url: usersTable.outputImageUrl })
+    const [row] = await db
+      .select({ count: count() })
       .from(usersTable)
-      .where(and(eq(usersTable.userId, userId), eq(usersTable.status, "completed")))
-      .orderBy(desc(usersTable.createdAt));
+      .where(and(eq(usersTable.userId, userId), eq(usersTable.status, "completed")));
 
-    const urls = rows.map((r) => r.url).filter((u): u is string => typeof u === "string" && u.length > 0);
-    const count = urls.length;
-    const limitReached = count >= 10;
-    return NextResponse.json({ urls, count, limitReached });
+    const quota = await getQuotaUsage(userId);
+    return NextResponse.json({ count: row.count, limitReached: quota.remaining === 0, quota });
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unexpected error";
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
-
-
@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+import { handleGenerate } from "@/generate";
+
+// Body: { model: ModelId, prompt, image? | images?, enhance?, enhanceMode?, params?, n?, template?, sessionId? },
+// see GenerateRequestBody in src/generate.ts
+export async function POST(request: NextRequest) {
+  return handleGenerate(request);
+}
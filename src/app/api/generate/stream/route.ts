@@ -0,0 +1,11 @@
+import { NextRequest } from "next/server";
+import { handleGenerateStream } from "@/generate";
+
+// Long enough for the slowest image model to finish within one stream
+export const maxDuration = 300;
+
+// Body: { models: ModelId[], prompt, image? | images?, enhance?, enhanceMode?, params?, n?, template?, sessionId?,
+// blind?, compareEnhancement? }, see GenerateStreamRequestBody in src/generate.ts; responds with an SSE progress stream
+export async function POST(request: NextRequest) {
+  return handleGenerateStream(request);
+}
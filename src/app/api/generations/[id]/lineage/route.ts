@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleGetLineage } from "@/lineage";
+
+// The edit tree the generation belongs to, from the generation it started from
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const id = Number((await params).id);
+  if (!Number.isInteger(id)) {
+    return NextResponse.json({ error: "Generation not found" }, { status: 404 });
+  }
+  return handleGetLineage(id);
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleRerunGeneration } from "@/generate";
+
+// Body: { models? } — defaults to the generation's own model
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const id = Number((await params).id);
+  if (!Number.isInteger(id)) {
+    return NextResponse.json({ error: "Generation not found" }, { status: 404 });
+  }
+  return handleRerunGeneration(request, id);
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleGetGeneration } from "@/history";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const id = Number((await params).id);
+  if (!Number.isInteger(id)) {
+    return NextResponse.json({ error: "Generation not found" }, { status: 404 });
+  }
+  return handleGetGeneration(id);
+}
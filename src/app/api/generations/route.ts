@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+import { handleListGenerations } from "@/history";
+
+// The user's generations, newest first. Query: model, status, from, to, q,
+// hasInputImage, limit, cursor (see parseHistoryQuery)
+export async function GET(request: NextRequest) {
+  return handleListGenerations(request);
+}
@@ -1,191 +1,6 @@
-import { NextRequest, NextResponse } from "next/server";
-import OpenAI, { toFile } from "openai";
-import { uploadFile } from "@/storage";
-import mime from 'mime';
-import { db } from "@/db";
-import { usersTable } from "@/db/schema";
-import { auth } from '@clerk/nextjs/server';
-import { and, eq } from 'drizzle-orm';
-import fs from 'fs';
-
+import { NextRequest } from "next/server";
+import { handleGenerate } from "@/generate";
 
 export async function POST(request: NextRequest) {
-  type RequestBody = { prompt?: string; image?: string; enhance?: boolean };
-  const body = (await request.json()) as RequestBody;
-
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    console.error('Missing OPENAI_API_KEY. Set it in your environment or a .env file.');
-    return NextResponse.json({ error: 'Server misconfiguration: missing OPENAI_API_KEY' }, { status: 500 });
-  }
-
-  const openai = new OpenAI({ apiKey });
-
-  const { userId } = await auth();
-  if (!userId) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
-  // Rate limit: max 10 completed image generations per user
-  try {
-    const existing = await db
-      .select({ id: usersTable.id })
-      .from(usersTable)
-      .where(and(eq(usersTable.userId, userId), eq(usersTable.status, 'completed')))
-      .limit(11);
-    if (existing.length >= 10) {
-      return NextResponse.json({ error: 'You have reached the limit of 10 image generations.' }, { status: 429 });
-    }
-  } catch {}
-  const enhance = Boolean(body?.enhance);
-
-  // Optionally enhance the prompt first using the same OpenAI provider
-  let promptText = String(body.prompt || '');
-  if (enhance && promptText.trim().length > 0) {
-    try {
-      const enhanced = await enhancePromptWithOpenAI(openai, promptText);
-      if (enhanced.trim().length > 0) {
-        promptText = enhanced.trim();
-      }
-    } catch {}
-  }
-
-  try {
-    let response: OpenAI.Images.ImagesResponse;
-    if (body.image) {
-      const images = await Promise.all(
-        [body.image].map(async (file) =>
-            await toFile(fs.createReadStream(file as string), null, {
-                type: "image/png",
-            })
-        ),
-      );
-
-      response = await openai.images.edit({
-        model: 'gpt-image-1',
-        prompt: promptText,
-        image: images,
-      });
-    }
-    else {
-
-      response = await openai.images.generate({
-        model: 'gpt-image-1',
-        prompt: promptText,
-      });
-    }
-
-    // Extract generated image(s)
-    type OutputItem = { type?: string; result?: unknown; text?: string };
-    type ResponseShape = { output?: unknown; usage?: unknown; meta?: { usage?: unknown } };
-    const resp = response as unknown as ResponseShape;
-    const outputsRaw = resp.output;
-    const outputs: OutputItem[] = Array.isArray(outputsRaw) ? (outputsRaw as OutputItem[]) : [];
-    const imageOutputs = outputs.filter((o: OutputItem) => o?.type === 'image_generation_call');
-    const imageBase64List: string[] = imageOutputs.map((o: OutputItem) => {
-      // Some SDK versions return o.result directly as base64
-      if (typeof o?.result === 'string') return o.result as string;
-      // Fallbacks for potential shapes
-      const r = o?.result as { b64_json?: unknown } | undefined;
-      if (r && typeof r.b64_json === 'string') return r.b64_json;
-      return '';
-    }).filter((s: string) => s.length > 0);
-
-    // Extract output text (if any)
-    type TextOutputItem = { type?: string; text?: string };
-    const textOutputs = outputs.filter((o: TextOutputItem) => o?.type === 'output_text') as TextOutputItem[];
-    const fullText = textOutputs.map((t) => t?.text || '').join('');
-
-    // Extract token usage if available
-    const rawUsage = (resp.usage ?? resp.meta?.usage ?? {}) as {
-      input_tokens?: number;
-      prompt_tokens?: number;
-      output_tokens?: number;
-      completion_tokens?: number;
-      total_tokens?: number;
-    };
-    const inputTokens: number | undefined = rawUsage.input_tokens ?? rawUsage.prompt_tokens;
-    const outputTokens: number | undefined = rawUsage.output_tokens ?? rawUsage.completion_tokens;
-    const totalTokens: number | undefined = rawUsage.total_tokens ?? (
-      typeof inputTokens === 'number' && typeof outputTokens === 'number'
-        ? inputTokens + outputTokens
-        : undefined
-    );
-
-    let savedImageUrl: string | undefined;
-    if (imageBase64List.length > 0) {
-      const randomImageName = Math.random().toString(36).substring(2, 15);
-      const mimeType = 'image/png';
-      const ext = mime.getExtension(mimeType) || 'png';
-      const fileName = `${randomImageName}.0.${ext}`;
-      const buffer = Buffer.from(imageBase64List[0], 'base64');
-
-      try {
-        const url = await uploadFile(fileName, buffer, mimeType);
-        savedImageUrl = url || `data:${mimeType};base64,${imageBase64List[0]}`;
-      } catch {
-        savedImageUrl = `data:${mimeType};base64,${imageBase64List[0]}`;
-      }
-    }
-
-    if (savedImageUrl) {
-      const generation: typeof usersTable.$inferInsert = {
-        userId: userId ?? null,
-        prompt: promptText,
-        inputImageUrl: savedImageUrl || '',
-        outputImageUrl: savedImageUrl || '',
-        model: 'image-gpt',
-        status: 'completed',
-        error: '',
-        metadata: {},
-      }
-      await db.insert(usersTable).values(generation);
-      return NextResponse.json({
-        success: true,
-        image: savedImageUrl,
-        text: fullText || undefined,
-        tokens: totalTokens,
-        usage: {
-          inputTokens,
-          outputTokens,
-          totalTokens,
-        },
-      });
-    }
-    if (typeof fullText === 'string' && fullText.trim().length > 0) {
-      return NextResponse.json({
-        success: true,
-        text: fullText,
-        tokens: totalTokens,
-        usage: {
-          inputTokens,
-          outputTokens,
-          totalTokens,
-        },
-      });
-    }
-    return NextResponse.json({ error: 'No image or text was generated' }, { status: 500 });
-  } catch (err) {
-    const message = err instanceof Error ? err.message : 'Unexpected error';
-    return NextResponse.json({ error: message }, { status: 500 });
-  }
-}
-
-async function enhancePromptWithOpenAI(openai: OpenAI, prompt: string): Promise<string> {
-  const system = 'You are an expert image prompt engineer. Unsure the prompt creates an image. If the proimpt does not contain any instructions about creating an image, feel free to create one yourself. If the user has a prompt that creaters an image, improve the prompt with vivid, concrete, unambiguous details, styles, lighting, camera, composition, and constraints, but keep the original intent. Return only the improved prompt.';
-  try {
-    const resp = await openai.responses.create({
-      model: 'gpt-5',
-      input: [
-        { role: 'system', content: [{ type: 'input_text', text: system }] },
-        { role: 'user', content: [{ type: 'input_text', text: prompt }] },
-      ],
-    });
-    const outputs = (resp as unknown as { output?: unknown[] })?.output || [];
-    const text = Array.isArray(outputs)
-      ? outputs.filter((o: unknown) => (o as { type?: string })?.type === 'output_text').map((o: unknown) => (o as { text?: string })?.text || '').join('').trim()
-      : '';
-    return text || prompt;
-  } catch {
-    return prompt;
-  }
+  return handleGenerate(request, 'image-gpt');
 }
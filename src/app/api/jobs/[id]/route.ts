@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getJob, isJobDue, runJob, toJobResponse } from "@/jobs";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const job = await getJob(id);
+  if (!job || job.userId !== userId) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  // Clients polling a job also advance it, so jobs progress without a cron worker
+  if (isJobDue(job)) {
+    after(() => runJob(job.id));
+  }
+  return NextResponse.json(toJobResponse(job));
+}
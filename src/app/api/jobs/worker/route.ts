@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWorker } from "@/jobs";
+
+export const maxDuration = 60;
+
+// Cron entry point: processes due jobs for most of the function's time budget.
+// Requires `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const processed = await runWorker({ budgetMs: 50_000 });
+  return NextResponse.json({ processed });
+}
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleRevealMessage } from "@/sessions";
+
+// Body: { revealed: true }; a revealed blind turn can't be hidden again
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string; messageId: string }> }) {
+  const body = (await request.json().catch(() => ({}))) as { revealed?: unknown };
+  if (body.revealed !== true) {
+    return NextResponse.json({ error: "revealed must be true" }, { status: 400 });
+  }
+  const { id, messageId } = await params;
+  return handleRevealMessage(id, messageId);
+}
@@ -0,0 +1,16 @@
+import { NextRequest } from "next/server";
+import { handleDeleteSession, handleGetSession, handleUpdateSession } from "@/sessions";
+
+// The session's turns with their generations and votes
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return handleGetSession((await params).id);
+}
+
+// Body: { title }
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return handleUpdateSession(request, (await params).id);
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return handleDeleteSession((await params).id);
+}
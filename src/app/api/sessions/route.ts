@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { handleCreateSession, handleListSessions } from "@/sessions";
+
+// The user's comparison sessions, most recently used first
+export async function GET() {
+  return handleListSessions();
+}
+
+// Body: { title? }; untitled sessions take the first prompt as their title
+export async function POST(request: NextRequest) {
+  return handleCreateSession(request);
+}
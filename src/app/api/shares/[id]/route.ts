@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { handleGetShare, handleRevokeShare } from "@/shares";
+
+// Public: the shared comparison, without signing in
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return handleGetShare((await params).id);
+}
+
+// Revokes the link; only its owner can
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return handleRevokeShare((await params).id);
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { handleCreateShare, handleListShares } from "@/shares";
+
+// The user's share links that haven't been revoked
+export async function GET() {
+  return handleListShares();
+}
+
+// Body: { generationIds }
+export async function POST(request: NextRequest) {
+  return handleCreateShare(request);
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleDeleteTemplate, handleUpdateTemplate } from "@/templates";
+
+// Body: any of { name, body, values, shared }
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const id = Number((await params).id);
+  if (!Number.isInteger(id)) {
+    return NextResponse.json({ error: "Template not found" }, { status: 404 });
+  }
+  return handleUpdateTemplate(request, id);
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const id = Number((await params).id);
+  if (!Number.isInteger(id)) {
+    return NextResponse.json({ error: "Template not found" }, { status: 404 });
+  }
+  return handleDeleteTemplate(id);
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { handleCreateTemplate, handleListTemplates } from "@/templates";
+
+// The user's templates and their team's
+export async function GET() {
+  return handleListTemplates();
+}
+
+// Body: { name, body, values?: { [variable]: string[] }, shared? }
+export async function POST(request: NextRequest) {
+  return handleCreateTemplate(request);
+}
@@ -1,18 +1,26 @@
 import { NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
-
-const API_KEY = process.env.GOOGLE_API_KEY;
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-const PROMPT_ENHANCER_MODEL = "gemini-2.5-flash";
+import { auth } from '@clerk/nextjs/server';
+import { enhanceConfig, enhancePrompt, parseEnhanceMode } from "@/enhance";
+import { isModelId } from "@/providers";
 
+// Enhances `text` without generating anything. With a `model` and
+// `enhanceMode: 'per-model'` the model's own enhancement is used.
 export async function POST(req: Request) {
-    const { text } = await req.json();
-    const instruction = `You are an expert Text to Image Prompt Enhancer. Please enhance the following prompt to make it more interesting and descriptive: ${text}.
-    <response>`;
-    const result = await ai.models.generateContent({
-        model: PROMPT_ENHANCER_MODEL,
-        contents: instruction,
-      });
-    const prompt = result.text
-    return NextResponse.json({ prompt });
-}
\ No newline at end of file
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { text, model, enhanceMode } = (await req.json().catch(() => ({}))) as { text?: unknown; model?: unknown; enhanceMode?: unknown };
+  if (typeof text !== 'string' || !text.trim()) {
+    return NextResponse.json({ error: 'Missing text' }, { status: 400 });
+  }
+  const mode = parseEnhanceMode(enhanceMode);
+  if (!mode) {
+    return NextResponse.json({ error: 'enhanceMode must be shared or per-model' }, { status: 400 });
+  }
+  const enhancement = await enhancePrompt(text, enhanceConfig(mode, isModelId(model) ? model : undefined));
+  if (!enhancement) {
+    return NextResponse.json({ error: 'Prompt enhancement failed' }, { status: 502 });
+  }
+  return NextResponse.json({ prompt: enhancement.prompt, enhancer: enhancement.enhancer, cached: enhancement.cached });
+}
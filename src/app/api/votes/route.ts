@@ -0,0 +1,7 @@
+import { NextRequest } from "next/server";
+import { handleVote } from "@/votes";
+
+// Body: { generationId, value: 'up' | 'down' } or { winnerId, loserIds: number[] }
+export async function POST(request: NextRequest) {
+  return handleVote(request);
+}
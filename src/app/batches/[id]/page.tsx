@@ -0,0 +1,121 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import { ProgressiveImage } from "@/app/components/ProgressiveImage";
+import type { BatchResults } from "@/batches";
+
+type BatchView = Omit<BatchResults, "createdAt"> & { createdAt: string };
+
+const POLL_MS = 2000;
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 3)}`;
+}
+
+export default function BatchPage() {
+  const { id } = useParams<{ id: string }>();
+  const [batch, setBatch] = useState<BatchView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Progress lives on the server, so reloading the page picks up where the batch is;
+  // polling also keeps the batch moving when no worker is running
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const load = async () => {
+      try {
+        const res = await fetch(`/api/batches/${id}`);
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load the batch");
+        if (cancelled) return;
+        setBatch(json);
+        if (json.status === "running" || json.progress.running > 0) timer = setTimeout(load, POLL_MS);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load the batch");
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [id]);
+
+  async function cancel() {
+    const res = await fetch(`/api/batches/${id}/cancel`, { method: "POST" });
+    if (res.ok) setBatch(await res.json());
+  }
+
+  const totalCost = batch?.items.reduce((sum, item) => sum + Object.values(item.results).reduce((s, cell) => s + (cell.costUsd ?? 0), 0), 0) ?? 0;
+
+  return (
+    <div className="min-h-screen w-full bg-[var(--background)] text-[var(--foreground)]">
+      <main className="flex flex-col items-center px-6 sm:px-8 py-16 gap-6">
+        <h1 className="text-3xl sm:text-4xl font-semibold tracking-tight">{batch?.name ?? "Batch"}</h1>
+        <p className="text-sm text-white/60 -mt-2">
+          <Link href="/batches" className="underline hover:text-white">All batches</Link>
+        </p>
+        {error ? <p className="text-red-300">{error}</p> : null}
+        {batch ? (
+          <>
+            <div className="flex flex-wrap items-center justify-center gap-3 text-sm">
+              <span>{batch.progress.done} / {batch.progress.total} prompts done</span>
+              <span className="text-white/60">{batch.progress.running} running</span>
+              <span className="text-white/60">{batch.status}</span>
+              {totalCost > 0 ? <span className="text-white/60">{formatUsd(totalCost)}</span> : null}
+              {batch.status === "running" ? (
+                <button type="button" onClick={cancel} className="px-3 h-8 rounded-full text-sm border border-white/15 hover:bg-white/5">Cancel</button>
+              ) : null}
+              <a href={`/api/batches/${batch.id}/export?format=csv`} className="underline hover:text-white">Export CSV</a>
+              <a href={`/api/batches/${batch.id}/export?format=json`} className="underline hover:text-white">Export JSON</a>
+            </div>
+            <div className="w-full h-1.5 max-w-4xl rounded-full bg-white/10 overflow-hidden">
+              <div className="h-full bg-white/70" style={{ width: `${(batch.progress.done / Math.max(batch.progress.total, 1)) * 100}%` }} />
+            </div>
+            <div className="w-full overflow-x-auto rounded-2xl border border-white/10 bg-white/5">
+              <table className="w-full text-sm">
+                <thead className="text-xs uppercase tracking-wider text-white/50">
+                  <tr className="text-left">
+                    <th className="p-3">#</th>
+                    <th className="p-3">Prompt</th>
+                    {batch.models.map((model) => <th key={model} className="p-3">{model}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {batch.items.map((item) => (
+                    <tr key={item.id} className="border-t border-white/10 align-top">
+                      <td className="p-3 text-white/50">{item.position + 1}</td>
+                      <td className="p-3 max-w-xs">
+                        <div className="whitespace-pre-wrap">{item.prompt}</div>
+                        {item.imageUrl ? <a href={item.imageUrl} target="_blank" rel="noreferrer" className="text-xs underline text-white/60">input image</a> : null}
+                        {item.tags.length > 0 ? <div className="mt-1 text-xs text-white/50">{item.tags.join(", ")}</div> : null}
+                      </td>
+                      {batch.models.map((model) => {
+                        const cell = item.results[model];
+                        return (
+                          <td key={model} className="p-3 w-48">
+                            {cell?.imageUrl ? (
+                              <a href={cell.imageUrl} target="_blank" rel="noreferrer">
+                                <ProgressiveImage src={cell.imageUrl} alt={item.prompt} width={176} height={176} />
+                              </a>
+                            ) : cell?.error ? (
+                              <span className="text-red-300 text-xs">{cell.error}</span>
+                            ) : (
+                              <span className="text-white/40 text-xs">{cell?.status ?? item.status}</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : null}
+      </main>
+    </div>
+  );
+}
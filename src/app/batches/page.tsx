@@ -0,0 +1,141 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { batchFormatOf } from "@/batch-file";
+
+type BatchSummary = { id: string; name: string; status: string; models: string[]; createdAt: string; total: number; done: number };
+
+const MODEL_OPTIONS = [
+  { model: "gemini-image-flash", label: "Gemini" },
+  { model: "image-gpt", label: "Image-GPT" },
+  { model: "flux-1", label: "Flux-1" },
+];
+
+export default function BatchesPage() {
+  const router = useRouter();
+  const [batches, setBatches] = useState<BatchSummary[] | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState("");
+  const [models, setModels] = useState<string[]>(MODEL_OPTIONS.map(({ model }) => model));
+  const [concurrency, setConcurrency] = useState(3);
+  const [enhance, setEnhance] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/batches")
+      .then((r) => r.json())
+      .then((json: { batches?: BatchSummary[] }) => setBatches(json.batches ?? []))
+      .catch(() => setBatches([]));
+  }, []);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!file || models.length === 0) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name || file.name,
+          format: batchFormatOf(file.name),
+          content: await file.text(),
+          models,
+          concurrency,
+          enhance,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to start the batch");
+      router.push(`/batches/${json.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start the batch");
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-[var(--background)] text-[var(--foreground)]">
+      <main className="flex flex-col items-center px-6 sm:px-8 py-16 gap-8">
+        <h1 className="text-3xl sm:text-4xl font-semibold tracking-tight">Batch runs</h1>
+        <p className="text-sm text-white/60 -mt-4 text-center max-w-xl">
+          Upload a CSV (columns <code>prompt</code>, <code>image</code>, <code>tags</code>) or JSONL file of up to 200 prompts and run it against the selected models.{" "}
+          <Link href="/" className="underline hover:text-white">Back to comparing</Link>
+        </p>
+
+        <form onSubmit={handleSubmit} className="w-full max-w-xl flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 text-sm">
+          <input type="file" accept=".csv,.jsonl,.json,text/csv" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+            className="h-9 rounded-lg bg-white/5 border border-white/15 px-3 outline-none focus:border-white/40"
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            {MODEL_OPTIONS.map(({ model, label }) => (
+              <label key={model} className="inline-flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={models.includes(model)}
+                  onChange={(e) => setModels((prev) => (e.target.checked ? [...prev, model] : prev.filter((m) => m !== model)))}
+                />
+                {label}
+              </label>
+            ))}
+            <label className="inline-flex items-center gap-1.5">
+              <input type="checkbox" checked={enhance} onChange={(e) => setEnhance(e.target.checked)} />
+              Enhance prompts
+            </label>
+            <label className="inline-flex items-center gap-1.5">
+              Prompts at once
+              <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} className="h-8 rounded-lg bg-white/5 border border-white/15 px-2">
+                {[1, 2, 3, 4, 5, 6, 7, 8].map((n) => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          </div>
+          {error ? <p className="text-red-300 whitespace-pre-wrap">{error}</p> : null}
+          <button
+            type="submit"
+            disabled={!file || models.length === 0 || submitting}
+            className="self-start px-4 h-9 rounded-full bg-white text-black disabled:opacity-40"
+          >
+            {submitting ? "Starting…" : "Start batch"}
+          </button>
+        </form>
+
+        {batches === null ? null : batches.length === 0 ? (
+          <p className="text-white/60">No batches yet.</p>
+        ) : (
+          <div className="w-full max-w-4xl overflow-x-auto rounded-2xl border border-white/10 bg-white/5">
+            <table className="w-full text-sm">
+              <thead className="text-xs uppercase tracking-wider text-white/50">
+                <tr className="text-left">
+                  <th className="p-3">Name</th>
+                  <th className="p-3">Models</th>
+                  <th className="p-3 text-right">Progress</th>
+                  <th className="p-3">Status</th>
+                  <th className="p-3">Started</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map((batch) => (
+                  <tr key={batch.id} className="border-t border-white/10">
+                    <td className="p-3"><Link href={`/batches/${batch.id}`} className="underline hover:text-white">{batch.name}</Link></td>
+                    <td className="p-3 text-white/70">{batch.models.join(", ")}</td>
+                    <td className="p-3 text-right tabular-nums">{batch.done} / {batch.total}</td>
+                    <td className="p-3">{batch.status}</td>
+                    <td className="p-3 text-white/60">{new Date(batch.createdAt).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import Image from "next/image";
+import { IMAGE_ROLES, type ImageRole } from "@/providers/images";
+
+export type SelectedImage = { src: string; role?: ImageRole };
+
+// The input images of the composer, in the order they are sent. Each can be
+// given a role, moved earlier or removed.
+export function InputImageStrip({ images, onChange }: { images: SelectedImage[]; onChange: (images: SelectedImage[]) => void }) {
+  const moveEarlier = (i: number) => {
+    const next = [...images];
+    [next[i - 1], next[i]] = [next[i], next[i - 1]];
+    onChange(next);
+  };
+
+  return (
+    <>
+      {images.map(({ src, role }, i) => (
+        <div key={`${i}-${src.slice(-32)}`} className="shrink-0 flex flex-col items-center gap-1">
+          <div className="relative h-10 w-10 rounded-md overflow-hidden border border-white/15">
+            <Image src={src} alt={`Input image ${i + 1}`} fill sizes="40px" unoptimized className="object-cover" />
+            <button
+              type="button"
+              aria-label="Remove image"
+              onClick={(e) => { e.preventDefault(); e.stopPropagation(); onChange(images.filter((_, j) => j !== i)); }}
+              className="absolute -top-1 -right-1 h-5 w-5 rounded-full bg-black/70 text-white text-xs leading-none grid place-items-center border border-white/20"
+            >
+              ×
+            </button>
+            {i > 0 ? (
+              <button
+                type="button"
+                aria-label="Move image earlier"
+                onClick={(e) => { e.preventDefault(); e.stopPropagation(); moveEarlier(i); }}
+                className="absolute -bottom-1 -left-1 h-5 w-5 rounded-full bg-black/70 text-white text-xs leading-none grid place-items-center border border-white/20"
+              >
+                ‹
+              </button>
+            ) : null}
+          </div>
+          <select
+            aria-label={`Role of image ${i + 1}`}
+            value={role ?? ""}
+            onChange={(e) => onChange(images.map((image, j) => (j === i ? { src: image.src, role: (e.target.value || undefined) as ImageRole | undefined } : image)))}
+            className="w-16 rounded border border-white/15 bg-black/40 text-[10px] text-white/80"
+          >
+            <option value="">Any</option>
+            {IMAGE_ROLES.map((r) => <option key={r} value={r}>{r}</option>)}
+          </select>
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { ProgressiveImage } from "@/app/components/ProgressiveImage";
+import type { GenerationMetadata } from "@/metadata";
+import type { InputImage } from "@/providers/images";
+import { diffWords } from "@/prompt-diff";
+
+// As returned by GET /api/generations/:id
+type GenerationDetail = {
+  id: number;
+  prompt: string;
+  enhancedPrompt: string | null;
+  model: string;
+  status: "pending" | "running" | "completed" | "failed";
+  error?: string;
+  inputImageUrl: string | null;
+  inputImages: InputImage[];
+  outputImageUrl: string | null;
+  parentGenerationId: number | null;
+  parentGenerationIds: number[];
+  costUsd: number | null;
+  metadata: GenerationMetadata;
+  enhance: boolean;
+  enhanceMode: string | null;
+  params: Record<string, string | number>;
+  stage: string | null;
+  createdAt: string;
+};
+
+// As returned by GET /api/generations/:id/lineage
+type LineageNode = {
+  id: number;
+  model: string;
+  prompt: string;
+  status: GenerationDetail["status"];
+  outputImageUrl: string | null;
+  children: LineageNode[];
+};
+
+// Image models a generation can be re-run on together (the composer's models)
+const IMAGE_MODELS = [
+  { model: "gemini-image-flash", label: "Gemini" },
+  { model: "image-gpt", label: "Image-GPT" },
+  { model: "flux-1", label: "Flux-1" },
+];
+
+const POLL_MS = 1500;
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 3)}`;
+}
+
+function formatMs(ms: number | undefined): string {
+  return typeof ms === "number" ? `${(ms / 1000).toFixed(1)}s` : "–";
+}
+
+// One generation of an edit chain and, indented below it, the edits made from it
+function LineageTree({ node, currentId, label }: { node: LineageNode; currentId: number; label: (model: string) => string }) {
+  return (
+    <li>
+      <Link
+        href={`/generations/${node.id}`}
+        className={`inline-flex items-center gap-3 rounded-xl p-1.5 pr-3 ${node.id === currentId ? "bg-white/10 ring-1 ring-white/30" : "hover:bg-white/5"}`}
+      >
+        {node.outputImageUrl ? (
+          <ProgressiveImage src={node.outputImageUrl} alt={node.prompt} width={56} height={56} />
+        ) : (
+          <span className="h-14 w-14 rounded-md border border-white/10 grid place-items-center text-xs text-white/40">{node.status === "failed" ? "failed" : "…"}</span>
+        )}
+        <span className="text-sm">
+          <span className="block">{label(node.model)} · #{node.id}</span>
+          <span className="block text-white/50 max-w-xs truncate">{node.prompt}</span>
+        </span>
+      </Link>
+      {node.children.length > 0 ? (
+        <ul className="ml-8 mt-1 pl-4 border-l border-white/10 flex flex-col gap-1">
+          {node.children.map((child) => (
+            <LineageTree key={child.id} node={child} currentId={currentId} label={label} />
+          ))}
+        </ul>
+      ) : null}
+    </li>
+  );
+}
+
+export default function GenerationPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [generation, setGeneration] = useState<GenerationDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reruns, setReruns] = useState<{ model: string; generationId: number }[]>([]);
+  const [rerunning, setRerunning] = useState(false);
+  const [lineage, setLineage] = useState<LineageNode | null>(null);
+
+  // Polls while the generation is still being made
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const load = async () => {
+      try {
+        const res = await fetch(`/api/generations/${id}`);
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load the generation");
+        if (cancelled) return;
+        setGeneration(json);
+        if (json.status === "pending" || json.status === "running") timer = setTimeout(load, POLL_MS);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load the generation");
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [id]);
+
+  // The edit chain, once the generation is there to show it for
+  const loaded = generation !== null;
+  useEffect(() => {
+    if (!loaded) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/generations/${id}/lineage`);
+        if (res.ok && !cancelled) setLineage((await res.json()).root);
+      } catch {
+        // the chain is optional
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, loaded]);
+
+  async function rerun(models?: string[]) {
+    setRerunning(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/generations/${id}/rerun`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(models ? { models } : {}),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to re-run");
+      const jobs = json.jobs as { model: string; generationId: number }[];
+      if (jobs.length === 1) {
+        router.push(`/generations/${jobs[0].generationId}`);
+        return;
+      }
+      setReruns(jobs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to re-run");
+    } finally {
+      setRerunning(false);
+    }
+  }
+
+  const label = (model: string) => IMAGE_MODELS.find((m) => m.model === model)?.label ?? model;
+  const timing = generation?.metadata.timing;
+  const isVideo = generation?.metadata.output?.mimeType.startsWith("video/") || /\.mp4$/i.test(generation?.outputImageUrl ?? "");
+  const params = Object.entries(generation?.params ?? {});
+
+  return (
+    <div className="min-h-screen w-full bg-[var(--background)] text-[var(--foreground)]">
+      <main className="flex flex-col items-center px-6 sm:px-8 py-16 gap-6">
+        <h1 className="text-3xl sm:text-4xl font-semibold tracking-tight">{generation ? label(generation.model) : "Generation"}</h1>
+        <p className="text-sm text-white/60 -mt-2">
+          <Link href="/" className="underline hover:text-white">Back to comparing</Link>
+        </p>
+        {error ? <p className="text-red-300">{error}</p> : null}
+        {generation ? (
+          <div className="w-full max-w-4xl grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div className="flex flex-col gap-3">
+              {generation.outputImageUrl && isVideo ? (
+                <video src={generation.outputImageUrl} controls className="w-full rounded-2xl" />
+              ) : generation.outputImageUrl ? (
+                <ProgressiveImage src={generation.outputImageUrl} alt={generation.prompt} width="100%" height={384} />
+              ) : generation.status === "failed" ? (
+                <div className="rounded-2xl border border-red-300/30 p-4 text-sm text-red-300">{generation.error || "Generation failed"}</div>
+              ) : (
+                <div className="rounded-2xl border border-white/10 h-96 grid place-items-center text-sm text-white/60">
+                  <span><span className="spinner inline-block align-middle mr-2" />{generation.stage ?? generation.status}…</span>
+                </div>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <button type="button" disabled={rerunning} onClick={() => rerun()} className="px-3 h-8 rounded-full text-sm bg-white text-black disabled:opacity-40">
+                  Re-run on {label(generation.model)}
+                </button>
+                {IMAGE_MODELS.some((m) => m.model === generation.model) ? (
+                  <button type="button" disabled={rerunning} onClick={() => rerun(IMAGE_MODELS.map((m) => m.model))} className="px-3 h-8 rounded-full text-sm border border-white/15 hover:bg-white/5 disabled:opacity-40">
+                    Re-run on all models
+                  </button>
+                ) : null}
+                <Link href={`/?fork=${generation.id}`} className="px-3 h-8 rounded-full text-sm border border-white/15 hover:bg-white/5 inline-flex items-center">
+                  Fork into composer
+                </Link>
+              </div>
+              {reruns.length > 0 ? (
+                <div className="text-sm text-white/70">
+                  Re-running:{" "}
+                  {reruns.map((r) => (
+                    <Link key={r.generationId} href={`/generations/${r.generationId}`} className="mr-2 underline hover:text-white">{label(r.model)}</Link>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+
+            <dl className="text-sm grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 content-start">
+              <dt className="text-white/50">Prompt</dt>
+              <dd className="whitespace-pre-wrap">{generation.prompt}</dd>
+              {generation.enhancedPrompt ? (
+                <>
+                  <dt className="text-white/50">Enhanced</dt>
+                  <dd className="leading-relaxed">
+                    {diffWords(generation.prompt, generation.enhancedPrompt).map((part, i) => (
+                      <span key={i} className={part.type === "added" ? "text-emerald-300" : part.type === "removed" ? "text-red-300 line-through" : undefined}>
+                        {part.text}{" "}
+                      </span>
+                    ))}
+                  </dd>
+                </>
+              ) : null}
+              {generation.enhance ? (
+                <>
+                  <dt className="text-white/50">Enhancement</dt>
+                  <dd>{generation.enhanceMode ?? "shared"}{generation.metadata.enhancement ? ` · ${generation.metadata.enhancement.enhancer}` : ""}</dd>
+                </>
+              ) : null}
+              {generation.inputImages.length > 0 ? (
+                <>
+                  <dt className="text-white/50">{generation.inputImages.length > 1 ? "Input images" : "Input image"}</dt>
+                  <dd>
+                    <div className="flex flex-wrap gap-3">
+                      {generation.inputImages.map(({ url, role }, i) => (
+                        <figure key={i} className="space-y-1">
+                          <ProgressiveImage src={url} alt={`Input image ${i + 1}`} width={160} height={160} />
+                          {role ? <figcaption className="text-xs text-white/50">{role}</figcaption> : null}
+                        </figure>
+                      ))}
+                    </div>
+                    {generation.metadata.ignoredImages ? (
+                      <p className="text-white/40">{`The model took only the first ${generation.inputImages.length - generation.metadata.ignoredImages}`}</p>
+                    ) : null}
+                  </dd>
+                </>
+              ) : null}
+              <dt className="text-white/50">Parameters</dt>
+              <dd>
+                {params.length > 0 ? params.map(([name, value]) => `${name}: ${value}`).join(" · ") : "model defaults"}
+                {generation.metadata.ignoredParams?.length ? <span className="text-white/40"> (ignored: {generation.metadata.ignoredParams.join(", ")})</span> : null}
+              </dd>
+              <dt className="text-white/50">Status</dt>
+              <dd>{generation.status}</dd>
+              <dt className="text-white/50">Timings</dt>
+              <dd>total {formatMs(timing?.durationMs)} · queued {formatMs(timing?.queueMs)} · polling {formatMs(timing?.pollMs)}</dd>
+              {generation.metadata.usage?.totalTokens ? (
+                <>
+                  <dt className="text-white/50">Tokens</dt>
+                  <dd>{generation.metadata.usage.totalTokens}</dd>
+                </>
+              ) : null}
+              <dt className="text-white/50">Cost</dt>
+              <dd>{generation.costUsd !== null ? formatUsd(generation.costUsd) : "–"}</dd>
+              {generation.metadata.provider?.model ? (
+                <>
+                  <dt className="text-white/50">Provider model</dt>
+                  <dd>{generation.metadata.provider.model}</dd>
+                </>
+              ) : null}
+              {generation.parentGenerationIds.length > 0 ? (
+                <>
+                  <dt className="text-white/50">Edited from</dt>
+                  <dd className="flex gap-2">
+                    {generation.parentGenerationIds.map((parentId) => (
+                      <Link key={parentId} href={`/generations/${parentId}`} className="underline hover:text-white">#{parentId}</Link>
+                    ))}
+                  </dd>
+                </>
+              ) : null}
+              {generation.metadata.rerunOf ? (
+                <>
+                  <dt className="text-white/50">Re-run of</dt>
+                  <dd><Link href={`/generations/${generation.metadata.rerunOf}`} className="underline hover:text-white">#{generation.metadata.rerunOf}</Link></dd>
+                </>
+              ) : null}
+              <dt className="text-white/50">Created</dt>
+              <dd>{new Date(generation.createdAt).toLocaleString()}</dd>
+            </dl>
+          </div>
+        ) : null}
+        {generation && lineage && lineage.children.length > 0 ? (
+          <section className="w-full max-w-4xl">
+            <h2 className="text-lg font-medium mb-3">Edit chain</h2>
+            <ul className="flex flex-col gap-1">
+              <LineageTree node={lineage} currentId={generation.id} label={label} />
+            </ul>
+          </section>
+        ) : null}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import Link from "next/link";
+import { getEnhancementResults, getLeaderboard, PROMPT_CATEGORIES, PromptCategory } from "@/ratings";
+
+export const dynamic = "force-dynamic";
+
+const CATEGORY_LABELS: Record<PromptCategory, string> = {
+  edit: "Image edits",
+  text: "Text & logos",
+  product: "Products",
+  portrait: "People",
+  animal: "Animals",
+  landscape: "Places",
+  illustration: "Illustration",
+  other: "Other",
+};
+
+export default async function LeaderboardPage({ searchParams }: { searchParams: Promise<{ category?: string }> }) {
+  const { category: requested } = await searchParams;
+  const category = PROMPT_CATEGORIES.find((c) => c === requested);
+  const leaderboard = await getLeaderboard(category);
+  const enhancement = await getEnhancementResults(category);
+  const tabs: { href: string; label: string; count?: number; active: boolean }[] = [
+    { href: "/leaderboard", label: "Overall", active: !category },
+    ...PROMPT_CATEGORIES.map((c) => ({
+      href: `/leaderboard?category=${c}`,
+      label: CATEGORY_LABELS[c],
+      count: leaderboard.categories[c] ?? 0,
+      active: c === category,
+    })),
+  ];
+
+  return (
+    <div className="min-h-screen w-full bg-[var(--background)] text-[var(--foreground)]">
+      <main className="flex flex-col items-center px-6 sm:px-8 py-16 gap-8">
+        <h1 className="text-3xl sm:text-4xl font-semibold tracking-tight">Leaderboard</h1>
+        <p className="text-sm text-white/60 -mt-4">
+          Ratings from pairwise votes. <Link href="/" className="underline hover:text-white">Back to comparing</Link>
+        </p>
+        <div className="flex flex-wrap justify-center items-center gap-2">
+          {tabs.map((tab) => (
+            <Link
+              key={tab.href}
+              href={tab.href}
+              className={`${tab.active ? "bg-white text-black" : "bg-white/0 text-white/80 border border-white/15 hover:bg-white/5"} px-3 h-8 rounded-full text-sm transition-colors inline-flex items-center`}
+            >
+              {tab.label}
+              {typeof tab.count === "number" ? <span className="ml-1 opacity-60">{tab.count}</span> : null}
+            </Link>
+          ))}
+        </div>
+
+        {leaderboard.rows.length === 0 ? (
+          <p className="text-white/60">No votes yet{category ? " in this category" : ""}.</p>
+        ) : (
+          <div className="w-full max-w-4xl overflow-x-auto rounded-2xl border border-white/10 bg-white/5">
+            <table className="w-full text-sm">
+              <thead className="text-xs uppercase tracking-wider text-white/50">
+                <tr className="text-left">
+                  <th className="p-3">#</th>
+                  <th className="p-3">Model</th>
+                  <th className="p-3 text-right">Bradley-Terry</th>
+                  <th className="p-3 text-right">Elo</th>
+                  <th className="p-3 text-right">Wins</th>
+                  <th className="p-3 text-right">Losses</th>
+                  <th className="p-3 text-right">Win rate</th>
+                  <th className="p-3 text-right">👍 / 👎</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.rows.map((row, i) => {
+                  const games = row.wins + row.losses;
+                  return (
+                    <tr key={row.model} className="border-t border-white/10">
+                      <td className="p-3 text-white/50">{i + 1}</td>
+                      <td className="p-3">{row.label}</td>
+                      <td className="p-3 text-right tabular-nums">{Math.round(row.bradleyTerry)}</td>
+                      <td className="p-3 text-right tabular-nums">{Math.round(row.elo)}</td>
+                      <td className="p-3 text-right tabular-nums">{row.wins}</td>
+                      <td className="p-3 text-right tabular-nums">{row.losses}</td>
+                      <td className="p-3 text-right tabular-nums">{games > 0 ? `${Math.round((row.wins / games) * 100)}%` : "–"}</td>
+                      <td className="p-3 text-right tabular-nums">{row.upvotes} / {row.downvotes}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-white/40">{leaderboard.matches} pairwise vote{leaderboard.matches === 1 ? "" : "s"}</p>
+
+        {enhancement.length > 0 ? (
+          <div className="w-full max-w-4xl flex flex-col gap-3">
+            <h2 className="text-lg font-semibold">Raw vs enhanced prompts</h2>
+            <div className="overflow-x-auto rounded-2xl border border-white/10 bg-white/5">
+              <table className="w-full text-sm">
+                <thead className="text-xs uppercase tracking-wider text-white/50">
+                  <tr className="text-left">
+                    <th className="p-3">Model</th>
+                    <th className="p-3 text-right">Enhanced wins</th>
+                    <th className="p-3 text-right">Raw wins</th>
+                    <th className="p-3 text-right">Enhanced win rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {enhancement.map((row) => (
+                    <tr key={row.model} className="border-t border-white/10">
+                      <td className="p-3">{row.label}</td>
+                      <td className="p-3 text-right tabular-nums">{row.enhancedWins}</td>
+                      <td className="p-3 text-right tabular-nums">{row.rawWins}</td>
+                      <td className="p-3 text-right tabular-nums">{Math.round((row.enhancedWins / (row.enhancedWins + row.rawWins)) * 100)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : null}
+      </main>
+    </div>
+  );
+}
@@ -1,49 +1,362 @@
 "use client";
 
 import Image from "next/image";
+import Link from "next/link";
 import { useEffect, useRef, useState } from "react";
 import { useAuth, useClerk } from "@clerk/nextjs";
 import { ProgressiveImage } from "@/app/components/ProgressiveImage";
 import { MigrationModal } from "@/app/components/MigrationModal";
+import { InputImageStrip, type SelectedImage } from "@/app/components/InputImageStrip";
+import { type InputImage, MAX_INPUT_IMAGES } from "@/providers/images";
+import { ASPECT_RATIOS, MAX_SAFETY_TOLERANCE, MAX_SAMPLES, OUTPUT_FORMATS, QUALITIES } from "@/providers/params";
+import type { EnhanceMode } from "@/enhance";
+import { diffWords } from "@/prompt-diff";
+import { batchSize, expandTemplate, MAX_BATCH_PROMPTS, parseValueList, templateVariables } from "@/prompt-template";
 
 type ChatMessage = {
   id: string;
   role: "user" | "assistant";
+  // The session turn (session_messages row) an assistant reply belongs to
+  turnId?: string;
   content?: string;
   imageUrl?: string;
-  variants?: { label: string; imageUrl?: string; text?: string; vote?: "up" | "down"; durationMs?: number; tokens?: number }[];
+  // Blind comparison: variants are shuffled and shown as "Model A/B/C" until revealed
+  blind?: boolean;
+  revealed?: boolean;
+  // One variant per job (model × sample); samples of a model are shown as a strip.
+  // `comparisonLabel` ("Raw"/"Enhanced") splits a model's variants in a raw-vs-enhanced comparison.
+  variants?: { label: string; blindLabel?: string; comparisonLabel?: string; ignoredParams?: string[]; ignoredImages?: number; model?: string; sample?: number; enhance?: boolean; jobId?: string; generationId?: number; prompt?: string; enhancedPrompt?: string; best?: boolean; stage?: string; partialText?: string; imageUrl?: string; text?: string; vote?: "up" | "down"; durationMs?: number; tokens?: number; costUsd?: number }[];
 };
 
 type ModelResponse = {
   image?: string;
+  images?: string[];
+  enhancedPrompt?: string;
+  generationIds?: number[];
   url?: string;
   text?: string;
   success?: boolean;
   tokens?: number;
+  costUsd?: number;
   usage?: { inputTokens?: number; outputTokens?: number; totalTokens?: number };
 };
 
+type JobResponse = {
+  id: string;
+  status: "queued" | "running" | "completed" | "failed";
+  stage?: string;
+  result?: ModelResponse;
+  error?: string;
+};
+
+type StreamEvent =
+  | { event: "start"; messageId?: string; jobs: { model?: string; sample: number; enhance: boolean; jobId: string; generationId?: number; blindLabel?: string; ignoredParams?: string[]; ignoredImages?: number }[] }
+  | { event: "stage"; model?: string; sample: number; jobId: string; generationId?: number; stage: string; elapsedMs?: number; result?: ModelResponse; error?: string; timings?: Record<string, number> }
+  | { event: "text"; model?: string; sample: number; jobId: string; text: string; elapsedMs?: number }
+  | { event: "end"; elapsedMs: number };
+
+// As returned by POST /api/shares and listed by GET /api/shares
+type ShareLink = { id: string; url: string; generationIds: number[] };
+
+// As listed by GET /api/sessions
+type SessionSummary = { id: string; title: string; updatedAt: string };
+
+// One turn of GET /api/sessions/:id; generations come in display order
+type SessionTurn = {
+  id: string;
+  prompt: string;
+  inputImageUrl: string | null;
+  inputImages: InputImage[];
+  settings: { models: string[]; blind?: boolean; compareEnhancement?: boolean; video?: boolean };
+  revealed: boolean;
+  generations: ({
+    id: number;
+    jobId: string | null;
+    status: "pending" | "running" | "completed" | "failed";
+    stage: string | null;
+    prompt: string;
+    outputImageUrl: string | null;
+    text?: string;
+    blindLabel: string | null;
+    enhanced: boolean;
+    sample: number;
+    vote?: "up" | "down";
+    best: boolean;
+  } & ModelDetails)[];
+};
+
+// Left out of a blind turn until it is revealed; the reveal returns them
+type ModelDetails = {
+  model: string | null;
+  enhancedPrompt: string | null;
+  costUsd: number | null;
+  durationMs: number | null;
+  tokens: number | null;
+  ignoredParams: string[];
+  ignoredImages?: number;
+};
+
+// `quota` from GET /api/fetch-images (see src/quota.ts)
+type Quota = { label: string; limit: number; used: number; remaining: number; resetsAt: string | null };
+
+// GET /api/spend
+type Spend = { totalUsd: number; generations: number; models: { model: string; label: string; generations: number; costUsd: number }[] };
+
+// As returned by GET /api/templates
+type SavedTemplate = { id: number; name: string; body: string; variables: string[]; values: Record<string, string[]>; shared: boolean; own: boolean };
+
+type ModelKey = "gemini" | "flux" | "imageGpt";
+
+// Composer settings, kept as strings for the form controls; "" means the model's default
+type ParamsForm = { aspectRatio: string; quality: string; outputFormat: string; seed: string; safetyTolerance: string };
+
+const PARAM_LABELS: Record<string, string> = {
+  aspectRatio: "aspect ratio",
+  quality: "quality",
+  seed: "seed",
+  outputFormat: "format",
+  safetyTolerance: "safety",
+};
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 3)}`;
+}
+
+function quotaMessage(quota: Quota | null): string {
+  if (!quota) return "You have used all your generation units.";
+  const resets = quota.resetsAt ? ` More become available on ${new Date(quota.resetsAt).toLocaleDateString()}.` : "";
+  return `You have used all ${quota.limit} generation units of the ${quota.label} plan.${resets}`;
+}
+
+// Variants grouped by model (and raw/enhanced side), in the order they are shown
+function groupByModel<T extends { model?: string; label: string; comparisonLabel?: string }>(variants: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const variant of variants) {
+    const key = `${variant.model ?? variant.label}:${variant.comparisonLabel ?? ""}`;
+    groups.set(key, [...(groups.get(key) ?? []), variant]);
+  }
+  return [...groups.values()];
+}
+
+const MODEL_OPTIONS: { key: ModelKey; model: string; label: string }[] = [
+  { key: "gemini", model: "gemini-image-flash", label: "Gemini" },
+  { key: "imageGpt", model: "image-gpt", label: "Image-GPT" },
+  { key: "flux", model: "flux-1", label: "Flux-1" },
+];
+
+function modelLabel(model: string): string {
+  return MODEL_OPTIONS.find((option) => option.model === model)?.label ?? model;
+}
+
+// A request turned away by the rate limiter; it can be sent again at `retryAt`
+class RateLimitedError extends Error {
+  constructor(message: string, readonly retryAt: number) {
+    super(message);
+  }
+}
+
+// The 429 responses of the rate limiter carry Retry-After (in seconds); quota
+// 429s don't
+function rateLimitedError(r: Response, message: string): RateLimitedError | undefined {
+  const retryAfter = Number(r.headers.get("Retry-After"));
+  if (r.status !== 429 || !(retryAfter > 0)) return undefined;
+  return new RateLimitedError(message, Date.now() + retryAfter * 1000);
+}
+
+// Sends a generation request under a fresh Idempotency-Key, sending it once
+// more with the same key if the network fails: the server runs it only once
+async function postGeneration(url: string, init: RequestInit): Promise<Response> {
+  const headers = { ...init.headers, "Idempotency-Key": crypto.randomUUID() };
+  try {
+    return await fetch(url, { ...init, headers });
+  } catch {
+    return fetch(url, { ...init, headers });
+  }
+}
+
+// Queues a generation and resolves with its job id
+async function submitJob(url: string, init: RequestInit): Promise<string> {
+  const r = await postGeneration(url, init);
+  if (!r.ok) {
+    const json = await r.json().catch(() => null) as { error?: string } | null;
+    throw rateLimitedError(r, json?.error || "Too many requests") ?? new Error(json?.error || "Request failed");
+  }
+  const json = (await r.json()) as { jobId?: string };
+  if (!json.jobId) throw new Error("No job id returned");
+  return json.jobId;
+}
+
+// A completed generation in the landing gallery
+type GalleryImage = { id: number; url: string };
+
+// One page of the user's completed images for the landing gallery
+async function fetchGalleryPage(cursor?: string): Promise<{ images: GalleryImage[]; nextCursor: string | null }> {
+  const params = new URLSearchParams({ status: "completed", limit: "24" });
+  if (cursor) params.set("cursor", cursor);
+  const r = await fetch(`/api/generations?${params}`, { method: "GET" });
+  if (!r.ok) throw new Error("Failed to load your images");
+  const json = (await r.json()) as { generations: { id: number; outputImageUrl: string | null }[]; nextCursor: string | null };
+  return {
+    images: json.generations.flatMap((g) => (g.outputImageUrl ? [{ id: g.id, url: g.outputImageUrl }] : [])),
+    nextCursor: json.nextCursor,
+  };
+}
+
+// Follows a job until it completes or fails
+async function waitForJob(jobId: string, intervalMs = 1000): Promise<ModelResponse> {
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    const r = await fetch(`/api/jobs/${jobId}`, { method: "GET" });
+    if (!r.ok) throw new Error(await r.text().catch(() => "Job status request failed"));
+    const job = (await r.json()) as JobResponse;
+    if (job.status === "completed") return job.result ?? {};
+    if (job.status === "failed") throw new Error(job.error || "Generation failed");
+  }
+}
+
+// Rebuilds the chat from a saved session: each turn becomes the user's prompt
+// and a reply holding its generations as variants
+function sessionMessages(turns: SessionTurn[]): ChatMessage[] {
+  return turns.flatMap((turn): ChatMessage[] => {
+    const user: ChatMessage = { id: `${turn.id}:prompt`, role: "user", content: turn.prompt };
+    if (turn.settings.video) {
+      const video = turn.generations[0];
+      const content = video?.outputImageUrl ? `Video generated: ${video.outputImageUrl}` : video?.status === "failed" ? video.text : "Generating video…";
+      return [user, { id: turn.id, turnId: turn.id, role: "assistant", content }];
+    }
+    const blind = Boolean(turn.settings.blind);
+    return [user, {
+      id: turn.id,
+      turnId: turn.id,
+      role: "assistant",
+      content: blind ? undefined : turn.generations.find((g) => g.model === "image-gpt" && g.text)?.text,
+      blind,
+      revealed: turn.revealed,
+      variants: turn.generations.map((g) => ({
+        label: g.model ? modelLabel(g.model) : (g.blindLabel ?? "Model"),
+        blindLabel: g.blindLabel ?? undefined,
+        comparisonLabel: turn.settings.compareEnhancement ? (g.enhanced ? "Enhanced" : "Raw") : undefined,
+        ...variantDetails(g),
+        sample: g.sample,
+        enhance: g.enhanced,
+        jobId: g.jobId ?? undefined,
+        generationId: g.id,
+        prompt: g.prompt,
+        best: g.best,
+        stage: g.status === "completed" ? "done" : g.status === "failed" ? "error" : (g.stage ?? "queued"),
+        imageUrl: g.outputImageUrl ?? undefined,
+        text: g.text,
+        vote: g.vote,
+      })),
+    }];
+  });
+}
+
+function variantDetails(details: ModelDetails) {
+  return {
+    model: details.model ?? undefined,
+    enhancedPrompt: details.enhancedPrompt ?? undefined,
+    costUsd: details.costUsd ?? undefined,
+    durationMs: details.durationMs ?? undefined,
+    tokens: details.tokens ?? undefined,
+    ignoredParams: details.ignoredParams,
+    ignoredImages: details.ignoredImages,
+  };
+}
+
+const SESSION_POLL_MS = 2000;
+
+const STAGE_LABELS: Record<string, string> = {
+  queued: "Queued",
+  enhancing: "Enhancing prompt",
+  submitted: "Generating",
+  polling: "Waiting for result",
+  uploading: "Uploading",
+};
+
+// Starts a multi-model generation and reports server-sent progress events until the stream ends
+async function streamGeneration(body: Record<string, unknown>, onEvent: (event: StreamEvent) => void): Promise<void> {
+  const r = await postGeneration("/api/generate/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!r.ok || !r.body) {
+    const json = await r.json().catch(() => null) as { error?: string } | null;
+    throw rateLimitedError(r, json?.error || "Too many requests") ?? new Error(json?.error || "Request failed");
+  }
+  const reader = r.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+      const lines = block.split("\n");
+      const event = lines.find((line) => line.startsWith("event: "))?.slice(7);
+      const data = lines.filter((line) => line.startsWith("data: ")).map((line) => line.slice(6)).join("\n");
+      if (!event || !data) continue;
+      try {
+        onEvent({ event, ...JSON.parse(data) } as StreamEvent);
+      } catch {}
+    }
+  }
+}
+
 export default function Home() {
   const [prompt, setPrompt] = useState("");
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionPending, setSessionPending] = useState(false);
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  // Bumped by every session load and submit, so a stale load can't replace newer messages
+  const sessionRequestRef = useRef(0);
+  // Set while a submission runs, so Cmd+Enter and a click on Run don't both start it
+  const submittingRef = useRef(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasRun, setHasRun] = useState(false);
   const [transitioning, setTransitioning] = useState(false);
   const [zoomUrl, setZoomUrl] = useState<string | null>(null);
   const [showLoadingSkeleton, setShowLoadingSkeleton] = useState(false);
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  const [uploadedImages, setUploadedImages] = useState<SelectedImage[]>([]);
   const [videoMode, setVideoMode] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
-  const [userImages, setUserImages] = useState<string[]>([]);
+  const [userImages, setUserImages] = useState<GalleryImage[]>([]);
+  const [userImagesCursor, setUserImagesCursor] = useState<string | null>(null);
+  const galleryEndRef = useRef<HTMLDivElement | null>(null);
   const [loadingUserImages, setLoadingUserImages] = useState(false);
   const [, setUserImageCount] = useState<number>(0);
   const [userLimitReached, setUserLimitReached] = useState(false);
+  const [userQuota, setUserQuota] = useState<Quota | null>(null);
+  // Set while rate limited: when the next request may be sent, and the seconds left
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [retryIn, setRetryIn] = useState(0);
+  const [spend, setSpend] = useState<Spend | null>(null);
   const composerVisible = hasRun || transitioning;
   const chatScrollRef = useRef<HTMLDivElement | null>(null);
   const chatEndRef = useRef<HTMLDivElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
-  const [selectedModels, setSelectedModels] = useState<{ gemini: boolean; flux: boolean; imageGpt: boolean }>({ gemini: true, flux: true, imageGpt: true });
+  const [selectedModels, setSelectedModels] = useState<Record<ModelKey, boolean>>({ gemini: true, flux: true, imageGpt: true });
+  const [blindMode, setBlindMode] = useState(false);
+  const [samples, setSamples] = useState(1);
+  const [enhance, setEnhance] = useState(false);
+  const [compareEnhancement, setCompareEnhancement] = useState(false);
+  const [enhanceMode, setEnhanceMode] = useState<EnhanceMode>("shared");
+  // Which sample is shown for each model of a message, keyed by `${messageId}:${model}`
+  const [activeSamples, setActiveSamples] = useState<Record<string, number>>({});
+  const [paramsForm, setParamsForm] = useState<ParamsForm>({ aspectRatio: "", quality: "", outputFormat: "", seed: "", safetyTolerance: "" });
+  const [templates, setTemplates] = useState<SavedTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<number | null>(null);
+  // Value lists per template variable as typed, separated by "|"
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [shareTemplate, setShareTemplate] = useState(false);
   const { isSignedIn } = useAuth();
   const { redirectToSignIn } = useClerk();
   const [migrationOpen, setMigrationOpen] = useState(false);
@@ -58,11 +371,11 @@ export default function Home() {
     }
   };
 
-  const selectedEntries = Object.entries(selectedModels).filter(([, v]) => v) as Array<
-    ["gemini" | "flux" | "imageGpt", boolean]
-  >;
-  const selectedLabels = selectedEntries
-    .map(([k]) => (k === "gemini" ? "Gemini" : k === "flux" ? "Flux-1" : "Image-GPT"));
+  const selectedLabels = MODEL_OPTIONS.filter(({ key }) => selectedModels[key]).map(({ label }) => label);
+  const promptVariables = templateVariables(prompt);
+  const templateValueLists = Object.fromEntries(promptVariables.map((name) => [name, parseValueList(templateValues[name] ?? "")]));
+  const selectedTemplate = templates.find((t) => t.id === selectedTemplateId);
+  const templateBatchSize = batchSize(prompt, templateValueLists);
 
   useEffect(() => {
     if (!hasRun) return;
@@ -109,13 +422,239 @@ export default function Home() {
     }
   }, []);
 
-  // Load user's previous images for landing view and track limit status
+  // Fork from a generation's detail page (/?fork=<id>): load its prompt, input
+  // image and settings into the composer
+  useEffect(() => {
+    const forkId = new URLSearchParams(window.location.search).get("fork");
+    if (!forkId) return;
+    window.history.replaceState(null, "", "/");
+    (async () => {
+      try {
+        const r = await fetch(`/api/generations/${encodeURIComponent(forkId)}`, { method: "GET" });
+        if (!r.ok) return;
+        const g = (await r.json()) as { prompt: string; inputImages: InputImage[]; enhance: boolean; enhanceMode: EnhanceMode | null; params: Record<string, string | number> };
+        setPrompt(g.prompt);
+        setUploadedImages(g.inputImages.map(({ url, role }) => ({ src: url, role })));
+        setEnhance(g.enhance);
+        if (g.enhanceMode) setEnhanceMode(g.enhanceMode);
+        setParamsForm((prev) => {
+          const next = { ...prev };
+          for (const name of Object.keys(next) as (keyof ParamsForm)[]) next[name] = g.params[name] !== undefined ? String(g.params[name]) : "";
+          return next;
+        });
+      } catch {
+        // ignore
+      }
+    })();
+  }, []);
+
+  const loadSpend = async () => {
+    try {
+      const r = await fetch("/api/spend", { method: "GET" });
+      if (r.ok) setSpend((await r.json()) as Spend);
+    } catch {}
+  };
+
+  useEffect(() => {
+    if (isSignedIn) loadSpend();
+    else setSpend(null);
+  }, [isSignedIn]);
+
+  const loadTemplates = async () => {
+    try {
+      const r = await fetch("/api/templates", { method: "GET" });
+      if (r.ok) setTemplates(((await r.json()) as { templates: SavedTemplate[] }).templates);
+    } catch {}
+  };
+
+  useEffect(() => {
+    if (isSignedIn) loadTemplates();
+    else setTemplates([]);
+  }, [isSignedIn]);
+
+  const loadSessions = async () => {
+    try {
+      const r = await fetch("/api/sessions", { method: "GET" });
+      if (r.ok) setSessions(((await r.json()) as { sessions: SessionSummary[] }).sessions);
+    } catch {}
+  };
+
+  useEffect(() => {
+    if (isSignedIn) loadSessions();
+    else setSessions([]);
+  }, [isSignedIn]);
+
+  // Loads a saved comparison into the chat. Resuming (`restore`) also brings
+  // back the last input image, to keep editing from it.
+  const openSession = async (id: string, restore = false): Promise<void> => {
+    const request = ++sessionRequestRef.current;
+    try {
+      const r = await fetch(`/api/sessions/${encodeURIComponent(id)}`, { method: "GET" });
+      const json = await r.json();
+      if (request !== sessionRequestRef.current) return;
+      if (!r.ok) throw new Error(json.error || "Failed to load the session");
+      const turns = json.messages as SessionTurn[];
+      setSessionId(id);
+      setMessages(sessionMessages(turns));
+      setSessionPending(turns.some((turn) => turn.generations.some((g) => g.status === "pending" || g.status === "running")));
+      setHasRun(turns.length > 0);
+      window.history.replaceState(null, "", `/?session=${encodeURIComponent(id)}`);
+      if (restore) {
+        setUploadedImages((turns[turns.length - 1]?.inputImages ?? []).map(({ url, role }) => ({ src: url, role })));
+        setError(null);
+      }
+    } catch (err) {
+      if (request !== sessionRequestRef.current) return;
+      setSessionId(null);
+      window.history.replaceState(null, "", "/");
+      setError(err instanceof Error ? err.message : "Failed to load the session");
+    }
+  };
+
+  const startNewSession = () => {
+    sessionRequestRef.current++;
+    setSessionId(null);
+    setMessages([]);
+    setSessionPending(false);
+    setUploadedImages([]);
+    setError(null);
+    setHasRun(false);
+    window.history.replaceState(null, "", "/");
+  };
+
+  // Sessions are created with the first prompt, so opening the page saves nothing
+  const ensureSession = async (): Promise<string> => {
+    if (sessionId) return sessionId;
+    const r = await fetch("/api/sessions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    const json = await r.json();
+    if (!r.ok) throw new Error(json.error || "Failed to start a session");
+    setSessionId(json.id);
+    window.history.replaceState(null, "", `/?session=${encodeURIComponent(json.id)}`);
+    return json.id;
+  };
+
+  const deleteSession = async (id: string) => {
+    if (!window.confirm("Delete this comparison? Its images stay in your history.")) return;
+    try {
+      const r = await fetch(`/api/sessions/${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!r.ok) return;
+      if (id === sessionId) startNewSession();
+      setSessions((prev) => prev.filter((session) => session.id !== id));
+    } catch {}
+  };
+
+  // Resume a saved comparison (/?session=<id>) once the user is known
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("session");
+    if (isSignedIn && id) openSession(id, true);
+  }, [isSignedIn]);
+
+  // A resumed session may still have generations running; refresh it until they finish
+  useEffect(() => {
+    if (!sessionId || !sessionPending || loading) return;
+    const timer = setTimeout(() => openSession(sessionId), SESSION_POLL_MS);
+    return () => clearTimeout(timer);
+  }, [messages, sessionId, sessionPending, loading]);
+
+  const loadShareLinks = async () => {
+    try {
+      const r = await fetch("/api/shares", { method: "GET" });
+      if (r.ok) setShareLinks(((await r.json()) as { shares: ShareLink[] }).shares);
+    } catch {}
+  };
+
+  useEffect(() => {
+    if (isSignedIn) loadShareLinks();
+    else setShareLinks([]);
+  }, [isSignedIn]);
+
+  const sharedGenerationIds = (m: ChatMessage) => (m.variants || []).map((v) => v.generationId).filter((id): id is number => typeof id === "number");
+
+  // The live link sharing exactly this message's variants, if any
+  const shareLinkFor = (m: ChatMessage) => {
+    const key = [...sharedGenerationIds(m)].sort((a, b) => a - b).join(",");
+    return shareLinks.find((link) => [...link.generationIds].sort((a, b) => a - b).join(",") === key);
+  };
+
+  const copyShareLink = (link: ShareLink) => {
+    navigator.clipboard?.writeText(new URL(link.url, window.location.origin).toString()).catch(() => {});
+  };
+
+  const handleShare = async (m: ChatMessage) => {
+    try {
+      const r = await fetch("/api/shares", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ generationIds: sharedGenerationIds(m) }),
+      });
+      const json = await r.json();
+      if (!r.ok) throw new Error(json.error || "Failed to share");
+      setShareLinks((prev) => [json as ShareLink, ...prev]);
+      copyShareLink(json as ShareLink);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to share");
+    }
+  };
+
+  const handleRevokeShare = async (link: ShareLink) => {
+    if (!window.confirm("Revoke this link? Anyone who has it will no longer be able to open it.")) return;
+    try {
+      const r = await fetch(`/api/shares/${encodeURIComponent(link.id)}`, { method: "DELETE" });
+      if (r.ok) setShareLinks((prev) => prev.filter((l) => l.id !== link.id));
+    } catch {}
+  };
+
+  const applyTemplate = (id: number | null) => {
+    setSelectedTemplateId(id);
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    setPrompt(template.body);
+    setTemplateValues(Object.fromEntries(Object.entries(template.values).map(([name, values]) => [name, values.join(" | ")])));
+  };
+
+  // Saves the prompt and value lists: over the selected template when it is the
+  // user's own, otherwise as a new one
+  const saveTemplate = async () => {
+    const update = selectedTemplate?.own;
+    const name = update ? selectedTemplate!.name : window.prompt("Template name");
+    if (!name?.trim()) return;
+    try {
+      const r = await fetch(update ? `/api/templates/${selectedTemplate!.id}` : "/api/templates", {
+        method: update ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, body: prompt, values: templateValueLists, ...(update ? {} : { shared: shareTemplate }) }),
+      });
+      const json = (await r.json()) as SavedTemplate & { error?: string };
+      if (!r.ok) throw new Error(json.error || `Request failed with ${r.status}`);
+      setSelectedTemplateId(json.id);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the template");
+    }
+  };
+
+  const deleteTemplate = async () => {
+    if (!selectedTemplate?.own || !window.confirm(`Delete the template "${selectedTemplate.name}"?`)) return;
+    try {
+      await fetch(`/api/templates/${selectedTemplate.id}`, { method: "DELETE" });
+      setSelectedTemplateId(null);
+      await loadTemplates();
+    } catch {}
+  };
+
+  // Load the first page of the user's previous images for the landing view and track limit status
   useEffect(() => {
     let cancelled = false;
     const load = async () => {
       if (!isSignedIn) {
         setUserImages([]);
+        setUserImagesCursor(null);
         setUserLimitReached(false);
+        setUserQuota(null);
         setUserImageCount(0);
         return;
       }
@@ -123,11 +662,16 @@ export default function Home() {
         setLoadingUserImages(true);
         const r = await fetch("/api/fetch-images", { method: "GET" });
         if (!r.ok) return;
-        const json = (await r.json()) as { urls?: string[]; count?: number; limitReached?: boolean };
+        const json = (await r.json()) as { count?: number; limitReached?: boolean; quota?: Quota };
+        const page = hasRun ? null : await fetchGalleryPage();
         if (!cancelled) {
           setUserLimitReached(Boolean(json?.limitReached));
+          setUserQuota(json?.quota ?? null);
           setUserImageCount(typeof json?.count === 'number' ? json.count! : 0);
-          if (!hasRun) setUserImages(Array.isArray(json?.urls) ? json.urls : []);
+          if (page) {
+            setUserImages(page.images);
+            setUserImagesCursor(page.nextCursor);
+          }
         }
       } catch {
         // ignore
@@ -139,6 +683,47 @@ export default function Home() {
     return () => { cancelled = true; };
   }, [isSignedIn, hasRun]);
 
+  // Counts down to when a rate-limited user can run again
+  useEffect(() => {
+    if (retryAt === null) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const tick = () => {
+      const left = retryAt - Date.now();
+      if (left <= 0) {
+        setRetryAt(null);
+        return;
+      }
+      setRetryIn(Math.ceil(left / 1000));
+      timer = setTimeout(tick, left % 1000 || 1000);
+    };
+    tick();
+    return () => clearTimeout(timer);
+  }, [retryAt]);
+
+  // Infinite scroll: fetch the next page when the end of the gallery comes into view
+  useEffect(() => {
+    const end = galleryEndRef.current;
+    if (!end || !userImagesCursor || hasRun) return;
+    let cancelled = false;
+    const observer = new IntersectionObserver(async (entries) => {
+      if (!entries.some((entry) => entry.isIntersecting)) return;
+      observer.disconnect();
+      try {
+        const page = await fetchGalleryPage(userImagesCursor);
+        if (cancelled) return;
+        setUserImages((prev) => [...prev, ...page.images]);
+        setUserImagesCursor(page.nextCursor);
+      } catch {
+        // ignore
+      }
+    }, { rootMargin: "400px" });
+    observer.observe(end);
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [userImagesCursor, hasRun]);
+
   const handleSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault();
     if (!prompt.trim()) return;
@@ -154,9 +739,25 @@ export default function Home() {
       return;
     }
     if (userLimitReached) {
-      setError("You have reached the limit of 10 image generations.");
+      setError(quotaMessage(userQuota));
       return;
     }
+    if (retryAt !== null || submittingRef.current) return;
+    if (promptVariables.length > 0) {
+      if (videoMode) {
+        setError("Templates run in image comparisons only");
+        return;
+      }
+      if (templateBatchSize === 0) {
+        setError(`Give ${promptVariables.map((name) => `{{${name}}}`).join(", ")} at least one value each`);
+        return;
+      }
+      if (templateBatchSize > MAX_BATCH_PROMPTS) {
+        setError(`This template expands to ${templateBatchSize} prompts; the limit is ${MAX_BATCH_PROMPTS}`);
+        return;
+      }
+    }
+    submittingRef.current = true;
     setLoading(true);
     setShowLoadingSkeleton(true);
     setError(null);
@@ -168,143 +769,183 @@ export default function Home() {
       }, 250); // sync with fade-out duration
     }
 
-    const userMessage: ChatMessage = {
-      id: crypto.randomUUID(),
-      role: "user",
-      content: prompt,
-    };
-    setMessages((prev) => [...prev, userMessage]);
+    // A prompt with {{variables}} runs once per combination of their values
+    const batch = promptVariables.length > 0 ? expandTemplate(prompt, templateValueLists) : [{ prompt, values: undefined }];
+    const templateBody = prompt;
+    const savedTemplate = selectedTemplate?.body === templateBody ? selectedTemplate : undefined;
     setPrompt("");
-    requestAnimationFrame(() => scrollToBottom("auto"));
 
     try {
-      if (selectedEntries.length === 0) {
+      if (selectedLabels.length === 0) {
         setLoading(false);
         setError("Select at least one model");
         return;
       }
+      sessionRequestRef.current++;
+      setSessionPending(false);
+      const currentSessionId = await ensureSession();
 
-      const payload: Record<string, unknown> = { prompt: userMessage.content };
-      if (uploadedImage) {
-        payload.image = uploadedImage;
-      }
-      const fetchParams = {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      } as const;
+      for (const item of batch) {
+        const userMessage: ChatMessage = {
+          id: crypto.randomUUID(),
+          role: "user",
+          content: item.prompt,
+        };
+        setMessages((prev) => [...prev, userMessage]);
+        requestAnimationFrame(() => scrollToBottom("auto"));
 
-      // If in video mode, call Veo3 only and return
-      if (videoMode) {
-        try {
-          const r = await fetch("/api/veo3", fetchParams);
-          if (!r.ok) throw new Error(await r.text().catch(() => "Veo3 request failed"));
-          const data = (await r.json()) as { url?: string[] };
-          const videoUrls = Array.isArray(data?.url) ? data.url : [];
-          const assistantMessage: ChatMessage = {
-            id: crypto.randomUUID(),
-            role: "assistant",
-            content: videoUrls.length > 0 ? `Video generated: ${videoUrls[0]}` : "Video generated",
-          };
-          setMessages((prev) => [...prev, assistantMessage]);
-        } catch (err) {
-          const message = err instanceof Error ? err.message : "An error occurred";
-          setError(message);
-          const assistantMessage: ChatMessage = {
-            id: crypto.randomUUID(),
-            role: "assistant",
-            content: message,
-          };
-          setMessages((prev) => [...prev, assistantMessage]);
-        } finally {
-          setVideoMode(false);
-          setShowLoadingSkeleton(false);
-          setLoading(false);
+        const payload: Record<string, unknown> = { prompt: userMessage.content, sessionId: currentSessionId };
+        if (item.values) {
+          // Recorded on each generation; an edited saved template counts as unsaved
+          payload.template = savedTemplate ? { id: savedTemplate.id, values: item.values } : { body: templateBody, values: item.values };
         }
-        return;
-      }
+        if (uploadedImages.length > 0) {
+          payload.images = uploadedImages.map(({ src, role }) => ({ image: src, role }));
+        }
+        const params = Object.fromEntries(Object.entries(paramsForm).filter(([, value]) => value !== ""));
+        if (Object.keys(params).length > 0) {
+          payload.params = params;
+        }
+        if (samples > 1) {
+          payload.n = samples;
+        }
+        if (enhance) {
+          payload.enhance = true;
+        }
+        if ((enhance || compareEnhancement) && enhanceMode !== "shared") {
+          payload.enhanceMode = enhanceMode;
+        }
+        const fetchParams = {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        } as const;
 
-      const tasks: { label: string; promise: Promise<ModelResponse> }[] = [];
-      if (selectedModels.imageGpt) {
-        const imageGptPromise: Promise<ModelResponse> = fetch("/api/image-gpt", {
-          ...fetchParams,
-        }).then(async (r) => {
-          if (!r.ok) throw new Error(await r.text().catch(() => "Image-GPT request failed"));
-          return r.json() as Promise<ModelResponse>;
-        });
-        tasks.push({ label: "Image-GPT", promise: imageGptPromise });
-      }
-      if (selectedModels.gemini) {
-        const geminiPromise: Promise<ModelResponse> = fetch("/api/gemini-image-flash", {
-          ...fetchParams,
-        }).then(async (r) => {
-          if (!r.ok) throw new Error(await r.text().catch(() => "Gemini request failed"));
-          return r.json() as Promise<ModelResponse>;
-        });
-        tasks.push({ label: "Gemini", promise: geminiPromise });
-      }
-      if (selectedModels.flux) {
-        const fluxPromise: Promise<ModelResponse> = fetch("/api/flux-1", {
-          ...fetchParams,
-        }).then(async (r) => {
-          if (!r.ok) throw new Error(await r.text().catch(() => "Flux-1 request failed"));
-          return r.json() as Promise<ModelResponse>;
-        });
-        tasks.push({ label: "Flux-1", promise: fluxPromise });
-      }
+        // If in video mode, call Veo3 only and return
+        if (videoMode) {
+          try {
+            const jobId = await submitJob("/api/veo3", fetchParams);
+            const data = await waitForJob(jobId, 5000);
+            const assistantMessage: ChatMessage = {
+              id: crypto.randomUUID(),
+              role: "assistant",
+              content: data.image ? `Video generated: ${data.image}` : "Video generated",
+            };
+            setMessages((prev) => [...prev, assistantMessage]);
+          } catch (err) {
+            const message = err instanceof Error ? err.message : "An error occurred";
+            if (err instanceof RateLimitedError) setRetryAt(err.retryAt);
+            setError(message);
+            const assistantMessage: ChatMessage = {
+              id: crypto.randomUUID(),
+              role: "assistant",
+              content: message,
+            };
+            setMessages((prev) => [...prev, assistantMessage]);
+          } finally {
+            setVideoMode(false);
+            setShowLoadingSkeleton(false);
+            setLoading(false);
+            loadSessions();
+          }
+          return;
+        }
 
-      const initialVariants = tasks.map((t) => ({ label: t.label }));
-      const startTimes: Record<string, number> = {};
-      tasks.forEach((t) => { startTimes[t.label] = performance.now(); });
-      const assistantId = crypto.randomUUID();
-      const assistantMessage: ChatMessage = {
-        id: assistantId,  
-        role: "assistant",
-        content: undefined,
-        variants: initialVariants,
-      };
-      // Show assistant message immediately and switch to per-variant placeholders only
-      setShowLoadingSkeleton(false);
-      setMessages((prev) => [...prev, assistantMessage]);
+        const selected = MODEL_OPTIONS.filter(({ key }) => selectedModels[key]);
+        const assistantId = crypto.randomUUID();
+        const assistantMessage: ChatMessage = {
+          id: assistantId,
+          role: "assistant",
+          content: undefined,
+          blind: blindMode,
+          variants: selected.flatMap(({ model, label }) => (compareEnhancement ? [false, true] : [enhance]).flatMap((enhanced) => (
+            Array.from({ length: samples }, (_, sample) => ({
+              label,
+              comparisonLabel: compareEnhancement ? (enhanced ? "Enhanced" : "Raw") : undefined,
+              model,
+              sample,
+              enhance: enhanced,
+              prompt: userMessage.content,
+              stage: "queued",
+            }))
+          ))),
+        };
+        // Show assistant message immediately and switch to per-variant placeholders only
+        setShowLoadingSkeleton(false);
+        setMessages((prev) => [...prev, assistantMessage]);
 
-      // Update each variant as its promise resolves
-      tasks.forEach((t) => {
-        t.promise
-          .then((value) => {
-            setMessages((prev) => prev.map((m) => {
-              if (m.id !== assistantId) return m;
+        // A job can return several images (one generation each); the extra ones become variants of their own
+        const updateVariant = (jobId: string, update: (v: NonNullable<ChatMessage["variants"]>[number]) => NonNullable<ChatMessage["variants"]>[number] | NonNullable<ChatMessage["variants"]>, content?: string) => {
+          setMessages((prev) => prev.map((m) => {
+            if (m.id !== assistantId) return m;
+            const nextVariants = (m.variants || []).flatMap((v) => (v.jobId === jobId ? update(v) : [v]));
+            return { ...m, variants: nextVariants, content: content ?? m.content };
+          }));
+        };
+
+        // Update each variant as its progress streams in; timings come from the server
+        try {
+          await streamGeneration({ ...payload, models: selected.map(({ model }) => model), blind: blindMode, compareEnhancement }, (event) => {
+            if (event.event === "start") {
+              // The server decides the display order (shuffled in blind mode)
+              setMessages((prev) => prev.map((m) => {
+                if (m.id !== assistantId) return m;
+                // Blind jobs name no model; revealing the turn fills it in
+                const variants = event.jobs
+                  .map((job) => {
+                    const v = (m.variants || []).find((variant) => (
+                      (job.model === undefined || variant.model === job.model) && (variant.sample ?? 0) === job.sample && Boolean(variant.enhance) === job.enhance
+                    ));
+                    const model = job.model === undefined ? { model: undefined, label: job.blindLabel ?? "Model" } : {};
+                    return v ? { ...v, ...model, jobId: job.jobId, generationId: job.generationId, blindLabel: job.blindLabel, ignoredParams: job.ignoredParams, ignoredImages: job.ignoredImages } : undefined;
+                  })
+                  .filter((v): v is NonNullable<typeof v> => Boolean(v));
+                return { ...m, turnId: event.messageId, variants };
+              }));
+            } else if (event.event === "text") {
+              updateVariant(event.jobId, (v) => ({ ...v, partialText: (v.partialText || "") + event.text }));
+            } else if (event.event === "stage" && event.stage === "done") {
+              const value = event.result;
               const text = typeof value?.text === "string" && value.text.trim().length > 0 ? value.text : undefined;
-              const nextVariants = (m.variants || []).map((v) => {
-                if (v.label !== t.label) return v;
-                const imageUrl = typeof value?.image === "string" ? value.image : (typeof value?.url === "string" ? value.url : undefined);
-                const durationMs = Math.round(performance.now() - (startTimes[t.label] ?? performance.now()));
-                const tokens = typeof value?.tokens === 'number' ? value.tokens : (typeof value?.usage?.totalTokens === 'number' ? value.usage.totalTokens : undefined);
-                return { ...v, imageUrl, text, durationMs, tokens };
-              });
-              const nextContent = t.label === "Image-GPT" ? text ?? m.content : m.content;
-              return { ...m, variants: nextVariants, content: nextContent };
-            }));
-          })
-          .catch((err) => {
-            const message = err instanceof Error ? err.message : "An error occurred";
-            setMessages((prev) => prev.map((m) => {
-              if (m.id !== assistantId) return m;
-              const nextVariants = (m.variants || []).map((v) => (v.label === t.label ? { ...v, text: message } : v));
-              const nextContent = t.label === "Image-GPT" ? message : m.content;
-              return { ...m, variants: nextVariants, content: nextContent };
-            }));
+              const imageUrl = typeof value?.image === "string" ? value.image : (typeof value?.url === "string" ? value.url : undefined);
+              const tokens = typeof value?.tokens === 'number' ? value.tokens : (typeof value?.usage?.totalTokens === 'number' ? value.usage.totalTokens : undefined);
+              const costUsd = typeof value?.costUsd === "number" ? value.costUsd : undefined;
+              const enhancedPrompt = typeof value?.enhancedPrompt === "string" ? value.enhancedPrompt : undefined;
+              const extras = (value?.images ?? []).slice(1).map((url, i) => ({ url, generationId: value?.generationIds?.[i + 1] }));
+              updateVariant(event.jobId, (v) => [
+                { ...v, stage: event.stage, imageUrl, text, durationMs: event.elapsedMs, tokens, costUsd, enhancedPrompt },
+                ...extras.map(({ url, generationId }) => ({ ...v, generationId, stage: event.stage, imageUrl: url, durationMs: event.elapsedMs, costUsd, enhancedPrompt })),
+              ], event.model === "image-gpt" && !blindMode ? text : undefined);
+            } else if (event.event === "stage" && event.stage === "error") {
+              const message = event.error || "An error occurred";
+              updateVariant(event.jobId, (v) => ({ ...v, stage: event.stage, text: message, durationMs: event.elapsedMs }), event.model === "image-gpt" && !blindMode ? message : undefined);
+            } else if (event.event === "stage") {
+              updateVariant(event.jobId, (v) => ({ ...v, generationId: event.generationId ?? v.generationId, stage: event.stage, durationMs: event.elapsedMs }));
+            }
           });
-      });
+        } catch (err) {
+          const message = err instanceof Error ? err.message : "An error occurred";
+          setMessages((prev) => prev.map((m) => (
+            m.id === assistantId ? { ...m, content: message, variants: (m.variants || []).map((v) => (v.imageUrl || v.text ? v : { ...v, text: message })) } : m
+          )));
+          // The rest of a template's prompts wait for the countdown
+          if (err instanceof RateLimitedError) {
+            setRetryAt(err.retryAt);
+            break;
+          }
+        }
 
-      // Wait for all to finish before returning (allows button to re-enable)
-      await Promise.allSettled(tasks.map((t) => t.promise));
-      setShowLoadingSkeleton(false);
+        setShowLoadingSkeleton(false);
+        loadSpend();
+      }
+      loadSessions();
       // Refresh user limit/count after generation
       try {
         const r = await fetch("/api/fetch-images", { method: "GET" });
         if (r.ok) {
-          const json = (await r.json()) as { urls?: string[]; count?: number; limitReached?: boolean };
+          const json = (await r.json()) as { count?: number; limitReached?: boolean; quota?: Quota };
           setUserLimitReached(Boolean(json?.limitReached));
+          setUserQuota(json?.quota ?? null);
           setUserImageCount(typeof json?.count === 'number' ? json.count! : 0);
         }
       } catch {}
@@ -318,10 +959,82 @@ export default function Home() {
       };
       setMessages((prev) => [...prev, assistantMessage]);
     } finally {
+      submittingRef.current = false;
       setLoading(false);
     }
   };
 
+  type Variant = NonNullable<ChatMessage["variants"]>[number];
+
+  // Voting (or asking to reveal) shows the real model names in a blind comparison
+  const setVariants = (messageId: string, update: (variants: Variant[]) => Variant[], reveal = false) => {
+    const message = messages.find((m) => m.id === messageId);
+    if (reveal && message?.blind && !message.revealed && message.turnId && sessionId) {
+      fetch(`/api/sessions/${encodeURIComponent(sessionId)}/messages/${message.turnId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ revealed: true }),
+      })
+        .then((r) => (r.ok ? r.json() : undefined))
+        .then((json?: { generations?: ({ generationId: number } & ModelDetails)[] }) => {
+          // The stream left the models, timings, tokens and costs out of the blind turn
+          const generations = new Map((json?.generations ?? []).map((generation) => [generation.generationId, generation]));
+          setMessages((prev) => prev.map((m) => (m.id === messageId ? {
+            ...m,
+            variants: (m.variants || []).map((v) => {
+              const generation = v.generationId ? generations.get(v.generationId) : undefined;
+              return generation?.model ? { ...v, ...variantDetails(generation), label: modelLabel(generation.model) } : v;
+            }),
+          } : m)));
+        })
+        .catch(() => {});
+    }
+    setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, variants: update(m.variants || []), revealed: m.revealed || reveal } : m)));
+  };
+
+  const isBlind = (messageId: string) => {
+    const message = messages.find((m) => m.id === messageId);
+    return Boolean(message?.blind && !message.revealed);
+  };
+
+  const postVote = async (body: Record<string, unknown>) => {
+    const r = await fetch("/api/votes", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!r.ok) throw new Error(await r.text().catch(() => "Vote failed"));
+  };
+
+  // Thumbs up/down on a single variant
+  const handleVote = async (messageId: string, variant: Variant, value: "up" | "down") => {
+    if (!variant.generationId) return;
+    const previous = variant.vote;
+    const blind = isBlind(messageId);
+    setVariants(messageId, (variants) => variants.map((v) => (v.generationId === variant.generationId ? { ...v, vote: value } : v)), true);
+    try {
+      await postVote({ generationId: variant.generationId, value, blind });
+    } catch {
+      setVariants(messageId, (variants) => variants.map((v) => (v.generationId === variant.generationId ? { ...v, vote: previous } : v)));
+    }
+  };
+
+  // Marks a variant as better than every other finished variant of the same prompt
+  const handleBest = async (messageId: string, variant: Variant, variants: Variant[]) => {
+    const loserIds = variants
+      .filter((v) => v.generationId && v.imageUrl && v.generationId !== variant.generationId)
+      .map((v) => v.generationId as number);
+    if (!variant.generationId || loserIds.length === 0) return;
+    const previous = variants.find((v) => v.best)?.generationId;
+    const blind = isBlind(messageId);
+    setVariants(messageId, (vs) => vs.map((v) => ({ ...v, best: v.generationId === variant.generationId })), true);
+    try {
+      await postVote({ winnerId: variant.generationId, loserIds, blind });
+    } catch {
+      setVariants(messageId, (vs) => vs.map((v) => ({ ...v, best: v.generationId === previous })));
+    }
+  };
+
   const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => resolve(reader.result as string);
@@ -329,22 +1042,29 @@ export default function Home() {
     reader.readAsDataURL(file);
   });
 
-  const handleDrop: React.DragEventHandler<HTMLDivElement> = async (e) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setIsDragging(false);
-    const files = e.dataTransfer?.files;
-    if (!files || files.length === 0) return;
-    const file = files[0];
-    if (!file || !file.type.startsWith('image/')) return;
+  // Adds to the input images, up to the most a request can carry
+  const addImageFiles = async (files: FileList | null | undefined) => {
+    const images = Array.from(files ?? []).filter((file) => file.type.startsWith('image/'));
     try {
-      const dataUrl = await readFileAsDataUrl(file);
-      setUploadedImage(dataUrl);
+      const dataUrls = await Promise.all(images.map(readFileAsDataUrl));
+      setUploadedImages((prev) => [...prev, ...dataUrls.map((src) => ({ src }))].slice(0, MAX_INPUT_IMAGES));
     } catch {
       // ignore
     }
   };
 
+  // "Use this image" adds an output to the input images
+  const addOutputImage = (src: string) => {
+    setUploadedImages((prev) => (prev.some((image) => image.src === src) ? prev : [...prev, { src }].slice(-MAX_INPUT_IMAGES)));
+  };
+
+  const handleDrop: React.DragEventHandler<HTMLDivElement> = async (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    await addImageFiles(e.dataTransfer?.files);
+  };
+
   const handleDragOver: React.DragEventHandler<HTMLDivElement> = (e) => {
     e.preventDefault();
     e.stopPropagation();
@@ -358,28 +1078,205 @@ export default function Home() {
   };
 
   return (
-    <div className="min-h-screen w-full bg-[var(--background)] text-[var(--foreground)] flex flex-col justify-center">
+    <div className={`min-h-screen w-full bg-[var(--background)] text-[var(--foreground)] flex flex-col justify-center ${isSignedIn ? "xl:pl-64" : ""}`}>
+      {isSignedIn ? (
+        <aside className="hidden xl:flex fixed inset-y-0 left-0 w-64 flex-col gap-2 border-r border-white/10 p-4 overflow-y-auto">
+          <button type="button" onClick={startNewSession} className="h-9 rounded-full text-sm bg-white text-black hover:bg-white/90">
+            New comparison
+          </button>
+          <div className="mt-2 text-xs uppercase tracking-wider text-white/50">Comparisons</div>
+          {sessions.length === 0 ? <p className="text-sm text-white/40">Your comparisons are saved here.</p> : null}
+          {sessions.map((session) => (
+            <div key={session.id} className={`group flex items-center rounded-lg ${session.id === sessionId ? "bg-white/10" : "hover:bg-white/5"}`}>
+              <button
+                type="button"
+                onClick={() => openSession(session.id, true)}
+                title={new Date(session.updatedAt).toLocaleString()}
+                className="flex-1 min-w-0 text-left px-3 py-2 text-sm text-white/80 truncate"
+              >
+                {session.title || "Untitled comparison"}
+              </button>
+              <button
+                type="button"
+                aria-label="Delete comparison"
+                onClick={() => deleteSession(session.id)}
+                className="px-2 text-white/40 hover:text-white opacity-0 group-hover:opacity-100"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </aside>
+      ) : null}
       <main className="flex flex-col items-center px-6 sm:px-8 py-16 gap-10">
         <h1 className="text-3xl sm:text-4xl font-semibold tracking-tight">Compare Image Models</h1>
         <div className="flex items-center gap-2 -mt-2">
-          {[
-            { key: "gemini", label: "Gemini" },
-            { key: "imageGpt", label: "Image-GPT" },
-            { key: "flux", label: "Flux-1" },
-          ].map(({ key, label }) => (
+          {MODEL_OPTIONS.map(({ key, label }) => (
             <button
               key={key}
               type="button"
-              onClick={() => setSelectedModels((prev) => ({ ...prev, [key]: !prev[key as keyof typeof prev] }))}
-              className={`${selectedModels[key as keyof typeof selectedModels] ? "bg-white text-black" : "bg-white/0 text-white/80 border border-white/15 hover:bg-white/5"} px-3 h-8 rounded-full text-sm transition-colors`}
+              onClick={() => setSelectedModels((prev) => ({ ...prev, [key]: !prev[key] }))}
+              className={`${selectedModels[key] ? "bg-white text-black" : "bg-white/0 text-white/80 border border-white/15 hover:bg-white/5"} px-3 h-8 rounded-full text-sm transition-colors`}
             >
               {label}
             </button>
           ))}
+          <span className="w-px h-5 bg-white/15 mx-1" />
+          <button
+            type="button"
+            title="Shuffle the results and hide model names until you vote"
+            onClick={() => setBlindMode((prev) => !prev)}
+            className={`${blindMode ? "bg-white text-black" : "bg-white/0 text-white/80 border border-white/15 hover:bg-white/5"} px-3 h-8 rounded-full text-sm transition-colors`}
+          >
+            Blind
+          </button>
+          <button
+            type="button"
+            title="Rewrite the prompt with the prompt enhancer before generating"
+            onClick={() => setEnhance((prev) => !prev)}
+            className={`${enhance ? "bg-white text-black" : "bg-white/0 text-white/80 border border-white/15 hover:bg-white/5"} px-3 h-8 rounded-full text-sm transition-colors`}
+          >
+            Enhance
+          </button>
+          <button
+            type="button"
+            title="Run every model on both the raw and the enhanced prompt"
+            onClick={() => setCompareEnhancement((prev) => !prev)}
+            className={`${compareEnhancement ? "bg-white text-black" : "bg-white/0 text-white/80 border border-white/15 hover:bg-white/5"} px-3 h-8 rounded-full text-sm transition-colors`}
+          >
+            Raw vs enhanced
+          </button>
         </div>
+        <div className="flex flex-wrap justify-center items-center gap-2 -mt-6 text-sm">
+          {([
+            ["aspectRatio", "Aspect", ASPECT_RATIOS],
+            ["quality", "Quality", QUALITIES],
+            ["outputFormat", "Format", OUTPUT_FORMATS],
+            ["safetyTolerance", "Safety", Array.from({ length: MAX_SAFETY_TOLERANCE + 1 }, (_, i) => String(i))],
+          ] as const).map(([name, label, options]) => (
+            <label key={name} className="flex items-center gap-1 text-white/60">
+              {label}
+              <select
+                value={paramsForm[name]}
+                onChange={(e) => setParamsForm((prev) => ({ ...prev, [name]: e.target.value }))}
+                className="h-8 rounded-full bg-white/5 border border-white/15 px-2 text-white/80 outline-none"
+              >
+                <option value="">Default</option>
+                {options.map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <label className="flex items-center gap-1 text-white/60">
+            Samples
+            <select
+              value={samples}
+              onChange={(e) => setSamples(Number(e.target.value))}
+              className="h-8 rounded-full bg-white/5 border border-white/15 px-2 text-white/80 outline-none"
+            >
+              {Array.from({ length: MAX_SAMPLES }, (_, i) => i + 1).map((count) => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </label>
+          {enhance || compareEnhancement ? (
+            <label className="flex items-center gap-1 text-white/60" title="Send every model the same enhanced prompt, or enhance for each model separately">
+              Enhancement
+              <select
+                value={enhanceMode}
+                onChange={(e) => setEnhanceMode(e.target.value as EnhanceMode)}
+                className="h-8 rounded-full bg-white/5 border border-white/15 px-2 text-white/80 outline-none"
+              >
+                <option value="shared">Same for all models</option>
+                <option value="per-model">Per model</option>
+              </select>
+            </label>
+          ) : null}
+          <label className="flex items-center gap-1 text-white/60">
+            Seed
+            <input
+              type="number"
+              min={0}
+              value={paramsForm.seed}
+              onChange={(e) => setParamsForm((prev) => ({ ...prev, seed: e.target.value }))}
+              placeholder="Random"
+              className="h-8 w-24 rounded-full bg-white/5 border border-white/15 px-3 text-white/80 outline-none placeholder-white/30"
+            />
+          </label>
+        </div>
+        {templates.length > 0 || promptVariables.length > 0 ? (
+          <div className="flex flex-wrap justify-center items-center gap-2 -mt-6 text-sm max-w-4xl">
+            <label className="flex items-center gap-1 text-white/60" title="Write {{name}} in the prompt to add a variable">
+              Template
+              <select
+                value={selectedTemplateId ?? ""}
+                onChange={(e) => applyTemplate(e.target.value ? Number(e.target.value) : null)}
+                className="h-8 rounded-full bg-white/5 border border-white/15 px-2 text-white/80 outline-none"
+              >
+                <option value="">None</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}{t.shared ? " (team)" : ""}</option>
+                ))}
+              </select>
+            </label>
+            {promptVariables.map((name) => (
+              <label key={name} className="flex items-center gap-1 text-white/60">
+                {`{{${name}}}`}
+                <input
+                  value={templateValues[name] ?? ""}
+                  onChange={(e) => setTemplateValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                  placeholder="value | value"
+                  className="h-8 w-40 rounded-full bg-white/5 border border-white/15 px-3 text-white/80 outline-none placeholder-white/30"
+                />
+              </label>
+            ))}
+            {promptVariables.length > 0 ? (
+              <>
+                <span className="text-white/60">{templateBatchSize} prompt{templateBatchSize === 1 ? "" : "s"}</span>
+                {selectedTemplate?.own ? null : (
+                  <label className="flex items-center gap-1 text-white/60">
+                    <input type="checkbox" checked={shareTemplate} onChange={(e) => setShareTemplate(e.target.checked)} />
+                    Team
+                  </label>
+                )}
+                <button type="button" onClick={saveTemplate} className="px-3 h-8 rounded-full text-sm text-white/80 border border-white/15 hover:bg-white/5">
+                  {selectedTemplate?.own ? "Update template" : "Save template"}
+                </button>
+              </>
+            ) : null}
+            {selectedTemplate?.own ? (
+              <button type="button" onClick={deleteTemplate} className="px-3 h-8 rounded-full text-sm text-white/60 hover:text-white">
+                Delete
+              </button>
+            ) : null}
+          </div>
+        ) : null}
         <div className="text-xs text-white/60">
           Tip: Press <kbd className="px-1 py-0.5 rounded border border-white/20 bg-white/5">⌘K</kbd> or <kbd className="px-1 py-0.5 rounded border border-white/20 bg-white/5">Ctrl+K</kbd> to migrate your images to your own bucket.
           <button type="button" onClick={() => setMigrationOpen(true)} className="ml-2 underline hover:text-white">Migrate now</button>
+          <Link href="/leaderboard" className="ml-2 underline hover:text-white">Leaderboard</Link>
+          <Link href="/batches" className="ml-2 underline hover:text-white">Batches</Link>
+          {sessions.length > 0 ? (
+            <select
+              value={sessionId ?? ""}
+              onChange={(e) => (e.target.value ? openSession(e.target.value, true) : startNewSession())}
+              className="xl:hidden ml-2 h-6 max-w-48 rounded-full bg-white/5 border border-white/15 px-2 text-white/80 outline-none"
+            >
+              <option value="">New comparison</option>
+              {sessions.map((session) => (
+                <option key={session.id} value={session.id}>{session.title || "Untitled comparison"}</option>
+              ))}
+            </select>
+          ) : null}
+          {spend && spend.generations > 0 ? (
+            <span
+              className="ml-2"
+              title={spend.models.map((row) => `${row.label}: ${formatUsd(row.costUsd)} (${row.generations})`).join("\n")}
+            >
+              Spent {formatUsd(spend.totalUsd)} on {spend.generations} generation{spend.generations === 1 ? "" : "s"}
+            </span>
+          ) : null}
         </div>
 
         {!hasRun ? (
@@ -395,33 +1292,16 @@ export default function Home() {
               >
                 <div className="flex items-center gap-3">
                   <button aria-label="Add" className="shrink-0 h-10 w-10 rounded-full border border-white/15 text-white/80 hover:bg-white/10" onClick={(e) => { e.preventDefault(); fileInputRef.current?.click(); }}>+</button>
-                  {uploadedImage ? (
-                    <div className="relative h-10 w-10 rounded-md overflow-hidden border border-white/15">
-                      <Image src={uploadedImage} alt="Selected" fill sizes="40px" unoptimized className="object-cover" />
-                      <button
-                        type="button"
-                        aria-label="Remove image"
-                        onClick={(e) => { e.preventDefault(); e.stopPropagation(); setUploadedImage(null); try { if (fileInputRef.current) fileInputRef.current.value = ""; } catch {} }}
-                        className="absolute -top-1 -right-1 h-5 w-5 rounded-full bg-black/70 text-white text-xs leading-none grid place-items-center border border-white/20"
-                      >
-                        ×
-                      </button>
-                    </div>
-                  ) : null}
+                  <InputImageStrip images={uploadedImages} onChange={setUploadedImages} />
                   <input
                     ref={fileInputRef}
                     type="file"
                     accept="image/*"
                     className="hidden"
+                    multiple
                     onChange={async (e) => {
-                      const file = e.target.files?.[0];
-                      if (!file) return;
-                      const reader = new FileReader();
-                      reader.onload = () => {
-                        const result = reader.result as string;
-                        setUploadedImage(result);
-                      };
-                      reader.readAsDataURL(file);
+                      await addImageFiles(e.target.files);
+                      e.target.value = "";
                     }}
                   />
                   <input
@@ -436,13 +1316,15 @@ export default function Home() {
                     placeholder="Start typing a prompt"
                     className="flex-1 bg-transparent outline-none text-base sm:text-lg placeholder-white/40"
                   />
-                  <button aria-label="Run" className={`shrink-0 h-10 px-4 rounded-full bg-white text-black hover:bg-white/90 flex items-center gap-2 ${(userLimitReached || (isSignedIn && loadingUserImages)) ? 'opacity-50 cursor-not-allowed hover:bg-white' : ''}`} onClick={() => handleSubmit()} disabled={userLimitReached || (isSignedIn && loadingUserImages)}>
-                    <span>{userLimitReached ? 'Limit reached' : (isSignedIn && loadingUserImages ? 'Loading…' : 'Run')}</span>
-                    {!userLimitReached && !(isSignedIn && loadingUserImages) && <span className="opacity-60 hidden sm:inline">⌘↩</span>}
+                  <button aria-label="Run" className={`shrink-0 h-10 px-4 rounded-full bg-white text-black hover:bg-white/90 flex items-center gap-2 ${(userLimitReached || retryAt !== null || (isSignedIn && loadingUserImages)) ? 'opacity-50 cursor-not-allowed hover:bg-white' : ''}`} onClick={() => handleSubmit()} disabled={userLimitReached || retryAt !== null || (isSignedIn && loadingUserImages)}>
+                    <span>{userLimitReached ? 'Limit reached' : retryAt !== null ? `Wait ${retryIn}s` : (isSignedIn && loadingUserImages ? 'Loading…' : 'Run')}</span>
+                    {!userLimitReached && retryAt === null && !(isSignedIn && loadingUserImages) && <span className="opacity-60 hidden sm:inline">⌘↩</span>}
                   </button>
                 </div>
                 {userLimitReached ? (
-                  <div className="mt-3 text-red-400 text-sm">You reached your limit of 10 image generations.</div>
+                  <div className="mt-3 text-red-400 text-sm">{quotaMessage(userQuota)}</div>
+                ) : retryAt !== null ? (
+                  <div className="mt-3 text-amber-300 text-sm">Too many requests. You can run again in {retryIn}s.</div>
                 ) : null}
               </div>
             </div>
@@ -457,22 +1339,35 @@ export default function Home() {
                 ) : (
                   <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-4">
                     {(() => {
-                      const images = userImages.slice(0, 24);
+                      const images = userImages;
                       const bigImages = images.filter((_, i) => i % 2 === 0);
                       const smallImages = images.filter((_, i) => i % 2 === 1);
-                      const renderTile = (url: string, i: number, size: 'big' | 'small') => {
+                      const renderTile = ({ id, url }: GalleryImage, i: number, size: 'big' | 'small') => {
                         const bigHeights = [320, 304, 288];
                         const smallHeights = [192, 208, 224, 240, 256];
                         const h = size === 'big' ? bigHeights[i % bigHeights.length] : smallHeights[i % smallHeights.length];
                         return (
-                          <div key={`${url}-${i}`} className="break-inside-avoid">
+                          <div key={id} className="break-inside-avoid">
                             <ProgressiveImage src={url} alt="Your generated image" onClick={() => setZoomUrl(url)} width="100%" height={h}>
+                              <div className="absolute top-2 right-2 pointer-events-auto">
+                                <Link
+                                  href={`/generations/${id}`}
+                                  aria-label="Details"
+                                  title="Prompt, model and settings"
+                                  onClick={(e) => { e.stopPropagation(); }}
+                                  className="h-8 w-8 rounded-full grid place-items-center border transition-colors bg-black/20 text-white/80 border-white/30 hover:bg-black/30"
+                                >
+                                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="h-4 w-4">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 11v5m0-8h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"/>
+                                  </svg>
+                                </Link>
+                              </div>
                               <div className="absolute bottom-2 left-2 pointer-events-auto">
                                 <button
                                   type="button"
                                   aria-label="Use this image"
                                   title="Use this image for edit"
-                                  onClick={(e) => { e.stopPropagation(); setUploadedImage(url); }}
+                                  onClick={(e) => { e.stopPropagation(); addOutputImage(url); }}
                                   className="h-8 w-8 rounded-full grid place-items-center border transition-colors bg-black/20 text-white/80 border-white/30 hover:bg-black/30"
                                 >
                                   <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="h-4 w-4">
@@ -501,16 +1396,17 @@ export default function Home() {
                       return (
                         <>
                           <div className="flex flex-col gap-4">
-                            {bigImages.map((url, i) => renderTile(url, i, 'big'))}
+                            {bigImages.map((image, i) => renderTile(image, i, 'big'))}
                           </div>
                           <div className="flex flex-col gap-4">
-                            {smallImages.map((url, i) => renderTile(url, i, 'small'))}
+                            {smallImages.map((image, i) => renderTile(image, i, 'small'))}
                           </div>
                         </>
                       );
                     })()}
                   </div>
                 )}
+                <div ref={galleryEndRef} />
               </div>
             ) : null}
           </>
@@ -525,37 +1421,116 @@ export default function Home() {
                   </div>
                   <div className="p-2 whitespace-pre-wrap">
                     {m.role === "assistant" && m.content ? <p className="mb-4">{m.content}</p> : null}
+                    {(() => {
+                      // Shared links name the models, so a blind comparison is shared once revealed
+                      const link = shareLinkFor(m);
+                      const finished = (m.variants || []).every((v) => v.imageUrl || v.text);
+                      if (!link && (sharedGenerationIds(m).length === 0 || !finished || (m.blind && !m.revealed))) return null;
+                      return (
+                        <div className="flex items-center gap-3 mb-3 text-xs text-white/60">
+                          {link ? (
+                            <>
+                              <span>Shared</span>
+                              <a href={link.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-white">Open link</a>
+                              <button type="button" onClick={() => copyShareLink(link)} className="underline hover:text-white">Copy link</button>
+                              <button type="button" onClick={() => handleRevokeShare(link)} className="underline hover:text-white">Revoke</button>
+                            </>
+                          ) : (
+                            <button type="button" title="Create a public read-only link and copy it" onClick={() => handleShare(m)} className="underline hover:text-white">
+                              Share
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })()}
+                    {m.blind && m.variants && m.variants.length > 0 ? (
+                      <div className="flex items-center gap-3 mb-3 text-xs text-white/60">
+                        {m.revealed ? (
+                          <span>Blind comparison · models revealed</span>
+                        ) : (
+                          <>
+                            <span>Blind comparison · vote to reveal the models</span>
+                            <button
+                              type="button"
+                              onClick={() => setVariants(m.id, (variants) => variants, true)}
+                              className="underline hover:text-white"
+                            >
+                              Reveal now
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    ) : null}
                     {m.variants && m.variants.length > 0 ? (
                       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                        {m.variants.map((v) => {
+                        {groupByModel(m.variants).map((group) => {
+                          // Samples resolved without an image are hidden fully
+                          const shown = group.filter((o) => o.imageUrl || !o.text);
+                          if (shown.length === 0) return null;
+                          const groupKey = `${m.id}:${group[0].model ?? group[0].label}`;
+                          const active = Math.min(activeSamples[groupKey] ?? 0, shown.length - 1);
+                          const v = shown[active];
                           const isPending = !v.imageUrl && !v.text;
                           const hasImage = Boolean(v.imageUrl);
-                          if (!isPending && !hasImage) return null; // hide fully if resolved without image
+                          // Labels, timings and tokens would give the model away
+                          const hidden = Boolean(m.blind && !m.revealed);
+                          const label = hidden ? (v.blindLabel ?? "Model") : v.label;
                           return (
-                            <div key={v.label}>
+                            <div key={groupKey}>
                               <div className="text-xs uppercase tracking-wider text-white/50 mb-2">
-                                {v.label}
-                                {typeof v.durationMs === "number" && !isPending ? ` · ${(v.durationMs / 1000).toFixed(1)}s` : ""}
-                                {typeof v.tokens === "number" && !isPending ? ` · ${v.tokens} token` : ""}
+                                {label}
+                                {v.comparisonLabel ? ` · ${v.comparisonLabel}` : ""}
+                                {shown.length > 1 ? ` · ${active + 1}/${shown.length}` : ""}
+                                {isPending && v.stage ? ` · ${STAGE_LABELS[v.stage] ?? v.stage}` : ""}
+                                {typeof v.durationMs === "number" && !hidden ? ` · ${(v.durationMs / 1000).toFixed(1)}s` : ""}
+                                {typeof v.tokens === "number" && !isPending && !hidden ? ` · ${v.tokens} token` : ""}
+                                {typeof v.costUsd === "number" && !isPending && !hidden ? ` · ${formatUsd(v.costUsd)}` : ""}
+                                {m.blind && m.revealed && v.blindLabel ? ` · was ${v.blindLabel}` : ""}
                               </div>
+                              {v.enhancedPrompt && v.prompt && !hidden ? (
+                                <details className="text-xs text-white/60 -mt-1 mb-2">
+                                  <summary className="cursor-pointer hover:text-white">Enhanced prompt</summary>
+                                  <p className="mt-1 leading-relaxed">
+                                    {diffWords(v.prompt, v.enhancedPrompt).map((part, i) => (
+                                      <span
+                                        key={i}
+                                        className={part.type === "added" ? "text-emerald-300" : part.type === "removed" ? "text-red-300 line-through" : undefined}
+                                      >
+                                        {part.text}{" "}
+                                      </span>
+                                    ))}
+                                  </p>
+                                </details>
+                              ) : null}
+                              {v.ignoredParams && v.ignoredParams.length > 0 && !hidden ? (
+                                <div className="text-xs text-white/40 -mt-1 mb-2">
+                                  Ignored: {v.ignoredParams.map((name) => PARAM_LABELS[name] ?? name).join(", ")}
+                                </div>
+                              ) : null}
+                              {v.ignoredImages && !hidden ? (
+                                <div className="text-xs text-white/40 -mt-1 mb-2">
+                                  Ignored: {v.ignoredImages === 1 ? "the last input image" : `the last ${v.ignoredImages} input images`}
+                                </div>
+                              ) : null}
                               {isPending ? (
-                                <div className="w-full flex justify-center">
+                                <div className="w-full flex flex-col items-center gap-2">
                                   <div className="shimmer rounded-md border border-white/10 w-[256px] h-[256px]" />
+                                  {v.partialText && !hidden ? <p className="w-[256px] text-xs text-white/60">{v.partialText}</p> : null}
                                 </div>
                               ) : (
                                 <div className="w-full flex justify-center">
                                   <ProgressiveImage
                                     src={v.imageUrl as string}
-                                    alt={`${v.label} result`}
+                                    alt={`${label} result`}
                                     onClick={() => setZoomUrl(v.imageUrl || null)}
-                                    compareSrc={uploadedImage}
+                                    compareSrc={uploadedImages[0]?.src}
                                   >
                                     <div className="absolute bottom-2 left-2 pointer-events-auto">
                                       <button
                                         type="button"
                                         aria-label="Use this image"
                                         title="Use this image for edit"
-                                        onClick={(e) => { e.stopPropagation(); if (v.imageUrl) setUploadedImage(v.imageUrl); }}
+                                        onClick={(e) => { e.stopPropagation(); if (v.imageUrl) addOutputImage(v.imageUrl); }}
                                         className="h-8 w-8 rounded-full grid place-items-center border transition-colors bg-black/20 text-white/80 border-white/30 hover:bg-black/30"
                                       >
                                         <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="h-4 w-4">
@@ -580,6 +1555,60 @@ export default function Home() {
                                   </ProgressiveImage>
                                 </div>
                               )}
+                              {shown.length > 1 ? (
+                                <div className="mt-2 flex justify-center gap-1">
+                                  {shown.map((o, i) => (
+                                    <button
+                                      key={o.generationId ?? `${o.jobId ?? ""}:${i}`}
+                                      type="button"
+                                      aria-label={`Show sample ${i + 1}`}
+                                      onClick={() => setActiveSamples((prev) => ({ ...prev, [groupKey]: i }))}
+                                      className={`${i === active ? "border-white" : "border-white/15 opacity-60 hover:opacity-100"} relative h-10 w-10 rounded-md overflow-hidden border transition-opacity`}
+                                    >
+                                      {o.imageUrl ? (
+                                        <Image src={o.imageUrl} alt={`Sample ${i + 1}`} fill sizes="40px" unoptimized className="object-cover" />
+                                      ) : (
+                                        <span className="shimmer absolute inset-0" />
+                                      )}
+                                    </button>
+                                  ))}
+                                </div>
+                              ) : null}
+                              {hasImage && v.generationId ? (
+                                <div className="mt-2 flex justify-center items-center gap-2">
+                                  <button
+                                    type="button"
+                                    aria-label="Vote up"
+                                    onClick={() => handleVote(m.id, v, "up")}
+                                    className={`${v.vote === "up" ? "bg-white text-black" : "bg-white/0 text-white/80 border border-white/15 hover:bg-white/5"} h-8 w-8 rounded-full text-sm transition-colors`}
+                                  >
+                                    👍
+                                  </button>
+                                  <button
+                                    type="button"
+                                    aria-label="Vote down"
+                                    onClick={() => handleVote(m.id, v, "down")}
+                                    className={`${v.vote === "down" ? "bg-white text-black" : "bg-white/0 text-white/80 border border-white/15 hover:bg-white/5"} h-8 w-8 rounded-full text-sm transition-colors`}
+                                  >
+                                    👎
+                                  </button>
+                                  {(m.variants || []).filter((o) => o.imageUrl && o.generationId).length > 1 ? (
+                                    <button
+                                      type="button"
+                                      title="This one is better than the others"
+                                      onClick={() => handleBest(m.id, v, m.variants || [])}
+                                      className={`${v.best ? "bg-white text-black" : "bg-white/0 text-white/80 border border-white/15 hover:bg-white/5"} px-3 h-8 rounded-full text-sm transition-colors`}
+                                    >
+                                      {v.best ? "Best" : "Pick best"}
+                                    </button>
+                                  ) : null}
+                                  {!hidden ? (
+                                    <Link href={`/generations/${v.generationId}`} className="px-2 h-8 inline-flex items-center text-sm text-white/60 hover:text-white underline">
+                                      Details
+                                    </Link>
+                                  ) : null}
+                                </div>
+                              ) : null}
                             </div>
                           );
                         })}
@@ -595,7 +1624,7 @@ export default function Home() {
                             type="button"
                             aria-label="Use this image"
                             title="Use this image for edit"
-                            onClick={(e) => { e.stopPropagation(); if (m.imageUrl) setUploadedImage(m.imageUrl); }}
+                            onClick={(e) => { e.stopPropagation(); if (m.imageUrl) addOutputImage(m.imageUrl); }}
                             className="h-8 w-8 rounded-full grid place-items-center border transition-colors bg-black/20 text-white/80 border-white/30 hover:bg-black/30"
                           >
                             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="h-4 w-4">
@@ -702,33 +1731,16 @@ export default function Home() {
             onDrop={handleDrop}
           >
             <button aria-label="Add" type="button" className="shrink-0 h-10 w-10 rounded-full border border-white/15 text-white/80 hover:bg-white/10" onClick={() => fileInputRef.current?.click()}>+</button>
-            {uploadedImage ? (
-              <div className="relative h-10 w-10 rounded-md overflow-hidden border border-white/15">
-                <Image src={uploadedImage} alt="Selected" fill sizes="40px" unoptimized className="object-cover" />
-                <button
-                  type="button"
-                  aria-label="Remove image"
-                  onClick={(e) => { e.preventDefault(); e.stopPropagation(); setUploadedImage(null); try { if (fileInputRef.current) fileInputRef.current.value = ""; } catch {} }}
-                  className="absolute -top-1 -right-1 h-5 w-5 rounded-full bg-black/70 text-white text-xs leading-none grid place-items-center border border-white/20"
-                >
-                  ×
-                </button>
-              </div>
-            ) : null}
+            <InputImageStrip images={uploadedImages} onChange={setUploadedImages} />
             <input
               ref={fileInputRef}
               type="file"
               accept="image/*"
               className="hidden"
+              multiple
               onChange={async (e) => {
-                const file = e.target.files?.[0];
-                if (!file) return;
-                const reader = new FileReader();
-                reader.onload = () => {
-                  const result = reader.result as string;
-                  setUploadedImage(result);
-                };
-                reader.readAsDataURL(file);
+                await addImageFiles(e.target.files);
+                e.target.value = "";
               }}
             />
             <input
@@ -743,13 +1755,15 @@ export default function Home() {
               placeholder="Start typing a prompt"
               className="flex-1 bg-transparent outline-none text-base sm:text-lg placeholder-white/40"
             />
-            <button type="submit" className={`shrink-0 h-10 px-4 rounded-full bg-white text-black hover:bg-white/90 flex items-center gap-2 ${userLimitReached ? 'opacity-50 cursor-not-allowed hover:bg-white' : ''}`} disabled={loading || userLimitReached}>
-              <span>{userLimitReached ? "Limit reached" : (loading ? "Running" : "Run")}</span>
-              {!loading && !userLimitReached && <span className="opacity-60 hidden sm:inline">⌘↩</span>}
+            <button type="submit" className={`shrink-0 h-10 px-4 rounded-full bg-white text-black hover:bg-white/90 flex items-center gap-2 ${userLimitReached || retryAt !== null ? 'opacity-50 cursor-not-allowed hover:bg-white' : ''}`} disabled={loading || userLimitReached || retryAt !== null}>
+              <span>{userLimitReached ? "Limit reached" : retryAt !== null ? `Wait ${retryIn}s` : (loading ? "Running" : "Run")}</span>
+              {!loading && !userLimitReached && retryAt === null && <span className="opacity-60 hidden sm:inline">⌘↩</span>}
             </button>
           </div>
           {userLimitReached ? (
-            <div className="mt-2 text-red-400 text-sm">You reached your limit of 10 image generations.</div>
+            <div className="mt-2 text-red-400 text-sm">{quotaMessage(userQuota)}</div>
+          ) : retryAt !== null ? (
+            <div className="mt-2 text-amber-300 text-sm">Too many requests. You can run again in {retryIn}s.</div>
           ) : null}
         </div>
       </form>
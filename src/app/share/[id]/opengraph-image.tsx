@@ -0,0 +1,41 @@
+import { ImageResponse } from "next/og";
+import { getShareView } from "@/shares";
+
+export const alt = "Image model comparison";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+// Tiles in the collage: up to three across, two rows
+const MAX_TILES = 6;
+
+// Collage of the shared outputs with their model names, under the prompt
+export default async function OpengraphImage({ params }: { params: { id: string } }) {
+  const share = await getShareView(params.id);
+  const tiles = (share?.generations ?? []).filter((g) => g.outputImageUrl && !g.isVideo).slice(0, MAX_TILES);
+  const columns = Math.min(tiles.length, 3) || 1;
+  const rows = Math.ceil(tiles.length / columns) || 1;
+  const gap = 16;
+  const tileWidth = Math.floor((size.width - 2 * 40 - (columns - 1) * gap) / columns);
+  const tileHeight = Math.floor((size.height - 40 - 110 - (rows - 1) * gap) / rows);
+
+  return new ImageResponse(
+    (
+      <div style={{ width: "100%", height: "100%", display: "flex", flexDirection: "column", background: "#0a0a0a", color: "#ededed", padding: "40px 40px 0" }}>
+        <div style={{ display: "flex", flexWrap: "wrap", gap }}>
+          {tiles.map((g) => (
+            <div key={g.id} style={{ display: "flex", position: "relative", width: tileWidth, height: tileHeight, borderRadius: 12, overflow: "hidden" }}>
+              <img src={g.outputImageUrl!} alt="" width={tileWidth} height={tileHeight} style={{ objectFit: "cover" }} />
+              <div style={{ display: "flex", position: "absolute", left: 10, bottom: 10, padding: "4px 12px", borderRadius: 999, background: "rgba(0,0,0,0.65)", fontSize: 22 }}>
+                {g.label}{g.best ? " · Best" : ""}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div style={{ display: "flex", flex: 1, alignItems: "center", fontSize: 30, overflow: "hidden" }}>
+          {share ? `“${share.prompt.length > 90 ? `${share.prompt.slice(0, 90)}…` : share.prompt}”` : "Comparison not found"}
+        </div>
+      </div>
+    ),
+    size,
+  );
+}
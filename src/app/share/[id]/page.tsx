@@ -0,0 +1,85 @@
+import { type Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ProgressiveImage } from "@/app/components/ProgressiveImage";
+import { getShareView } from "@/shares";
+
+export const dynamic = "force-dynamic";
+
+type Props = { params: Promise<{ id: string }> };
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 3)}`;
+}
+
+// The collage comes from opengraph-image.tsx next to this page
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const share = await getShareView((await params).id);
+  if (!share) return { title: "Comparison not found" };
+  const models = [...new Set(share.generations.map((g) => g.label))].join(" vs ");
+  return {
+    title: `${models}: ${share.prompt.slice(0, 80)}`,
+    description: `“${share.prompt.slice(0, 200)}” compared across ${models}`,
+    robots: { index: false },
+  };
+}
+
+// Read-only view of a shared comparison; anyone with the link can open it
+export default async function SharePage({ params }: Props) {
+  const share = await getShareView((await params).id);
+  if (!share) notFound();
+
+  return (
+    <div className="min-h-screen w-full bg-[var(--background)] text-[var(--foreground)]">
+      <main className="flex flex-col items-center px-6 sm:px-8 py-16 gap-8">
+        <h1 className="text-3xl sm:text-4xl font-semibold tracking-tight">Shared comparison</h1>
+        <p className="text-sm text-white/60 -mt-4">
+          Shared {share.createdAt.toLocaleDateString()} · <Link href="/" className="underline hover:text-white">Compare image models</Link>
+        </p>
+        <div className="w-full max-w-4xl flex flex-col sm:flex-row gap-4 items-start">
+          {share.inputImageUrl ? (
+            <ProgressiveImage src={share.inputImageUrl} alt="Input image" width={128} height={128} />
+          ) : null}
+          <div>
+            <div className="text-xs uppercase tracking-wider text-white/50 mb-1">Prompt</div>
+            <p className="whitespace-pre-wrap">{share.prompt}</p>
+          </div>
+        </div>
+        <div className="w-full max-w-4xl grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {share.generations.map((g) => (
+            <div key={g.id}>
+              <div className="text-xs uppercase tracking-wider text-white/50 mb-2">
+                {g.label}
+                {g.enhanced !== null ? ` · ${g.enhanced ? "Enhanced" : "Raw"}` : ""}
+                {typeof g.durationMs === "number" ? ` · ${(g.durationMs / 1000).toFixed(1)}s` : ""}
+                {typeof g.tokens === "number" ? ` · ${g.tokens} token` : ""}
+                {typeof g.costUsd === "number" ? ` · ${formatUsd(g.costUsd)}` : ""}
+              </div>
+              {g.outputImageUrl && g.isVideo ? (
+                <video src={g.outputImageUrl} controls className="w-full rounded-md" />
+              ) : g.outputImageUrl ? (
+                <ProgressiveImage src={g.outputImageUrl} alt={`${g.label} result`} width="100%" height={256} />
+              ) : (
+                <div className="rounded-md border border-white/10 h-64 grid place-items-center p-4 text-sm text-white/60">
+                  {g.status === "failed" ? g.error || "Generation failed" : "Still generating…"}
+                </div>
+              )}
+              {g.enhancedPrompt ? (
+                <details className="mt-2 text-xs text-white/60">
+                  <summary className="cursor-pointer hover:text-white">Enhanced prompt</summary>
+                  <p className="mt-1 leading-relaxed">{g.enhancedPrompt}</p>
+                </details>
+              ) : null}
+              {g.vote || g.best ? (
+                <div className="mt-2 flex justify-center gap-2 text-sm">
+                  {g.vote ? <span className="px-2 h-7 inline-flex items-center rounded-full border border-white/15">{g.vote === "up" ? "👍" : "👎"}</span> : null}
+                  {g.best ? <span className="px-3 h-7 inline-flex items-center rounded-full bg-white text-black">Best</span> : null}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
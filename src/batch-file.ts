@@ -0,0 +1,119 @@
+// Parses prompt sets for batch runs. Two formats are accepted:
+//   CSV   a header row with a `prompt` column and optional `image` (or
+//         `image_url`) and `tags` columns; tags are separated by `|`
+//   JSONL one object per line: { "prompt": "...", "image"?: "https://...", "tags"?: ["..."] }
+// Errors name the line they were found on.
+
+export type BatchFormat = 'csv' | 'jsonl';
+
+export type BatchItemInput = { prompt: string; imageUrl?: string; tags: string[] };
+
+export const MAX_BATCH_ITEMS = 200;
+
+export function parseBatchFile(content: string, format: BatchFormat): { items: BatchItemInput[]; errors: string[] } {
+  const rows = format === 'csv' ? csvRecords(content) : jsonlRecords(content);
+  const items: BatchItemInput[] = [];
+  const errors: string[] = [];
+  for (const { line, record, error } of rows) {
+    const item = error ? null : toItem(record!);
+    if (typeof item === 'string' || error) errors.push(`Line ${line}: ${error ?? item}`);
+    else if (item) items.push(item);
+  }
+  if (items.length === 0 && errors.length === 0) errors.push('The file has no prompts');
+  if (items.length > MAX_BATCH_ITEMS) errors.push(`A batch can have at most ${MAX_BATCH_ITEMS} prompts`);
+  return { items, errors };
+}
+
+// Picks the format from a file name, defaulting to CSV
+export function batchFormatOf(fileName: string): BatchFormat {
+  return /\.jsonl?$/i.test(fileName) ? 'jsonl' : 'csv';
+}
+
+type BatchRecord = { prompt?: unknown; image?: unknown; imageUrl?: unknown; image_url?: unknown; tags?: unknown };
+
+// An item, an error message, or null for a blank record
+function toItem(record: BatchRecord): BatchItemInput | string | null {
+  const prompt = typeof record.prompt === 'string' ? record.prompt.trim() : '';
+  const image = record.image ?? record.imageUrl ?? record.image_url;
+  const rawTags = typeof record.tags === 'string' ? record.tags.split('|') : record.tags ?? [];
+  if (!prompt) {
+    return Object.values(record).every((value) => value === undefined || value === '') ? null : 'prompt is missing';
+  }
+  if (prompt.length > 2000) return 'prompt is longer than 2000 characters';
+  if (image !== undefined && image !== '' && (typeof image !== 'string' || !/^https?:\/\/\S+$/i.test(image) || image.length > 255)) {
+    return 'image must be an http(s) URL of at most 255 characters';
+  }
+  if (!Array.isArray(rawTags) || rawTags.some((tag) => typeof tag !== 'string')) return 'tags must be a list of strings';
+  const tags = [...new Set((rawTags as string[]).map((tag) => tag.trim()).filter(Boolean))];
+  return { prompt, imageUrl: typeof image === 'string' && image ? image : undefined, tags };
+}
+
+type ParsedRecord = { line: number; record?: BatchRecord; error?: string };
+
+function jsonlRecords(content: string): ParsedRecord[] {
+  return content.split(/\r?\n/).flatMap((text, i): ParsedRecord[] => {
+    if (!text.trim()) return [];
+    try {
+      const record = JSON.parse(text) as unknown;
+      if (typeof record !== 'object' || record === null || Array.isArray(record)) return [{ line: i + 1, error: 'expected a JSON object' }];
+      return [{ line: i + 1, record: record as BatchRecord }];
+    } catch {
+      return [{ line: i + 1, error: 'invalid JSON' }];
+    }
+  });
+}
+
+function csvRecords(content: string): ParsedRecord[] {
+  const [header, ...rows] = csvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const columns = header.cells.map((name) => name.trim().toLowerCase());
+  if (!columns.includes('prompt')) return [{ line: header.line, error: 'the header needs a "prompt" column' }];
+  return rows.map(({ line, cells }) => ({
+    line,
+    record: Object.fromEntries(columns.map((name, i) => [name === 'image_url' ? 'imageUrl' : name, cells[i]?.trim()])),
+  }));
+}
+
+// RFC 4180 rows: quoted fields may contain commas, newlines and doubled quotes.
+// Each row keeps the line it started on.
+function csvRows(content: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') line++;
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') continue;
+      endRow();
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,385 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { auth } from '@clerk/nextjs/server';
+import { and, asc, count, desc, eq, exists, inArray, notExists, sql } from 'drizzle-orm';
+import { db } from "@/db";
+import { BatchItemStatus, batchItemsTable, batchesTable, BatchStatus, JobStatus, jobsTable, usersTable } from "@/db/schema";
+import { BatchFormat, parseBatchFile } from "@/batch-file";
+import { EnhanceMode, parseEnhanceMode } from "@/enhance";
+import { withIdempotency } from "@/idempotency";
+import { ingestImages } from "@/image-input";
+import { enqueueJob, isJobDue, Job, runJob } from "@/jobs";
+import { claimBatchReservation, releaseBatchReservations, reserveQuota } from "@/quota";
+import { rateLimitGeneration, rateLimitJobs } from "@/rate-limit";
+import { GenerationParams, isModelId, parseGenerationParams } from "@/providers";
+
+// Settings applied to every job of a batch
+export type BatchOptions = { params?: GenerationParams; enhance?: boolean; enhanceMode?: EnhanceMode };
+
+export type Batch = typeof batchesTable.$inferSelect;
+
+// `content` is the uploaded file's text; `concurrency` the number of prompts run at once
+export type BatchRequestBody = {
+  name?: unknown;
+  format?: unknown;
+  content?: unknown;
+  models?: unknown;
+  params?: unknown;
+  enhance?: unknown;
+  enhanceMode?: unknown;
+  concurrency?: unknown;
+};
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+const ACTIVE_JOB_STATUSES: JobStatus[] = ['queued', 'running'];
+
+// Repeats with the same Idempotency-Key get the created batch back
+export function handleCreateBatch(request: NextRequest) {
+  return withIdempotency(request, () => createBatch(request));
+}
+
+async function createBatch(request: NextRequest) {
+  const body = (await request.json().catch(() => ({}))) as BatchRequestBody;
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const models = Array.isArray(body.models) ? [...new Set(body.models)] : [];
+  if (models.length === 0 || !models.every(isModelId)) {
+    return NextResponse.json({ error: 'Select at least one known model' }, { status: 400 });
+  }
+  const format: BatchFormat | undefined = body.format === 'csv' || body.format === 'jsonl' ? body.format : undefined;
+  if (!format || typeof body.content !== 'string') {
+    return NextResponse.json({ error: 'Upload a CSV or JSONL file' }, { status: 400 });
+  }
+  const { items, errors } = parseBatchFile(body.content, format);
+  const { params, errors: paramErrors } = parseGenerationParams(body.params);
+  const enhanceMode = parseEnhanceMode(body.enhanceMode);
+  if (!enhanceMode) paramErrors.push('enhanceMode must be shared or per-model');
+  const concurrency = body.concurrency === undefined ? DEFAULT_BATCH_CONCURRENCY : Number(body.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY) {
+    paramErrors.push(`concurrency must be an integer from 1 to ${MAX_BATCH_CONCURRENCY}`);
+  }
+  if (errors.length > 0 || paramErrors.length > 0) {
+    return NextResponse.json({ error: [...errors, ...paramErrors].join('; ') }, { status: 400 });
+  }
+
+  // Each distinct image URL is checked and stored once; items and their jobs
+  // keep the stored URL
+  const storedUrls = new Map<string, string>();
+  for (const [i, item] of items.entries()) {
+    if (!item.imageUrl) continue;
+    if (!storedUrls.has(item.imageUrl)) {
+      const { images, error, status } = await ingestImages({ image: item.imageUrl }, userId);
+      if (error) return NextResponse.json({ error: `Prompt ${i + 1}: ${error}` }, { status });
+      storedUrls.set(item.imageUrl, images![0].url);
+    }
+    item.imageUrl = storedUrls.get(item.imageUrl);
+  }
+
+  // Only the request itself is limited here; each prompt's jobs count against
+  // the job limits as they start (see advanceBatch)
+  const { limited, release: releaseRateLimit } = await rateLimitGeneration(userId, []);
+  if (limited) return limited;
+  // The whole batch is reserved up front; each job takes one reservation as it starts
+  const batchId = crypto.randomUUID();
+  const { error: quotaError, status: quotaStatus } = await reserveQuota(userId, items.flatMap(() => models), { batchId });
+  if (quotaError) {
+    await releaseRateLimit();
+    return NextResponse.json({ error: quotaError }, { status: quotaStatus });
+  }
+
+  try {
+    const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim().slice(0, 255) : `Batch of ${items.length} prompts`;
+    const [batch] = await db.insert(batchesTable).values({
+      id: batchId,
+      userId,
+      name,
+      models,
+      options: { params, enhance: Boolean(body.enhance), enhanceMode: enhanceMode! },
+      concurrency,
+      status: 'running',
+    }).returning();
+    await db.insert(batchItemsTable).values(items.map((item, position) => ({
+      batchId: batch.id,
+      position,
+      prompt: item.prompt,
+      imageUrl: item.imageUrl,
+      tags: item.tags,
+      status: 'pending',
+    })));
+    const jobs = await advanceBatch(batch.id);
+    for (const job of jobs) {
+      after(() => runJob(job.id));
+    }
+    return NextResponse.json(await getBatchResults(batch), { status: 201 });
+  } catch (err) {
+    await releaseBatchReservations(batchId).catch(() => {});
+    await releaseRateLimit();
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function getBatch(id: string, userId: string): Promise<Batch | undefined> {
+  const [batch] = await db.select().from(batchesTable).where(and(eq(batchesTable.id, id), eq(batchesTable.userId, userId)));
+  return batch;
+}
+
+// Marks items whose jobs have all finished as done, then starts pending items
+// until `concurrency` are running, one job per model each. Returns the new jobs;
+// they run wherever due jobs run (the worker, or GET /api/batches/:id). Called
+// when a batch starts and whenever one of its jobs finishes.
+export async function advanceBatch(batchId: string): Promise<Job[]> {
+  const [batch] = await db.select().from(batchesTable).where(eq(batchesTable.id, batchId));
+  if (!batch || batch.status !== 'running') return [];
+
+  await db.update(batchItemsTable)
+    .set({ status: 'done', updatedAt: new Date() })
+    .where(and(
+      eq(batchItemsTable.batchId, batchId),
+      eq(batchItemsTable.status, 'running'),
+      notExists(db.select({ id: jobsTable.id }).from(jobsTable).where(and(
+        eq(jobsTable.batchItemId, batchItemsTable.id),
+        inArray(jobsTable.status, ACTIVE_JOB_STATUSES),
+      ))),
+    ));
+
+  const counts = await itemCounts(batchId);
+  const slots = batch.concurrency - counts.running;
+  if (slots > 0 && counts.pending > 0) {
+    // Like claimJob: the conditional update claims each item once, even when
+    // several jobs of the batch finish at the same time. A prompt whose jobs
+    // would go over the per-model job limits goes back to waiting, and so do
+    // the prompts after it; the next advance tries again.
+    const candidates = await db.select({ id: batchItemsTable.id }).from(batchItemsTable)
+      .where(and(eq(batchItemsTable.batchId, batchId), eq(batchItemsTable.status, 'pending')))
+      .orderBy(asc(batchItemsTable.position))
+      .limit(slots);
+    const models = batch.models.filter(isModelId);
+    const items = [];
+    for (const { id } of candidates) {
+      const [item] = await db.update(batchItemsTable)
+        .set({ status: 'running', updatedAt: new Date() })
+        .where(and(eq(batchItemsTable.id, id), eq(batchItemsTable.status, 'pending')))
+        .returning();
+      if (!item) continue;
+      if (!await rateLimitJobs(batch.userId, models)) {
+        await db.update(batchItemsTable).set({ status: 'pending', updatedAt: new Date() }).where(eq(batchItemsTable.id, id));
+        break;
+      }
+      items.push(item);
+    }
+    const jobs = await Promise.all(items.flatMap((item) => models.map(async (model) => enqueueJob({
+      userId: batch.userId,
+      model,
+      input: { prompt: item.prompt, image: item.imageUrl ?? undefined, ...batch.options },
+      metadata: { batch: { batchId, itemId: item.id, tags: item.tags } },
+      batchItemId: item.id,
+      reservationId: await claimBatchReservation(batchId, model),
+    }))));
+    return jobs;
+  }
+  if (counts.pending === 0 && counts.running === 0) {
+    await db.update(batchesTable).set({ status: 'completed', updatedAt: new Date() }).where(eq(batchesTable.id, batchId));
+  }
+  return [];
+}
+
+// Advances the batches that have prompts waiting and none running, which
+// happens when the job limits held their next prompt back and no job is left
+// to advance them once it finishes. Called by the worker when it is idle.
+export async function advanceWaitingBatches(): Promise<Job[]> {
+  const waiting = await db.select({ id: batchesTable.id }).from(batchesTable)
+    .where(and(
+      eq(batchesTable.status, 'running'),
+      exists(db.select({ id: batchItemsTable.id }).from(batchItemsTable).where(and(eq(batchItemsTable.batchId, batchesTable.id), eq(batchItemsTable.status, 'pending')))),
+      notExists(db.select({ id: batchItemsTable.id }).from(batchItemsTable).where(and(eq(batchItemsTable.batchId, batchesTable.id), eq(batchItemsTable.status, 'running')))),
+    ));
+  return (await Promise.all(waiting.map(({ id }) => advanceBatch(id)))).flat();
+}
+
+// Called when a job of a batch item finishes or fails
+export async function advanceBatchItem(itemId: number): Promise<Job[]> {
+  const [item] = await db.select({ batchId: batchItemsTable.batchId }).from(batchItemsTable).where(eq(batchItemsTable.id, itemId));
+  return item ? advanceBatch(item.batchId) : [];
+}
+
+// Advances the batch and runs a step of each of its due jobs, so a batch also
+// moves along while its page is open and no worker is running.
+export async function runBatch(batchId: string) {
+  await advanceBatch(batchId);
+  const due = await db.select().from(jobsTable)
+    .innerJoin(batchItemsTable, eq(jobsTable.batchItemId, batchItemsTable.id))
+    .where(and(eq(batchItemsTable.batchId, batchId), inArray(jobsTable.status, ACTIVE_JOB_STATUSES)));
+  await Promise.all(due.filter(({ jobs }) => isJobDue(jobs)).map(({ jobs }) => runJob(jobs.id)));
+}
+
+async function itemCounts(batchId: string): Promise<Record<BatchItemStatus, number>> {
+  const rows = await db.select({ status: batchItemsTable.status, count: count() })
+    .from(batchItemsTable)
+    .where(eq(batchItemsTable.batchId, batchId))
+    .groupBy(batchItemsTable.status);
+  const counts: Record<BatchItemStatus, number> = { pending: 0, running: 0, done: 0 };
+  for (const row of rows) counts[row.status as BatchItemStatus] = row.count;
+  return counts;
+}
+
+export type BatchCell = { status: string; jobId: string; generationId: number | null; imageUrl?: string; error?: string; costUsd?: number };
+
+// The batch with every item and, per model, the state of its generation
+export async function getBatchResults(batch: Batch) {
+  const items = await db.select().from(batchItemsTable).where(eq(batchItemsTable.batchId, batch.id)).orderBy(asc(batchItemsTable.position));
+  const cells = await db
+    .select({
+      itemId: jobsTable.batchItemId,
+      model: jobsTable.model,
+      jobId: jobsTable.id,
+      jobStatus: jobsTable.status,
+      jobError: jobsTable.error,
+      generationId: usersTable.id,
+      status: usersTable.status,
+      outputImageUrl: usersTable.outputImageUrl,
+      error: usersTable.error,
+      costUsd: usersTable.costUsd,
+    })
+    .from(jobsTable)
+    .innerJoin(batchItemsTable, eq(jobsTable.batchItemId, batchItemsTable.id))
+    .leftJoin(usersTable, eq(jobsTable.generationId, usersTable.id))
+    .where(eq(batchItemsTable.batchId, batch.id));
+  const byItem = new Map<number, Record<string, BatchCell>>();
+  for (const cell of cells) {
+    const results = byItem.get(cell.itemId!) ?? {};
+    results[cell.model] = {
+      status: cell.status ?? cell.jobStatus,
+      jobId: cell.jobId,
+      generationId: cell.generationId,
+      imageUrl: cell.outputImageUrl || undefined,
+      error: cell.error || cell.jobError || undefined,
+      costUsd: cell.costUsd ?? undefined,
+    };
+    byItem.set(cell.itemId!, results);
+  }
+  const progress: Record<BatchItemStatus, number> = { pending: 0, running: 0, done: 0 };
+  for (const item of items) progress[item.status as BatchItemStatus]++;
+  return {
+    id: batch.id,
+    name: batch.name,
+    status: batch.status as BatchStatus,
+    models: batch.models,
+    options: batch.options,
+    concurrency: batch.concurrency,
+    createdAt: batch.createdAt,
+    progress: { total: items.length, ...progress },
+    items: items.map((item) => ({
+      id: item.id,
+      position: item.position,
+      prompt: item.prompt,
+      imageUrl: item.imageUrl,
+      tags: item.tags,
+      status: item.status as BatchItemStatus,
+      results: byItem.get(item.id) ?? {},
+    })),
+  };
+}
+
+export type BatchResults = Awaited<ReturnType<typeof getBatchResults>>;
+
+export async function handleListBatches() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const batches = await db
+    .select({
+      id: batchesTable.id,
+      name: batchesTable.name,
+      status: batchesTable.status,
+      models: batchesTable.models,
+      createdAt: batchesTable.createdAt,
+      total: count(batchItemsTable.id),
+      done: sql<number>`count(*) filter (where ${batchItemsTable.status} = 'done')`.mapWith(Number),
+    })
+    .from(batchesTable)
+    .leftJoin(batchItemsTable, eq(batchItemsTable.batchId, batchesTable.id))
+    .where(eq(batchesTable.userId, userId))
+    .groupBy(batchesTable.id)
+    .orderBy(desc(batchesTable.createdAt));
+  return NextResponse.json({ batches });
+}
+
+// Polled by the batch page; like GET /api/jobs/:id it also moves the batch along
+export async function handleGetBatch(id: string) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const batch = await getBatch(id, userId);
+  if (!batch) {
+    return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+  }
+  if (batch.status === 'running') {
+    after(() => runBatch(batch.id));
+  }
+  return NextResponse.json(await getBatchResults(batch));
+}
+
+// Stops starting new items; items already running finish
+export async function handleCancelBatch(id: string) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const batch = await getBatch(id, userId);
+  if (!batch) {
+    return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+  }
+  if (batch.status === 'running') {
+    await db.update(batchesTable).set({ status: 'cancelled', updatedAt: new Date() }).where(eq(batchesTable.id, id));
+    await releaseBatchReservations(id);
+  }
+  return NextResponse.json(await getBatchResults({ ...batch, status: batch.status === 'running' ? 'cancelled' : batch.status }));
+}
+
+// The prompt × model matrix as CSV (one row per prompt, a status and an output
+// column per model) or as the JSON the batch API returns
+export async function handleExportBatch(id: string, format: string | null) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const batch = await getBatch(id, userId);
+  if (!batch) {
+    return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+  }
+  const results = await getBatchResults(batch);
+  const fileName = `batch-${batch.id}`;
+  if (format === 'json') {
+    return new NextResponse(JSON.stringify(results, null, 2), {
+      headers: { 'content-type': 'application/json', 'content-disposition': `attachment; filename="${fileName}.json"` },
+    });
+  }
+  const header = ['position', 'prompt', 'image', 'tags', ...results.models.flatMap((model) => [`${model} status`, `${model} output`, `${model} cost_usd`])];
+  const rows = results.items.map((item) => [
+    String(item.position + 1),
+    item.prompt,
+    item.imageUrl ?? '',
+    item.tags.join('|'),
+    ...results.models.flatMap((model) => {
+      const cell = item.results[model];
+      return [cell?.status ?? 'pending', cell?.imageUrl ?? cell?.error ?? '', cell?.costUsd?.toString() ?? ''];
+    }),
+  ]);
+  const csv = [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+  return new NextResponse(csv, {
+    headers: { 'content-type': 'text/csv; charset=utf-8', 'content-disposition': `attachment; filename="${fileName}.csv"` },
+  });
+}
+
+// A leading ' keeps spreadsheets from running a cell that starts like a formula
+function csvCell(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -1,14 +1,270 @@
-import { integer, pgTable, varchar, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { AnyPgColumn, integer, pgTable, varchar, timestamp, jsonb, index, unique, boolean, numeric, primaryKey } from "drizzle-orm/pg-core";
+import type { GenerationMetadata } from "../metadata";
+import type { TemplateValueLists } from "../prompt-template";
+import type { BatchOptions } from "../batches";
+import type { SessionTurnSettings } from "../sessions";
+import type { InputImage } from "../providers/images";
 
 export const usersTable = pgTable("generations", {
     id: integer().primaryKey().generatedAlwaysAsIdentity(),
     userId: varchar({ length: 255 }),
+    // `prompt` is what the user wrote; `enhancedPrompt` what was sent to the
+    // model when enhancement was on (null when the prompt was used as is)
     prompt: varchar({ length: 2000 }).notNull(),
+    enhancedPrompt: varchar({ length: 2000 }),
+    // The first input image (empty without one); `inputImages` lists them all,
+    // in the order they were sent, with their roles
     inputImageUrl: varchar({ length: 255 }).notNull(),
+    inputImages: jsonb().$type<InputImage[]>().notNull().default([]),
     outputImageUrl: varchar({ length: 255 }).notNull(),
     model: varchar({ length: 255 }).notNull(),
     status: varchar({ length: 255 }).notNull(),
     error: varchar({ length: 255 }).notNull(),
-    metadata: jsonb().notNull(),
+    metadata: jsonb().$type<GenerationMetadata>().notNull(),
+    // Estimated provider cost and the src/pricing.ts version it was priced with;
+    // null until the provider has answered
+    costUsd: numeric({ precision: 12, scale: 6, mode: 'number' }),
+    pricingVersion: varchar({ length: 255 }),
+    // Comparison session turn that produced the generation (src/sessions.ts)
+    messageId: varchar({ length: 36 }).references(() => sessionMessagesTable.id),
+    // Generations whose outputs are among this one's input images, when it was
+    // edited from earlier results, in input image order; `parentGenerationId`
+    // is the first of them, the one the edit tree hangs it from (src/lineage.ts)
+    parentGenerationId: integer().references((): AnyPgColumn => usersTable.id),
+    parentGenerationIds: integer().array().notNull().default(sql`'{}'::integer[]`),
     createdAt: timestamp().notNull().defaultNow(),
-  });
\ No newline at end of file
+    updatedAt: timestamp().notNull().defaultNow(),
+  }, (table) => [
+    // History pages (src/history.ts) walk a user's generations by id
+    index("generations_user_id_id_idx").on(table.userId, table.id),
+    index("generations_message_id_idx").on(table.messageId),
+    index("generations_parent_generation_id_idx").on(table.parentGenerationId),
+    index("generations_parent_generation_ids_idx").using("gin", table.parentGenerationIds),
+    // Finding the generation an input image came from
+    index("generations_user_id_output_image_url_idx").on(table.userId, table.outputImageUrl),
+  ]);
+
+// Lifecycle of a generation row: inserted as pending when the request starts,
+// running while the provider works, then completed or failed.
+export type GenerationStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+// Generation jobs processed by the worker in src/jobs.ts. Each job owns one
+// generation row; `task` holds the provider continuation between polls.
+export const jobsTable = pgTable("jobs", {
+    id: varchar({ length: 36 }).primaryKey(),
+    userId: varchar({ length: 255 }).notNull(),
+    model: varchar({ length: 255 }).notNull(),
+    status: varchar({ length: 255 }).notNull(),
+    stage: varchar({ length: 255 }).notNull(),
+    input: jsonb().notNull(),
+    task: jsonb(),
+    result: jsonb(),
+    error: varchar({ length: 255 }).notNull().default(''),
+    generationId: integer().references(() => usersTable.id),
+    // Set on jobs started by a batch run (src/batches.ts)
+    batchItemId: integer().references(() => batchItemsTable.id),
+    // Quota units the job holds until it completes or fails (src/quota.ts)
+    reservationId: varchar({ length: 36 }).references(() => quotaReservationsTable.id),
+    attempts: integer().notNull().default(0),
+    runAt: timestamp().notNull().defaultNow(),
+    // When a worker first ran the job and when it was handed to a submit/poll provider
+    startedAt: timestamp(),
+    submittedAt: timestamp(),
+    lockedUntil: timestamp(),
+    deadlineAt: timestamp().notNull(),
+    createdAt: timestamp().notNull().defaultNow(),
+    updatedAt: timestamp().notNull().defaultNow(),
+  }, (table) => [
+    index("jobs_status_run_at_idx").on(table.status, table.runAt),
+    index("jobs_batch_item_id_idx").on(table.batchItemId),
+    index("jobs_reservation_id_idx").on(table.reservationId),
+  ]);
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type JobStage = 'queued' | 'enhancing' | 'submitted' | 'polling' | 'uploading' | 'done' | 'error';
+
+// Reviewer votes on generations. A vote is either a thumbs up/down on a single
+// generation, or a pairwise preference where `generationId` beat
+// `opponentGenerationId`. `category` is the prompt category at vote time and
+// `blind` whether the model names were still hidden when the vote was cast.
+export const votesTable = pgTable("votes", {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    userId: varchar({ length: 255 }).notNull(),
+    generationId: integer().notNull().references(() => usersTable.id),
+    opponentGenerationId: integer().references(() => usersTable.id),
+    value: varchar({ length: 255 }).notNull(),
+    category: varchar({ length: 255 }).notNull(),
+    blind: boolean().notNull().default(false),
+    createdAt: timestamp().notNull().defaultNow(),
+    updatedAt: timestamp().notNull().defaultNow(),
+  }, (table) => [
+    unique("votes_user_generation_opponent_unique").on(table.userId, table.generationId, table.opponentGenerationId).nullsNotDistinct(),
+  ]);
+
+export type VoteValue = 'up' | 'down' | 'win';
+
+// Cache of enhanced prompts (src/enhance.ts), keyed by a hash of the prompt, the
+// enhancer and its system prompt
+export const promptEnhancementsTable = pgTable("prompt_enhancements", {
+    hash: varchar({ length: 64 }).primaryKey(),
+    enhancer: varchar({ length: 255 }).notNull(),
+    prompt: varchar({ length: 2000 }).notNull(),
+    enhancedPrompt: varchar({ length: 2000 }).notNull(),
+    createdAt: timestamp().notNull().defaultNow(),
+  });
+
+// Saved prompt templates (src/templates.ts). `body` holds `{{name}}` variables
+// and `values` the saved value lists for them. A template with a `teamId` (the
+// Clerk organization) is shared with the team; otherwise only its owner sees it.
+export const promptTemplatesTable = pgTable("prompt_templates", {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    userId: varchar({ length: 255 }).notNull(),
+    teamId: varchar({ length: 255 }),
+    name: varchar({ length: 255 }).notNull(),
+    body: varchar({ length: 2000 }).notNull(),
+    values: jsonb().$type<TemplateValueLists>().notNull().default({}),
+    createdAt: timestamp().notNull().defaultNow(),
+    updatedAt: timestamp().notNull().defaultNow(),
+  }, (table) => [
+    index("prompt_templates_user_id_idx").on(table.userId),
+    index("prompt_templates_team_id_idx").on(table.teamId),
+  ]);
+
+// Batch runs of an uploaded prompt set against several models (src/batches.ts).
+// At most `concurrency` items run at a time; each runs one job per model.
+export const batchesTable = pgTable("batches", {
+    id: varchar({ length: 36 }).primaryKey(),
+    userId: varchar({ length: 255 }).notNull(),
+    name: varchar({ length: 255 }).notNull(),
+    models: jsonb().$type<string[]>().notNull(),
+    options: jsonb().$type<BatchOptions>().notNull(),
+    concurrency: integer().notNull(),
+    status: varchar({ length: 255 }).notNull(),
+    createdAt: timestamp().notNull().defaultNow(),
+    updatedAt: timestamp().notNull().defaultNow(),
+  }, (table) => [
+    index("batches_user_id_idx").on(table.userId),
+  ]);
+
+export type BatchStatus = 'running' | 'completed' | 'cancelled';
+
+export const batchItemsTable = pgTable("batch_items", {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    batchId: varchar({ length: 36 }).notNull().references(() => batchesTable.id),
+    position: integer().notNull(),
+    prompt: varchar({ length: 2000 }).notNull(),
+    imageUrl: varchar({ length: 255 }),
+    tags: jsonb().$type<string[]>().notNull().default([]),
+    status: varchar({ length: 255 }).notNull(),
+    createdAt: timestamp().notNull().defaultNow(),
+    updatedAt: timestamp().notNull().defaultNow(),
+  }, (table) => [
+    index("batch_items_batch_id_status_idx").on(table.batchId, table.status),
+  ]);
+
+// pending until started, running while its jobs are active, then done
+export type BatchItemStatus = 'pending' | 'running' | 'done';
+
+// Saved comparison conversations, resumed from the sidebar
+export const sessionsTable = pgTable("sessions", {
+    id: varchar({ length: 36 }).primaryKey(),
+    userId: varchar({ length: 255 }).notNull(),
+    title: varchar({ length: 255 }).notNull(),
+    createdAt: timestamp().notNull().defaultNow(),
+    updatedAt: timestamp().notNull().defaultNow(),
+  }, (table) => [
+    index("sessions_user_id_updated_at_idx").on(table.userId, table.updatedAt),
+  ]);
+
+// One row per user turn of a session; the reply is the generations linked to
+// it through generations.messageId
+export const sessionMessagesTable = pgTable("session_messages", {
+    id: varchar({ length: 36 }).primaryKey(),
+    sessionId: varchar({ length: 36 }).notNull().references(() => sessionsTable.id),
+    prompt: varchar({ length: 2000 }).notNull(),
+    inputImageUrl: varchar({ length: 255 }).notNull(),
+    settings: jsonb().$type<SessionTurnSettings>().notNull(),
+    // Blind comparisons stay hidden until the reviewer votes or reveals them
+    revealed: boolean().notNull().default(false),
+    createdAt: timestamp().notNull().defaultNow(),
+  }, (table) => [
+    index("session_messages_session_id_idx").on(table.sessionId),
+  ]);
+
+// Public read-only links to a comparison (src/shares.ts); the id is the
+// unguessable token in the link. Revoked links stop resolving.
+export const sharesTable = pgTable("shares", {
+    id: varchar({ length: 64 }).primaryKey(),
+    userId: varchar({ length: 255 }).notNull(),
+    // The shared generations, in the order they were shown
+    generationIds: jsonb().$type<number[]>().notNull(),
+    createdAt: timestamp().notNull().defaultNow(),
+    revokedAt: timestamp(),
+  }, (table) => [
+    index("shares_user_id_idx").on(table.userId),
+  ]);
+
+// Per-user quota settings and the counter that gates reservations
+// (src/quota.ts). `plan` and `limitOverride` are set by admins; a null plan
+// means the default plan. `heldUnits` is every unit reserved or committed so
+// far minus the released ones; it only changes through conditional updates,
+// so concurrent requests can't all pass the limit check.
+export const quotaAccountsTable = pgTable("quota_accounts", {
+    userId: varchar({ length: 255 }).primaryKey(),
+    plan: varchar({ length: 255 }),
+    limitOverride: integer(),
+    heldUnits: integer().notNull().default(0),
+    createdAt: timestamp().notNull().defaultNow(),
+    updatedAt: timestamp().notNull().defaultNow(),
+  });
+
+// Units taken from a user's quota, one row per job (src/quota.ts). Reserved
+// when the request is accepted, committed when the job completes and released
+// when it fails. The job that uses a reservation points to it through
+// jobs.reservationId.
+export const quotaReservationsTable = pgTable("quota_reservations", {
+    id: varchar({ length: 36 }).primaryKey(),
+    userId: varchar({ length: 255 }).notNull(),
+    model: varchar({ length: 255 }).notNull(),
+    units: integer().notNull(),
+    status: varchar({ length: 255 }).notNull(),
+    // Set while the reservation waits for a prompt of the batch to start; the
+    // job that takes it up clears it. Reserved before the batch row is written.
+    batchId: varchar({ length: 36 }),
+    createdAt: timestamp().notNull().defaultNow(),
+    settledAt: timestamp(),
+  }, (table) => [
+    index("quota_reservations_user_id_status_created_at_idx").on(table.userId, table.status, table.createdAt),
+    index("quota_reservations_batch_id_model_idx").on(table.batchId, table.model),
+  ]);
+
+export type QuotaReservationStatus = 'reserved' | 'committed' | 'released';
+
+// Request counts per rate limit key and fixed window (src/rate-limit.ts), when
+// RATE_LIMIT_STORE is postgres. Only the current and previous windows are kept.
+export const rateLimitsTable = pgTable("rate_limits", {
+    key: varchar({ length: 255 }).notNull(),
+    windowStart: timestamp().notNull(),
+    count: integer().notNull(),
+  }, (table) => [
+    primaryKey({ columns: [table.key, table.windowStart] }),
+  ]);
+
+// Idempotency-Key headers seen on generation requests, per user
+// (src/idempotency.ts). A key is pending while its first request runs and
+// then holds what repeats of that request are answered with, until it expires.
+export const idempotencyKeysTable = pgTable("idempotency_keys", {
+    userId: varchar({ length: 255 }).notNull(),
+    key: varchar({ length: 255 }).notNull(),
+    // sha256 of the method, path and body the key was first used with
+    requestHash: varchar({ length: 64 }).notNull(),
+    status: varchar({ length: 255 }).notNull(),
+    response: jsonb(),
+    createdAt: timestamp().notNull().defaultNow(),
+    expiresAt: timestamp().notNull(),
+  }, (table) => [
+    primaryKey({ columns: [table.userId, table.key] }),
+  ]);
+
+export type IdempotencyKeyStatus = 'pending' | 'completed';
@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from "@/db";
+import { promptEnhancementsTable } from "@/db/schema";
+import { ModelId } from "@/providers";
+import { getClient as geminiClient } from "@/providers/gemini";
+import { getClient as openaiClient } from "@/providers/image-gpt";
+
+// `shared` sends every model in a comparison the same enhanced prompt;
+// `per-model` enhances separately for each model with its own configuration.
+export type EnhanceMode = 'shared' | 'per-model';
+export const ENHANCE_MODES: EnhanceMode[] = ['shared', 'per-model'];
+
+export type EnhancerId = 'gemini' | 'openai';
+
+// An enhancer rewrites `prompt` following `systemPrompt` and returns the text it
+// produced (empty when it produced none).
+type Enhancer = (prompt: string, systemPrompt: string) => Promise<string>;
+
+export type EnhanceConfig = { enhancer: EnhancerId; systemPrompt: string };
+
+export const SYSTEM_PROMPTS = {
+  image: 'You are an expert image prompt engineer. Make sure the prompt describes an image; if it does not, write one that fits its intent. Improve the prompt with vivid, concrete, unambiguous details, styles, lighting, camera, composition, and constraints, while preserving the original intent. Respond with only the improved prompt.',
+  video: 'You are an expert video prompt engineer for Google\'s Veo model. Improve the prompt with concrete details of the subject, action, scene, camera angle and movement, lighting, style and sound, while preserving the original intent. Respond with only the improved prompt.',
+  keywords: 'You are an expert video prompt engineer for Google\'s Veo model. Construct the most effective prompt from the keywords you are given. Every single keyword MUST be included. Synthesize them into a single, cohesive, and cinematic instruction. Do not add any new core concepts. Output ONLY the final prompt string, without any introduction or explanation.',
+};
+
+const enhancers: Record<EnhancerId, Enhancer> = {
+  async gemini(prompt, systemPrompt) {
+    const result = await geminiClient().models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: { systemInstruction: systemPrompt },
+    });
+    return result.text?.trim() ?? '';
+  },
+
+  async openai(prompt, systemPrompt) {
+    const resp = await openaiClient().responses.create({
+      model: 'gpt-5',
+      input: [
+        { role: 'system', content: [{ type: 'input_text', text: systemPrompt }] },
+        { role: 'user', content: [{ type: 'input_text', text: prompt }] },
+      ],
+    });
+    const outputs = (resp as unknown as { output?: { type?: string; text?: string }[] }).output ?? [];
+    return outputs.filter((o) => o?.type === 'output_text').map((o) => o.text || '').join('').trim();
+  },
+};
+
+export function isEnhancerId(value: unknown): value is EnhancerId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(enhancers, value);
+}
+
+// Used in shared mode and for models without an entry below. PROMPT_ENHANCER
+// picks the enhancer (gemini by default).
+export function sharedConfig(): EnhanceConfig {
+  const enhancer = process.env.PROMPT_ENHANCER;
+  return { enhancer: isEnhancerId(enhancer) ? enhancer : 'gemini', systemPrompt: SYSTEM_PROMPTS.image };
+}
+
+// Per-model enhancement: each model gets its provider's own enhancer and
+// instructions suited to its output
+const MODEL_CONFIGS: Partial<Record<ModelId, EnhanceConfig>> = {
+  'image-gpt': { enhancer: 'openai', systemPrompt: SYSTEM_PROMPTS.image },
+  'gemini-image-flash': { enhancer: 'gemini', systemPrompt: SYSTEM_PROMPTS.image },
+  'veo-3': { enhancer: 'gemini', systemPrompt: SYSTEM_PROMPTS.video },
+};
+
+export function enhanceConfig(mode: EnhanceMode, model?: ModelId): EnhanceConfig {
+  return (mode === 'per-model' && model && MODEL_CONFIGS[model]) || sharedConfig();
+}
+
+// Missing means shared, the mode that keeps comparisons on one prompt
+export function parseEnhanceMode(raw: unknown): EnhanceMode | null {
+  if (raw === undefined || raw === null || raw === '') return 'shared';
+  return ENHANCE_MODES.includes(raw as EnhanceMode) ? (raw as EnhanceMode) : null;
+}
+
+export type Enhancement = { prompt: string; enhancer: EnhancerId; cached: boolean };
+
+// Enhances `prompt` with `config`, or returns null when the enhancer failed or
+// produced nothing. Results are cached by a hash of the prompt and the
+// configuration, and the first stored result always wins: jobs enhancing the
+// same prompt concurrently all end up with the same text.
+export async function enhancePrompt(prompt: string, config: EnhanceConfig): Promise<Enhancement | null> {
+  const hash = crypto.createHash('sha256').update(JSON.stringify([config.enhancer, config.systemPrompt, prompt])).digest('hex');
+  const cached = await findEnhancement(hash);
+  if (cached) return { prompt: cached, enhancer: config.enhancer, cached: true };
+
+  let text: string;
+  try {
+    text = (await enhancers[config.enhancer](prompt, config.systemPrompt)).slice(0, 2000);
+  } catch (err) {
+    console.error('[enhance] error:', err);
+    return null;
+  }
+  if (!text) return null;
+  const [stored] = await db.insert(promptEnhancementsTable)
+    .values({ hash, enhancer: config.enhancer, prompt: prompt.slice(0, 2000), enhancedPrompt: text })
+    .onConflictDoNothing()
+    .returning();
+  if (stored) return { prompt: stored.enhancedPrompt, enhancer: config.enhancer, cached: false };
+  return { prompt: (await findEnhancement(hash)) ?? text, enhancer: config.enhancer, cached: true };
+}
+
+// Writes one prompt that contains every keyword, for structured Veo requests
+export async function composePromptFromKeywords(keywords: string[]): Promise<string | null> {
+  if (keywords.length === 0) return null;
+  const enhancement = await enhancePrompt(`Mandatory keywords: ${keywords.join(', ')}`, { enhancer: 'gemini', systemPrompt: SYSTEM_PROMPTS.keywords });
+  return enhancement?.prompt ?? null;
+}
+
+async function findEnhancement(hash: string): Promise<string | undefined> {
+  const [row] = await db.select({ enhancedPrompt: promptEnhancementsTable.enhancedPrompt })
+    .from(promptEnhancementsTable)
+    .where(eq(promptEnhancementsTable.hash, hash));
+  return row?.enhancedPrompt;
+}
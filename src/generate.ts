@@ -0,0 +1,411 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { auth } from '@clerk/nextjs/server';
+import { JobStage } from "@/db/schema";
+import { parseEnhanceMode } from "@/enhance";
+import { generationInput, getGeneration, getGenerationJob } from "@/history";
+import { releaseReservations, reserveQuota } from "@/quota";
+import { rateLimitGeneration } from "@/rate-limit";
+import { startSessionTurn } from "@/sessions";
+import { resolveTemplateUse } from "@/templates";
+import { enqueueJob, followJob, JobEvent, JobResult, runJob } from "@/jobs";
+import { BlindAssignment } from "@/metadata";
+import { idempotent, withIdempotency } from "@/idempotency";
+import { ingestImages, readRequestBody } from "@/image-input";
+import { countIgnoredImages, getProvider, isModelId, MAX_SAMPLES, ModelId, parseGenerationParams, parseSampleCount } from "@/providers";
+
+// `images` are the input images, each a multipart file, a data URL, raw base64
+// or an http(s) URL with an optional role, and `image` a single one (see
+// ingestImages in src/image-input.ts); `params` is validated by
+// parseGenerationParams (see src/providers/params.ts); `n` is the number of
+// samples to generate, each as its own job and generation; `enhanceMode` is
+// 'shared' (default) or 'per-model', see src/enhance.ts;
+// `template` names the template and values the prompt was rendered from (see
+// resolveTemplateUse in src/templates.ts); `sessionId` records the request as a
+// turn of that comparison session (see startSessionTurn in src/sessions.ts)
+export type GenerateRequestBody = { model?: string; prompt?: string; image?: unknown; images?: unknown; imageRoles?: unknown; enhance?: boolean; enhanceMode?: unknown; params?: unknown; n?: unknown; template?: unknown; sessionId?: unknown };
+
+// `compareEnhancement` runs every model both with and without prompt enhancement
+export type GenerateStreamRequestBody = Omit<GenerateRequestBody, 'model'> & { models?: string[]; blind?: boolean; compareEnhancement?: boolean };
+
+// Shared handler behind /api/generate and the per-model routes. When `modelId` is
+// omitted the model is read from the request body. The generation is queued as a
+// job and the response carries its id; clients follow it via GET /api/jobs/:id.
+// Repeats with the same Idempotency-Key get the first response back.
+export function handleGenerate(request: NextRequest, modelId?: ModelId) {
+  return withIdempotency(request, () => generate(request, modelId));
+}
+
+async function generate(request: NextRequest, modelId?: ModelId) {
+  const body = (await readRequestBody(request)) as GenerateRequestBody;
+  const model = modelId ?? body.model;
+  if (!isModelId(model)) {
+    return NextResponse.json({ error: `Unknown model: ${String(model ?? '')}` }, { status: 400 });
+  }
+
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const prompt = String(body.prompt || '');
+  if (!prompt.trim()) {
+    return NextResponse.json({ error: 'Missing prompt' }, { status: 400 });
+  }
+  const { params, errors } = parseGenerationParams(body.params);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+
+  const n = parseSampleCount(body.n);
+  if (n === null) {
+    return NextResponse.json({ error: `n must be an integer from 1 to ${MAX_SAMPLES}` }, { status: 400 });
+  }
+  const enhanceMode = parseEnhanceMode(body.enhanceMode);
+  if (!enhanceMode) {
+    return NextResponse.json({ error: 'enhanceMode must be shared or per-model' }, { status: 400 });
+  }
+  const { template, error: templateError, status: templateStatus } = await resolveTemplateUse(body.template, prompt, userId, orgId);
+  if (templateError) {
+    return NextResponse.json({ error: templateError }, { status: templateStatus });
+  }
+
+  const jobModels: ModelId[] = Array(n).fill(model);
+  const { limited, release: releaseRateLimit } = await rateLimitGeneration(userId, jobModels);
+  if (limited) return limited;
+  const { images = [], error: imageError, status: imageStatus } = await ingestImages(body, userId);
+  if (imageError) {
+    await releaseRateLimit();
+    return NextResponse.json({ error: imageError }, { status: imageStatus });
+  }
+  const input = { prompt, image: images[0]?.url, images, enhance: Boolean(body.enhance), enhanceMode, params };
+  const { reservationIds = [], error: quotaError, status: quotaStatus } = await reserveQuota(userId, jobModels);
+  if (quotaError) {
+    await releaseRateLimit();
+    return NextResponse.json({ error: quotaError }, { status: quotaStatus });
+  }
+  const { messageId, error: sessionError, status: sessionStatus } = await startSessionTurn(userId, body.sessionId, {
+    prompt,
+    image: input.image,
+    settings: { models: [model], enhance: input.enhance, samples: n, ...(model === 'veo-3' ? { video: true } : {}) },
+  });
+  if (sessionError) {
+    await releaseReservations(reservationIds);
+    await releaseRateLimit();
+    return NextResponse.json({ error: sessionError }, { status: sessionStatus });
+  }
+
+  try {
+    const jobs = await Promise.all(Array.from({ length: n }, (_, index) => (
+      enqueueJob({ userId, model, input, messageId, reservationId: reservationIds[index], metadata: { ...(template ? { template } : {}), ...(n > 1 ? { sample: { index, count: n } } : {}) } })
+    )));
+    // Start the first step right after responding; the jobs API and the worker pick up the rest
+    for (const job of jobs) {
+      after(() => runJob(job.id));
+    }
+    const [job] = jobs;
+    const ignoredParams = getProvider(model).ignoredParams(input);
+    const ignoredImages = countIgnoredImages(getProvider(model), input);
+    return NextResponse.json({
+      jobId: job.id,
+      generationId: job.generationId,
+      model,
+      status: job.status,
+      ignoredParams,
+      ignoredImages,
+      jobs: jobs.map(({ id, generationId }) => ({ jobId: id, generationId })),
+    }, { status: 202 });
+  } catch (err) {
+    await releaseReservations(reservationIds).catch(() => {});
+    await releaseRateLimit();
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Fans one prompt out to several models and streams their progress as
+// Server-Sent Events. Every sample of every model (`n` per model) gets its own
+// job, which this request runs to the end; if the client goes away the worker
+// finishes them instead.
+//
+// With `blind: true` the models are shuffled and labelled "Model A", "Model B", ...;
+// the assignment is stored on each generation (metadata.blind). With
+// `compareEnhancement: true` each model also runs twice, on the raw and on the
+// enhanced prompt (metadata.enhanceComparison). In the default shared
+// enhancement mode every model receives the same enhanced prompt.
+//
+// Events (each `data:` is JSON):
+//   start  { messageId?, jobs: [{ model?, sample, enhance, jobId, generationId, blindLabel?, ignoredParams?, ignoredImages? }] }   in display order
+//   stage  { model?, sample, jobId, generationId, stage, elapsedMs?, result?, error?, timings? }
+//   text   { model?, sample, jobId, text, elapsedMs? }   partial text, as the provider streams it
+//   end    { elapsedMs }
+// Blind jobs leave out `model`, `ignoredParams`, `ignoredImages`, `elapsedMs`
+// and `timings`, and their results only carry the output; revealing the turn
+// returns the rest (see handleRevealMessage in src/sessions.ts).
+// `elapsedMs` is measured on the server from the start of the stream; `timings`
+// (sent with done/error) holds the time each model spent in every stage.
+//
+// A repeat with the same Idempotency-Key follows the jobs of the first request
+// again (see src/idempotency.ts), from `start` on.
+export function handleGenerateStream(request: NextRequest) {
+  return idempotent<GenerateStreamStart>(request, async () => {
+    const start = await startGenerateStream(request);
+    if (start instanceof Response) return { response: start };
+    return { response: streamJobs(request, start), stored: start };
+  }, (start) => streamJobs(request, start));
+}
+
+// The `start` event: the session message and the jobs the stream follows
+export type GenerateStreamStart = {
+  messageId?: string;
+  jobs: { model: ModelId; sample: number; enhance: boolean; jobId: string; generationId: number | null; blindLabel?: string; ignoredParams: string[]; ignoredImages: number }[];
+};
+
+// Validates the request and queues its jobs, or answers with the error
+async function startGenerateStream(request: NextRequest): Promise<GenerateStreamStart | NextResponse> {
+  const body = (await readRequestBody(request)) as GenerateStreamRequestBody;
+  const models = Array.isArray(body.models) ? [...new Set(body.models)] : [];
+  if (models.length === 0) {
+    return NextResponse.json({ error: 'Select at least one model' }, { status: 400 });
+  }
+  const unknown = models.find((model) => !isModelId(model));
+  if (unknown !== undefined) {
+    return NextResponse.json({ error: `Unknown model: ${String(unknown)}` }, { status: 400 });
+  }
+
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const prompt = String(body.prompt || '');
+  if (!prompt.trim()) {
+    return NextResponse.json({ error: 'Missing prompt' }, { status: 400 });
+  }
+  const { params, errors } = parseGenerationParams(body.params);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+  const n = parseSampleCount(body.n);
+  if (n === null) {
+    return NextResponse.json({ error: `n must be an integer from 1 to ${MAX_SAMPLES}` }, { status: 400 });
+  }
+  const enhanceMode = parseEnhanceMode(body.enhanceMode);
+  if (!enhanceMode) {
+    return NextResponse.json({ error: 'enhanceMode must be shared or per-model' }, { status: 400 });
+  }
+  const { template, error: templateError, status: templateStatus } = await resolveTemplateUse(body.template, prompt, userId, orgId);
+  if (templateError) {
+    return NextResponse.json({ error: templateError }, { status: templateStatus });
+  }
+
+  const blind = Boolean(body.blind);
+  const order = blind ? shuffle(models as ModelId[]) : (models as ModelId[]);
+  const comparisonId = crypto.randomUUID();
+  const assignments = order.map((model, position): BlindAssignment => ({
+    comparisonId,
+    label: `Model ${String.fromCharCode(65 + position)}`,
+    position,
+    order,
+  }));
+  const compareEnhancement = Boolean(body.compareEnhancement);
+
+  // One job per model, enhancement setting and sample, grouped by model in display order
+  const enhanceSettings = compareEnhancement ? [false, true] : [Boolean(body.enhance)];
+  const slots = order.flatMap((model, position) => enhanceSettings.flatMap((enhance) => (
+    Array.from({ length: n }, (_, sample) => ({ model, position, sample, enhance }))
+  )));
+  const { limited, release: releaseRateLimit } = await rateLimitGeneration(userId, slots.map(({ model }) => model));
+  if (limited) return limited;
+  const { images = [], error: imageError, status: imageStatus } = await ingestImages(body, userId);
+  if (imageError) {
+    await releaseRateLimit();
+    return NextResponse.json({ error: imageError }, { status: imageStatus });
+  }
+  const input = { prompt, image: images[0]?.url, images, enhance: Boolean(body.enhance), enhanceMode, params };
+  const { reservationIds = [], error: quotaError, status: quotaStatus } = await reserveQuota(userId, slots.map(({ model }) => model));
+  if (quotaError) {
+    await releaseRateLimit();
+    return NextResponse.json({ error: quotaError }, { status: quotaStatus });
+  }
+  const { messageId, error: sessionError, status: sessionStatus } = await startSessionTurn(userId, body.sessionId, {
+    prompt,
+    image: input.image,
+    settings: { models: order, blind, compareEnhancement, enhance: input.enhance, samples: n },
+  });
+  if (sessionError) {
+    await releaseReservations(reservationIds);
+    await releaseRateLimit();
+    return NextResponse.json({ error: sessionError }, { status: sessionStatus });
+  }
+
+  let jobs;
+  try {
+    jobs = await Promise.all(slots.map(({ model, position, sample, enhance }, index) => (
+      enqueueJob({
+        userId,
+        model,
+        input: { ...input, enhance },
+        messageId,
+        reservationId: reservationIds[index],
+        metadata: {
+          ...(template ? { template } : {}),
+          ...(blind ? { blind: assignments[position] } : {}),
+          ...(n > 1 ? { sample: { index: sample, count: n } } : {}),
+          ...(compareEnhancement ? { enhanceComparison: { comparisonId, enhanced: enhance } } : {}),
+        },
+      })
+    )));
+  } catch (err) {
+    await releaseReservations(reservationIds).catch(() => {});
+    await releaseRateLimit();
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  return {
+    messageId,
+    jobs: jobs.map((job, i) => ({
+      model: slots[i].model,
+      sample: slots[i].sample,
+      enhance: slots[i].enhance,
+      jobId: job.id,
+      generationId: job.generationId,
+      blindLabel: blind ? assignments[slots[i].position].label : undefined,
+      ignoredParams: getProvider(slots[i].model).ignoredParams(input),
+      ignoredImages: countIgnoredImages(getProvider(slots[i].model), input),
+    })),
+  };
+}
+
+// What the stream tells about a job: in a blind comparison nothing that would
+// give its model away (the model, its ignored params and images)
+function visibleJob(job: GenerateStreamStart['jobs'][number]) {
+  const { model, ignoredParams, ignoredImages, ...rest } = job;
+  return job.blindLabel ? rest : { ...rest, model, ignoredParams, ignoredImages };
+}
+
+// A blind job's result without cost, usage or enhanced prompt; revealing the
+// turn returns them (see handleRevealMessage in src/sessions.ts)
+function blindResult(result: JobResult | undefined) {
+  if (!result) return undefined;
+  const { image, images, generationIds, text } = result;
+  return { image, images, generationIds, text };
+}
+
+// Streams the progress of the started jobs, running them in this request
+function streamJobs(request: NextRequest, start: GenerateStreamStart) {
+  const startedAt = Date.now();
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (request.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {}
+      };
+
+      send('start', { ...start, jobs: start.jobs.map(visibleJob) });
+
+      await Promise.all(start.jobs.map(async (job) => {
+        const { sample } = job;
+        const blind = Boolean(job.blindLabel);
+        const timings: Partial<Record<JobStage, number>> = {};
+        let stage: JobStage | undefined;
+        let stageStartedAt = startedAt;
+        const onEvent = (event: JobEvent) => {
+          const now = Date.now();
+          const elapsedMs = now - startedAt;
+          if (event.type === 'text') {
+            send('text', blind ? { sample, jobId: job.jobId, text: event.text } : { model: job.model, sample, jobId: job.jobId, text: event.text, elapsedMs });
+            return;
+          }
+          // Repeated polling steps extend the same stage
+          if (event.stage === stage) return;
+          if (stage) timings[stage] = (timings[stage] ?? 0) + (now - stageStartedAt);
+          stage = event.stage;
+          stageStartedAt = now;
+          const finished = event.stage === 'done' || event.stage === 'error';
+          const stageEvent = { sample, jobId: job.jobId, generationId: job.generationId, stage: event.stage, error: event.error };
+          send('stage', blind
+            ? { ...stageEvent, result: blindResult(event.result) }
+            : { ...stageEvent, model: job.model, elapsedMs, result: event.result, timings: finished ? timings : undefined });
+        };
+        try {
+          await followJob(job.jobId, onEvent, request.signal);
+        } catch (err) {
+          onEvent({ type: 'stage', jobId: job.jobId, stage: 'error', error: err instanceof Error ? err.message : 'Unexpected error' });
+        }
+      }));
+
+      send('end', { elapsedMs: Date.now() - startedAt });
+      try {
+        controller.close();
+      } catch {}
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+// Runs a generation again with the same prompt, input image and settings, on
+// its own model or on each of `models`. The new generations record it in
+// metadata.rerunOf.
+export function handleRerunGeneration(request: NextRequest, id: number) {
+  return withIdempotency(request, () => rerunGeneration(request, id));
+}
+
+async function rerunGeneration(request: NextRequest, id: number) {
+  const body = (await request.json().catch(() => ({}))) as { models?: unknown };
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const row = await getGeneration(id, userId);
+  if (!row) {
+    return NextResponse.json({ error: 'Generation not found' }, { status: 404 });
+  }
+  const models = body.models === undefined ? [row.model] : Array.isArray(body.models) ? [...new Set(body.models)] : [];
+  if (models.length === 0 || !models.every(isModelId)) {
+    return NextResponse.json({ error: 'models must list known models' }, { status: 400 });
+  }
+  const { limited, release: releaseRateLimit } = await rateLimitGeneration(userId, models);
+  if (limited) return limited;
+  const { reservationIds = [], error: quotaError, status: quotaStatus } = await reserveQuota(userId, models);
+  if (quotaError) {
+    await releaseRateLimit();
+    return NextResponse.json({ error: quotaError }, { status: quotaStatus });
+  }
+
+  try {
+    const input = generationInput(row, await getGenerationJob(id));
+    const jobs = await Promise.all(models.map((model, index) => enqueueJob({ userId, model, input, reservationId: reservationIds[index], metadata: { rerunOf: id } })));
+    for (const job of jobs) {
+      after(() => runJob(job.id));
+    }
+    return NextResponse.json({
+      jobs: jobs.map((job) => ({ model: job.model, jobId: job.id, generationId: job.generationId })),
+    }, { status: 202 });
+  } catch (err) {
+    await releaseReservations(reservationIds).catch(() => {});
+    await releaseRateLimit();
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Fisher-Yates shuffle into a new array
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = crypto.getRandomValues(new Uint32Array(1))[0] % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { auth } from '@clerk/nextjs/server';
+import { and, desc, eq, gte, ilike, inArray, lt, ne, SQL } from 'drizzle-orm';
+import { db } from "@/db";
+import { GenerationStatus, jobsTable, usersTable } from "@/db/schema";
+import { isJobDue, Job, JobInput, runJob } from "@/jobs";
+
+export type HistoryQuery = {
+  models?: string[];
+  statuses?: GenerationStatus[];
+  from?: Date;
+  to?: Date;
+  search?: string;
+  hasInputImage?: boolean;
+  cursor?: number;
+  limit: number;
+};
+
+export const DEFAULT_HISTORY_LIMIT = 24;
+export const MAX_HISTORY_LIMIT = 100;
+
+const STATUSES: GenerationStatus[] = ['pending', 'running', 'completed', 'failed'];
+
+// Reads the query string of GET /api/generations. `model` and `status` take
+// comma-separated lists, `from`/`to` dates (`to` is exclusive), `q` searches
+// the prompt, and `cursor` is the `nextCursor` of the previous page.
+export function parseHistoryQuery(params: URLSearchParams): { query: HistoryQuery; errors: string[] } {
+  const errors: string[] = [];
+  const query: HistoryQuery = { limit: DEFAULT_HISTORY_LIMIT };
+  const list = (name: string) => params.getAll(name).flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean);
+
+  const models = list('model');
+  if (models.length > 0) query.models = models;
+  const statuses = list('status');
+  if (statuses.some((status) => !STATUSES.includes(status as GenerationStatus))) errors.push(`status must be one of ${STATUSES.join(', ')}`);
+  else if (statuses.length > 0) query.statuses = statuses as GenerationStatus[];
+
+  for (const name of ['from', 'to'] as const) {
+    const raw = params.get(name);
+    if (!raw) continue;
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) errors.push(`${name} must be a date`);
+    else query[name] = date;
+  }
+
+  const search = params.get('q')?.trim();
+  if (search) query.search = search.slice(0, 255);
+
+  const hasInputImage = params.get('hasInputImage');
+  if (hasInputImage === 'true' || hasInputImage === 'false') query.hasInputImage = hasInputImage === 'true';
+  else if (hasInputImage !== null) errors.push('hasInputImage must be true or false');
+
+  const cursor = params.get('cursor');
+  if (cursor !== null) {
+    if (!/^\d+$/.test(cursor)) errors.push('cursor is invalid');
+    else query.cursor = Number(cursor);
+  }
+
+  const limit = params.get('limit');
+  if (limit !== null) {
+    const n = Number(limit);
+    if (!Number.isInteger(n) || n < 1 || n > MAX_HISTORY_LIMIT) errors.push(`limit must be an integer from 1 to ${MAX_HISTORY_LIMIT}`);
+    else query.limit = n;
+  }
+  return { query, errors };
+}
+
+// Escapes LIKE wildcards so the search matches the text as typed
+function containing(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+type Generation = typeof usersTable.$inferSelect;
+
+function toHistoryItem(row: Generation) {
+  return {
+    id: row.id,
+    prompt: row.prompt,
+    enhancedPrompt: row.enhancedPrompt,
+    model: row.model,
+    status: row.status as GenerationStatus,
+    error: row.error || undefined,
+    inputImageUrl: row.inputImageUrl || null,
+    inputImages: row.inputImages,
+    outputImageUrl: row.outputImageUrl || null,
+    parentGenerationId: row.parentGenerationId,
+    parentGenerationIds: row.parentGenerationIds,
+    costUsd: row.costUsd,
+    timing: row.metadata.timing ?? null,
+    metadata: row.metadata,
+    createdAt: row.createdAt,
+  };
+}
+
+export type HistoryItem = ReturnType<typeof toHistoryItem>;
+
+// Newest first. Pages are keyed on the generation id, so rows added while
+// paging don't shift later pages.
+export async function getHistory(userId: string, query: HistoryQuery): Promise<{ generations: HistoryItem[]; nextCursor: string | null }> {
+  const filters: (SQL | undefined)[] = [eq(usersTable.userId, userId)];
+  if (query.models) filters.push(inArray(usersTable.model, query.models));
+  if (query.statuses) filters.push(inArray(usersTable.status, query.statuses));
+  if (query.from) filters.push(gte(usersTable.createdAt, query.from));
+  if (query.to) filters.push(lt(usersTable.createdAt, query.to));
+  if (query.search) filters.push(ilike(usersTable.prompt, containing(query.search)));
+  if (query.hasInputImage !== undefined) filters.push(query.hasInputImage ? ne(usersTable.inputImageUrl, '') : eq(usersTable.inputImageUrl, ''));
+  if (query.cursor !== undefined) filters.push(lt(usersTable.id, query.cursor));
+
+  const rows = await db.select().from(usersTable)
+    .where(and(...filters))
+    .orderBy(desc(usersTable.id))
+    .limit(query.limit + 1);
+  const page = rows.slice(0, query.limit);
+  return {
+    generations: page.map(toHistoryItem),
+    nextCursor: rows.length > query.limit ? String(page[page.length - 1].id) : null,
+  };
+}
+
+export async function handleListGenerations(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { query, errors } = parseHistoryQuery(request.nextUrl.searchParams);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await getHistory(userId, query));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function getGeneration(id: number, userId: string): Promise<Generation | undefined> {
+  const [row] = await db.select().from(usersTable).where(and(eq(usersTable.id, id), eq(usersTable.userId, userId)));
+  return row;
+}
+
+// The job that produced a generation; extra outputs of one provider call
+// (metadata.outputIndex) have none of their own
+export async function getGenerationJob(id: number): Promise<Job | undefined> {
+  const [job] = await db.select().from(jobsTable).where(eq(jobsTable.generationId, id));
+  return job;
+}
+
+// What a generation was requested with, to run it again
+export function generationInput(row: Generation, job?: Job): JobInput {
+  if (job) return job.input as JobInput;
+  return {
+    prompt: row.prompt,
+    image: row.inputImageUrl || undefined,
+    images: row.inputImages,
+    enhance: row.enhancedPrompt !== null,
+    enhanceMode: row.metadata.enhancement?.mode,
+    params: row.metadata.params,
+  };
+}
+
+// A generation with the settings it was requested with. Like GET /api/jobs/:id,
+// polling a generation that is still running advances its job.
+export async function handleGetGeneration(id: number) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const row = await getGeneration(id, userId);
+  if (!row) {
+    return NextResponse.json({ error: 'Generation not found' }, { status: 404 });
+  }
+  const job = await getGenerationJob(id);
+  if (job && isJobDue(job)) {
+    after(() => runJob(job.id));
+  }
+  const input = generationInput(row, job);
+  return NextResponse.json({
+    ...toHistoryItem(row),
+    enhance: Boolean(input.enhance),
+    enhanceMode: input.enhanceMode ?? null,
+    params: input.params ?? {},
+    jobId: job?.id ?? null,
+    stage: job?.stage ?? null,
+  });
+}
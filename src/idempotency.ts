@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from '@clerk/nextjs/server';
+import { and, eq, lt } from 'drizzle-orm';
+import { db } from "@/db";
+import { idempotencyKeysTable } from "@/db/schema";
+import { readRequestBody } from "@/image-input";
+
+// How long a key answers with the stored result
+const KEY_TTL_MS = 24 * 60 * 60_000;
+// How long a key stays claimed by a request that never finished (its process died)
+const PENDING_TTL_MS = 5 * 60_000;
+// How long a repeat waits for the first request to finish before giving up with 409
+const WAIT_MS = 10_000;
+const WAIT_INTERVAL_MS = 100;
+
+const MAX_KEY_LENGTH = 255;
+
+// What a run produced: the response to send and, when it succeeded, what to
+// store for repeats of the request
+export type IdempotentRun<T> = { response: Response; stored?: T };
+
+// Runs a generation request once per `Idempotency-Key` header. Repeats with the
+// same key and body get the stored result through `replay` (with
+// `Idempotent-Replayed: true`) instead of queueing new jobs; a repeat that
+// arrives while the first is still running waits for it. Keys are per user and
+// expire after a day. Only successful runs are stored, so a request that
+// failed or was turned away can be retried with the same key.
+export async function idempotent<T>(request: NextRequest, run: () => Promise<IdempotentRun<T>>, replay: (stored: T) => Response | Promise<Response>): Promise<Response> {
+  const key = request.headers.get('idempotency-key');
+  if (key === null) return (await run()).response;
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json({ error: `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters` }, { status: 400 });
+  }
+  const { userId } = await auth();
+  if (!userId) return (await run()).response;
+
+  const url = new URL(request.url);
+  const requestHash = createHash('sha256')
+    .update(`${request.method} ${url.pathname}\n${await bodyText(request)}`)
+    .digest('hex');
+
+  const now = new Date();
+  await db.delete(idempotencyKeysTable)
+    .where(and(eq(idempotencyKeysTable.userId, userId), lt(idempotencyKeysTable.expiresAt, now)));
+  const [claimed] = await db.insert(idempotencyKeysTable)
+    .values({ userId, key, requestHash, status: 'pending', expiresAt: new Date(now.getTime() + PENDING_TTL_MS) })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!claimed) {
+    const existing = await waitForKey(userId, key);
+    if (existing && existing.requestHash !== requestHash) {
+      return NextResponse.json({ error: 'Idempotency-Key was already used for a different request' }, { status: 422 });
+    }
+    if (existing?.status !== 'completed') {
+      return NextResponse.json({ error: 'A request with this Idempotency-Key is still in progress' }, { status: 409, headers: { 'Retry-After': '1' } });
+    }
+    const response = await replay(existing.response as T);
+    response.headers.set('Idempotent-Replayed', 'true');
+    return response;
+  }
+
+  const release = () => db.delete(idempotencyKeysTable)
+    .where(and(eq(idempotencyKeysTable.userId, userId), eq(idempotencyKeysTable.key, key)))
+    .catch(() => {});
+  let result: IdempotentRun<T>;
+  try {
+    result = await run();
+  } catch (err) {
+    await release();
+    throw err;
+  }
+  if (result.stored === undefined) {
+    await release();
+  } else {
+    await db.update(idempotencyKeysTable)
+      .set({ status: 'completed', response: result.stored, expiresAt: new Date(Date.now() + KEY_TTL_MS) })
+      .where(and(eq(idempotencyKeysTable.userId, userId), eq(idempotencyKeysTable.key, key)));
+  }
+  return result.response;
+}
+
+// For endpoints that answer with JSON: successful responses are stored and
+// replayed as they were
+export function withIdempotency(request: NextRequest, handle: () => Promise<Response>): Promise<Response> {
+  return idempotent(request, async () => {
+    const response = await handle();
+    if (!response.ok) return { response };
+    return { response, stored: { status: response.status, body: await response.clone().json() } };
+  }, ({ status, body }: { status: number; body: unknown }) => NextResponse.json(body, { status }));
+}
+
+// The body a request is recognised by. Multipart bodies are compared as read
+// (see readRequestBody in src/image-input.ts), with files by their type and
+// bytes, since each retry is sent with a new boundary.
+async function bodyText(request: NextRequest): Promise<string> {
+  if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+    return request.clone().text();
+  }
+  const body = await readRequestBody(request.clone() as NextRequest);
+  const fields = await Promise.all(Object.entries(body).sort(([a], [b]) => (a < b ? -1 : 1)).map(async ([name, value]) => {
+    const values = await Promise.all((Array.isArray(value) ? value : [value]).map(async (item) => (
+      item instanceof Blob ? { type: item.type, sha256: createHash('sha256').update(Buffer.from(await item.arrayBuffer())).digest('hex') } : item
+    )));
+    return [name, Array.isArray(value) ? values : values[0]];
+  }));
+  return JSON.stringify(fields);
+}
+
+// The key's row once its first request has finished, or as it is after WAIT_MS
+async function waitForKey(userId: string, key: string) {
+  const giveUpAt = Date.now() + WAIT_MS;
+  for (;;) {
+    const [row] = await db.select().from(idempotencyKeysTable)
+      .where(and(eq(idempotencyKeysTable.userId, userId), eq(idempotencyKeysTable.key, key)));
+    if (!row || row.status === 'completed' || Date.now() >= giveUpAt) return row;
+    await new Promise((resolve) => setTimeout(resolve, WAIT_INTERVAL_MS));
+  }
+}
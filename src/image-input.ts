@@ -0,0 +1,249 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { NextRequest } from "next/server";
+import mime from 'mime';
+import { and, eq, or, sql } from 'drizzle-orm';
+import { db } from "@/db";
+import { usersTable } from "@/db/schema";
+import { sniffImage } from "@/images";
+import { uploadFile } from "@/storage";
+import { IMAGE_ROLES, InputImage, isImageRole, MAX_INPUT_IMAGES, ProviderError, ProviderImageFile } from "@/providers";
+
+export const INPUT_IMAGE_LIMITS = {
+  maxBytes: 10 * 1024 * 1024,
+  // Longest side, in pixels
+  maxDimension: 4096,
+};
+
+// Fetching an image URL: how long it may take in all, and how many redirects
+// are followed
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+
+// Addresses a user's image URL may not reach: unspecified, loopback, private,
+// shared (carrier NAT) and link-local, which holds cloud metadata services.
+// IPv4 addresses written as IPv6 (::ffff:127.0.0.1) match the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// What every image model accepts
+const INPUT_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Longest URL generations can record (users.inputImageUrl)
+const MAX_URL_LENGTH = 255;
+
+const UNSUPPORTED_INPUT = 'image must be an uploaded file, a base64 data URL, raw base64 or an http(s) URL';
+
+// Multipart fields that hold JSON values (`params={"seed":3}`, `n=2`); the
+// others, like `prompt`, are text and stay as sent
+const JSON_FIELDS = new Set(['params', 'images', 'imageRoles', 'template', 'models', 'n', 'numberOfVideos', 'enhance', 'blind', 'compareEnhancement']);
+
+// Reads a generation request body: JSON, or multipart form data whose `image`
+// parts may be files. JSON_FIELDS are decoded; one that isn't valid JSON is
+// taken as a plain string. A repeated field becomes a list.
+export async function readRequestBody(request: NextRequest): Promise<Record<string, unknown>> {
+  if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+    const body: unknown = await request.json().catch(() => ({}));
+    return body && typeof body === 'object' ? body as Record<string, unknown> : {};
+  }
+  const form = await request.formData().catch(() => undefined);
+  const body: Record<string, unknown> = {};
+  for (const name of new Set(form?.keys())) {
+    const values = form!.getAll(name).map((value) => {
+      if (typeof value !== 'string' || !JSON_FIELDS.has(name)) return value;
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        return value;
+      }
+    });
+    body[name] = values.length > 1 ? values : values[0];
+  }
+  return body;
+}
+
+// The input images of a request body, in order: `images` as a list of images
+// or of { image, role } objects, or a single `image`. In multipart form data,
+// repeat the `image` part and give the roles as an `imageRoles` list.
+//
+// Every image is checked and uploaded to storage once, here, after all of them
+// have passed: inline ones (an uploaded file, a data URL or raw base64) as
+// sent, URLs once fetched. A URL the user's generations already stored (an
+// earlier output or input) is kept as given, so an edit of an earlier output
+// stays linked to it (see src/lineage.ts).
+export async function ingestImages(body: { image?: unknown; images?: unknown; imageRoles?: unknown }, userId: string): Promise<{ images?: InputImage[]; error?: string; status?: number }> {
+  let entries: { image: unknown; role: unknown }[];
+  if (body.images !== undefined && body.images !== null) {
+    if (body.image !== undefined) {
+      return { error: 'Send either image or images', status: 400 };
+    }
+    if (!Array.isArray(body.images)) {
+      return { error: 'images must be a list', status: 400 };
+    }
+    entries = body.images.map((entry) => (entry && typeof entry === 'object' && !(entry instanceof Blob)
+      ? { image: (entry as { image?: unknown }).image, role: (entry as { role?: unknown }).role }
+      : { image: entry, role: undefined }));
+  } else {
+    const values = Array.isArray(body.image) ? body.image : body.image === undefined || body.image === null || body.image === '' ? [] : [body.image];
+    const roles = Array.isArray(body.imageRoles) ? body.imageRoles : [];
+    entries = values.map((image, i) => ({ image, role: roles[i] }));
+  }
+  if (entries.length > MAX_INPUT_IMAGES) {
+    return { error: `At most ${MAX_INPUT_IMAGES} input images can be sent`, status: 400 };
+  }
+
+  const decoded = [];
+  for (const [i, { image, role }] of entries.entries()) {
+    const label = entries.length > 1 ? `Image ${i + 1}: ` : '';
+    if (role !== undefined && role !== null && role !== '' && !isImageRole(role)) {
+      return { error: `${label}role must be one of ${IMAGE_ROLES.join(', ')}`, status: 400 };
+    }
+    const result = await decodeImage(image, userId);
+    if (result.error) return { error: `${label}${result.error}`, status: result.status };
+    decoded.push({ ...result, role: isImageRole(role) ? role : undefined });
+  }
+
+  const images: InputImage[] = [];
+  for (const { url, buffer, mimeType, role } of decoded) {
+    const stored = url ?? await uploadImage(buffer!, mimeType!);
+    if (!stored) return { error: 'Could not store the input image, please try again', status: 502 };
+    images.push(role ? { url: stored, role } : { url: stored });
+  }
+  return { images };
+}
+
+// The URL of an image already stored, or the checked bytes of any other
+async function decodeImage(value: unknown, userId: string): Promise<{ url?: string; buffer?: Buffer; mimeType?: string; error?: string; status?: number }> {
+  let buffer: Buffer;
+  if (value instanceof Blob) {
+    if (value.size > INPUT_IMAGE_LIMITS.maxBytes) return tooLarge();
+    buffer = Buffer.from(await value.arrayBuffer());
+  } else if (typeof value === 'string' && /^https?:\/\//i.test(value)) {
+    if (value.length > MAX_URL_LENGTH) {
+      return { error: `Image URLs can be at most ${MAX_URL_LENGTH} characters`, status: 400 };
+    }
+    if (await isStoredImage(userId, value)) return { url: value };
+    const fetched = await fetchImage(value);
+    if (!fetched.buffer) return fetched;
+    buffer = fetched.buffer;
+  } else if (typeof value === 'string' && value !== '') {
+    const base64 = value.startsWith('data:') ? /^data:[^,]*;base64,([\s\S]*)$/.exec(value)?.[1] : value;
+    if (base64 === undefined || !/^[A-Za-z0-9+/=\s]+$/.test(base64)) {
+      return { error: UNSUPPORTED_INPUT, status: 400 };
+    }
+    buffer = Buffer.from(base64, 'base64');
+  } else {
+    return { error: UNSUPPORTED_INPUT, status: 400 };
+  }
+  const { mimeType, error, status } = checkImage(buffer);
+  if (error) return { error, status };
+  return { buffer, mimeType };
+}
+
+async function uploadImage(buffer: Buffer, mimeType: string): Promise<string | undefined> {
+  try {
+    return await uploadFile(`input-${crypto.randomUUID()}.${mime.getExtension(mimeType)}`, buffer, mimeType);
+  } catch (err) {
+    console.error('[image-input] upload error:', err);
+    return undefined;
+  }
+}
+
+// Whether one of the user's generations has `url` as its output or an input,
+// so storage already holds it
+async function isStoredImage(userId: string, url: string): Promise<boolean> {
+  const [row] = await db.select({ id: usersTable.id }).from(usersTable)
+    .where(and(
+      eq(usersTable.userId, userId),
+      or(eq(usersTable.outputImageUrl, url), sql`${usersTable.inputImages} @> ${JSON.stringify([{ url }])}::jsonb`),
+    ))
+    .limit(1);
+  return Boolean(row);
+}
+
+// Fetches an image URL, following redirects only to public hosts, and stops
+// reading once the body passes INPUT_IMAGE_LIMITS.maxBytes
+async function fetchImage(url: string): Promise<{ buffer?: Buffer; error?: string; status?: number }> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let target = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    const hostError = /^https?:$/.test(target.protocol) ? await checkHost(target.hostname) : UNSUPPORTED_INPUT;
+    if (hostError) return { error: hostError, status: 400 };
+    const res = await fetch(target, { redirect: 'manual', signal }).catch(() => undefined);
+    const location = res?.headers.get('location');
+    if (res && res.status >= 300 && res.status < 400 && location) {
+      if (redirects === MAX_REDIRECTS) return { error: 'Could not fetch the input image (too many redirects)', status: 400 };
+      target = new URL(location, target);
+      continue;
+    }
+    if (!res?.ok) {
+      return { error: `Could not fetch the input image${res ? ` (${res.status})` : ''}`, status: 400 };
+    }
+    if (Number(res.headers.get('content-length')) > INPUT_IMAGE_LIMITS.maxBytes) return tooLarge();
+    return readLimited(res);
+  }
+}
+
+async function readLimited(res: Response): Promise<{ buffer?: Buffer; error?: string; status?: number }> {
+  const reader = res.body?.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (let chunk = await reader?.read(); chunk && !chunk.done; chunk = await reader!.read()) {
+      size += chunk.value.length;
+      if (size > INPUT_IMAGE_LIMITS.maxBytes) {
+        await reader!.cancel().catch(() => undefined);
+        return tooLarge();
+      }
+      chunks.push(chunk.value);
+    }
+  } catch {
+    return { error: 'Could not fetch the input image', status: 400 };
+  }
+  return { buffer: Buffer.concat(chunks) };
+}
+
+// Why `hostname` may not be fetched: it doesn't resolve, or one of its
+// addresses is not public
+async function checkHost(hostname: string): Promise<string | undefined> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true }).catch(() => []);
+  if (addresses.length === 0) return 'Could not fetch the input image';
+  if (addresses.some(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+    return 'Input image URLs must point to a public host';
+  }
+  return undefined;
+}
+
+// Fetches a stored input image for providers that take its bytes, checked
+// again. Failures fail the job.
+export async function loadInputImage(url: string): Promise<ProviderImageFile> {
+  const { buffer, error, status } = await fetchImage(url);
+  if (!buffer) throw new ProviderError(error!, status);
+  const checked = checkImage(buffer);
+  if (checked.error) throw new ProviderError(checked.error, checked.status);
+  return { data: buffer, mimeType: checked.mimeType! };
+}
+
+// The type comes from the bytes, never from a header, a data URL or a file name
+function checkImage(buffer: Buffer): { mimeType?: string; error?: string; status?: number } {
+  if (buffer.length > INPUT_IMAGE_LIMITS.maxBytes) return tooLarge();
+  const info = sniffImage(buffer);
+  if (!info || !INPUT_IMAGE_TYPES.includes(info.mimeType)) {
+    return { error: 'Input images must be PNG, JPEG or WebP', status: 415 };
+  }
+  const { maxDimension } = INPUT_IMAGE_LIMITS;
+  if (info.width === 0 || info.height === 0 || info.width > maxDimension || info.height > maxDimension) {
+    return { error: `Input images can be at most ${maxDimension}×${maxDimension} pixels (this one is ${info.width}×${info.height})`, status: 400 };
+  }
+  return { mimeType: info.mimeType };
+}
+
+function tooLarge() {
+  return { error: `Input images can be at most ${INPUT_IMAGE_LIMITS.maxBytes / (1024 * 1024)} MB`, status: 413 };
+}
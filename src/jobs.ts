@@ -0,0 +1,477 @@
+import mime from 'mime';
+import { and, asc, eq, inArray, isNull, lt, lte, or, sql } from 'drizzle-orm';
+import { db } from "@/db";
+import { GenerationStatus, JobStage, JobStatus, jobsTable, usersTable } from "@/db/schema";
+import { advanceBatchItem, advanceWaitingBatches } from "@/batches";
+import { EnhanceMode, enhanceConfig, enhancePrompt } from "@/enhance";
+import { loadInputImage } from "@/image-input";
+import { sniffImage } from "@/images";
+import { findParentGenerations } from "@/lineage";
+import { GenerationMetadata, GenerationOutput, GenerationTiming, METADATA_VERSION } from "@/metadata";
+import { estimateCost, roundUsd } from "@/pricing";
+import { commitReservation, releaseReservation } from "@/quota";
+import { uploadFile } from "@/storage";
+import { countIgnoredImages, GenerationParams, getProvider, InputImage, isModelId, ModelId, ProviderError, ProviderImage, ProviderOutput, ProviderTask, TokenUsage } from "@/providers";
+
+export type Job = typeof jobsTable.$inferSelect;
+
+type Generation = typeof usersTable.$inferSelect;
+
+// `images` lists the input images in order, with their roles; `image` is the
+// first one (and the only one of jobs queued before there could be several)
+export type JobInput = { prompt: string; image?: string; images?: InputImage[]; enhance?: boolean; enhanceMode?: EnhanceMode; params?: GenerationParams };
+
+export function inputImages(input: JobInput): InputImage[] {
+  return input.images ?? (input.image ? [{ url: input.image }] : []);
+}
+
+// `image` is the first output; when a provider returns several, `images` and
+// `generationIds` list all of them (each output has its own generation row).
+// `costUsd` is the estimated cost of each of those generations and
+// `enhancedPrompt` the prompt the model received when enhancement was on.
+export type JobResult = { image?: string; images?: string[]; generationIds?: number[]; text?: string; tokens?: number; usage?: TokenUsage; costUsd?: number; enhancedPrompt?: string };
+
+// Progress reported while a job runs in-process: stage changes, plus partial text
+// for providers that stream it
+export type JobEvent =
+  | { type: 'stage'; jobId: string; stage: JobStage; result?: JobResult; error?: string }
+  | { type: 'text'; jobId: string; text: string };
+
+export type JobListener = (event: JobEvent) => void;
+
+// How long a worker owns a claimed job. A job whose worker died is picked up
+// again once its lock expires (until the job's deadline passes).
+const LOCK_MS = 5 * 60_000;
+// Due jobs looked at per claim attempt, in case other workers take the first ones
+const CLAIM_BATCH = 5;
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running'];
+// Longest wait between checks while following a job that is not yet due
+const FOLLOW_INTERVAL_MS = 1000;
+
+// `metadata` is stored on the generation row, along with the requested params
+// and the ones the provider ignored; the rest is filled in when the job finishes.
+// `batchItemId` links the job to the batch prompt it runs, `messageId` the
+// generation to the session turn that asked for it. When input images are
+// earlier outputs, the generation records theirs as `parentGenerationIds`.
+// `reservationId` is the quota reservation (see reserveQuota in src/quota.ts)
+// the job settles when it ends.
+export async function enqueueJob({ userId, model, input, metadata = {}, batchItemId, messageId, reservationId }: { userId: string; model: ModelId; input: JobInput; metadata?: Omit<GenerationMetadata, 'version'>; batchItemId?: number; messageId?: string; reservationId?: string }): Promise<Job> {
+  const provider = getProvider(model);
+  if (input.params && Object.keys(input.params).length > 0) {
+    metadata = { ...metadata, params: input.params, ignoredParams: provider.ignoredParams(input) };
+  }
+  const ignoredImages = countIgnoredImages(provider, input);
+  if (ignoredImages > 0) {
+    metadata = { ...metadata, ignoredImages };
+  }
+  const parentGenerationIds = await findParentGenerations(userId, inputImages(input).map(({ url }) => url));
+  const generationId = await createGeneration({
+    userId,
+    prompt: input.prompt,
+    inputImageUrl: input.image || '',
+    inputImages: inputImages(input),
+    model,
+    metadata: { version: METADATA_VERSION, ...metadata },
+    messageId,
+    parentGenerationId: parentGenerationIds[0],
+    parentGenerationIds,
+  });
+  const [job] = await db
+    .insert(jobsTable)
+    .values({
+      id: crypto.randomUUID(),
+      userId,
+      model,
+      status: 'queued',
+      stage: 'queued',
+      input,
+      generationId,
+      batchItemId,
+      reservationId,
+      deadlineAt: new Date(Date.now() + provider.timeoutMs),
+    })
+    .returning();
+  return job;
+}
+
+export async function getJob(id: string): Promise<Job | undefined> {
+  const [job] = await db.select().from(jobsTable).where(eq(jobsTable.id, id)).limit(1);
+  return job;
+}
+
+export function isJobDue(job: Job): boolean {
+  const now = Date.now();
+  return ACTIVE_STATUSES.includes(job.status as JobStatus)
+    && job.runAt.getTime() <= now
+    && (!job.lockedUntil || job.lockedUntil.getTime() < now);
+}
+
+// Public shape returned by the jobs API
+export function toJobResponse(job: Job) {
+  const input = job.input as JobInput;
+  return {
+    id: job.id,
+    model: job.model,
+    params: input.params ?? {},
+    ignoredParams: isModelId(job.model) ? getProvider(job.model).ignoredParams(input) : [],
+    ignoredImages: isModelId(job.model) ? countIgnoredImages(getProvider(job.model), input) : 0,
+    status: job.status as JobStatus,
+    stage: job.stage as JobStage,
+    generationId: job.generationId,
+    result: (job.result as JobResult | null) ?? undefined,
+    error: job.error || undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+// Runs one step of a specific job if it is due and not held by another worker.
+export async function runJob(id: string): Promise<boolean> {
+  const job = await claimJob(id);
+  if (!job) return false;
+  await processJob(job);
+  return true;
+}
+
+// Runs a job's remaining steps in this process, reporting progress as it goes,
+// until it completes or fails. Steps taken by another worker are reported from
+// the job row. Stops early (leaving the job to the worker) when `signal` aborts.
+export async function followJob(id: string, onEvent: JobListener, signal?: AbortSignal): Promise<Job | undefined> {
+  let lastStage: JobStage | undefined;
+  const report: JobListener = (event) => {
+    if (event.type === 'stage') lastStage = event.stage;
+    onEvent(event);
+  };
+  while (!signal?.aborted) {
+    const job = await getJob(id);
+    if (!job) return undefined;
+    if (job.stage !== lastStage) {
+      const { result, error } = toJobResponse(job);
+      report({ type: 'stage', jobId: id, stage: job.stage as JobStage, result, error });
+    }
+    if (!ACTIVE_STATUSES.includes(job.status as JobStatus)) return job;
+
+    const claimed = await claimJob(id);
+    if (claimed) {
+      await processJob(claimed, report);
+      continue;
+    }
+    const wait = Math.min(FOLLOW_INTERVAL_MS, Math.max(10, job.runAt.getTime() - Date.now()));
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+  return undefined;
+}
+
+// Claims and processes due jobs until the time budget runs out, and starts the
+// batch prompts that are waiting on the job limits. Used by the cron route and
+// the standalone worker script.
+export async function runWorker({ budgetMs, concurrency = 4, idleMs = 1000 }: { budgetMs: number; concurrency?: number; idleMs?: number }): Promise<number> {
+  const stopAt = Date.now() + budgetMs;
+  const inFlight = new Set<Promise<void>>();
+  let processed = 0;
+  while (Date.now() < stopAt) {
+    if (inFlight.size < concurrency) {
+      const job = await claimJob();
+      if (job) {
+        const step: Promise<void> = processJob(job).finally(() => inFlight.delete(step));
+        inFlight.add(step);
+        processed++;
+        continue;
+      }
+      // Nothing due: start batch prompts the job limits held back, if they fit now
+      const started = await advanceWaitingBatches().catch((err) => {
+        console.error('[batches] error:', err);
+        return [];
+      });
+      if (started.length > 0) continue;
+    }
+    const wait = Math.max(0, Math.min(idleMs, stopAt - Date.now()));
+    await Promise.race([new Promise((resolve) => setTimeout(resolve, wait)), ...inFlight]);
+  }
+  await Promise.all(inFlight);
+  return processed;
+}
+
+// Locks a due job (a specific one, or the oldest due one). The conditional
+// update makes the claim atomic, so two workers never run the same step.
+async function claimJob(id?: string): Promise<Job | undefined> {
+  const now = new Date();
+  const due = and(
+    inArray(jobsTable.status, ACTIVE_STATUSES),
+    lte(jobsTable.runAt, now),
+    or(isNull(jobsTable.lockedUntil), lt(jobsTable.lockedUntil, now)),
+  );
+  const candidates = id
+    ? [id]
+    : (await db.select({ id: jobsTable.id }).from(jobsTable).where(due).orderBy(asc(jobsTable.runAt)).limit(CLAIM_BATCH)).map((row) => row.id);
+  for (const candidate of candidates) {
+    const [job] = await db
+      .update(jobsTable)
+      .set({
+        lockedUntil: new Date(now.getTime() + LOCK_MS),
+        attempts: sql`${jobsTable.attempts} + 1`,
+        startedAt: sql`coalesce(${jobsTable.startedAt}, ${now.toISOString()}::timestamp)`,
+        updatedAt: now,
+      })
+      .where(and(eq(jobsTable.id, candidate), due))
+      .returning();
+    if (job) return job;
+  }
+  return undefined;
+}
+
+async function processJob(job: Job, onEvent?: JobListener) {
+  const input = job.input as JobInput;
+  const advance = async (stage: JobStage, patch: Parameters<typeof updateJob>[1] = {}) => {
+    await updateJob(job.id, { ...patch, stage });
+    onEvent?.({ type: 'stage', jobId: job.id, stage });
+  };
+  try {
+    if (!isModelId(job.model)) {
+      throw new ProviderError(`Unknown model: ${job.model}`, 400);
+    }
+    const provider = getProvider(job.model);
+    if (Date.now() > job.deadlineAt.getTime()) {
+      throw new ProviderError('Generation timed out', 504);
+    }
+
+    let output: ProviderOutput | null;
+    if (!job.task) {
+      let prompt = input.prompt;
+      let metadata: Partial<GenerationMetadata> | undefined;
+      if (input.enhance) {
+        await advance('enhancing');
+        const mode = input.enhanceMode ?? 'shared';
+        const enhancement = await enhancePrompt(prompt, enhanceConfig(mode, job.model));
+        if (enhancement) {
+          prompt = enhancement.prompt;
+          metadata = { enhancement: { mode, enhancer: enhancement.enhancer, cached: enhancement.cached } };
+        }
+      }
+      // The user's prompt stays in `prompt`; the enhanced text is stored next to it
+      await updateGeneration(job.generationId, { status: 'running', enhancedPrompt: prompt !== input.prompt ? prompt : undefined, metadata });
+
+      // Providers that upload images themselves get their bytes, fetched and checked here
+      const images = inputImages(input).slice(0, provider.maxInputImages);
+      const imageFiles = provider.takesImageFile
+        ? await Promise.all(images.map(async ({ url, role }) => ({ ...await loadInputImage(url), role })))
+        : undefined;
+      const providerInput = { prompt, image: input.image, images, imageFiles, params: input.params };
+      if (provider.submit && provider.poll) {
+        const task = await provider.submit(providerInput);
+        await advance('submitted', { status: 'running', task, submittedAt: new Date(), ...reschedule(provider.pollIntervalMs) });
+        return;
+      }
+      if (!provider.generate) {
+        throw new ProviderError(`Model ${job.model} cannot generate`, 500);
+      }
+      await advance('submitted', { status: 'running' });
+      output = await provider.generate(providerInput, {
+        onText: (text) => onEvent?.({ type: 'text', jobId: job.id, text }),
+      });
+    } else {
+      await advance('polling');
+      output = await provider.poll!(job.task as ProviderTask);
+      if (!output) {
+        await updateJob(job.id, reschedule(provider.pollIntervalMs));
+        return;
+      }
+    }
+
+    await advance('uploading');
+    const result = await finishJob(job, output);
+    await settleJobQuota(job, Boolean(result.image));
+    await settleBatchJob(job);
+    onEvent?.({ type: 'stage', jobId: job.id, stage: 'done', result });
+  } catch (err) {
+    const { message } = normalizeError(err);
+    await updateJob(job.id, { status: 'failed', stage: 'error', error: message.slice(0, 255), lockedUntil: null }).catch(() => {});
+    await updateGeneration(job.generationId, { status: 'failed', error: message, metadata: { timing: jobTiming(job) } }).catch(() => {});
+    await settleJobQuota(job, false);
+    await settleBatchJob(job);
+    onEvent?.({ type: 'stage', jobId: job.id, stage: 'error', error: message });
+  }
+}
+
+async function finishJob(job: Job, output: ProviderOutput): Promise<JobResult> {
+  // The call's cost is split evenly over the generations it produced
+  const estimate = isModelId(job.model) ? estimateCost(job.model, { outputs: output.images.length, usage: output.usage }) : null;
+  const cost = estimate
+    ? { costUsd: roundUsd(estimate.costUsd / Math.max(output.images.length, 1)), pricingVersion: estimate.pricingVersion }
+    : {};
+  const result: JobResult = {
+    text: output.text || undefined,
+    tokens: output.usage?.totalTokens,
+    usage: output.usage,
+    costUsd: cost.costUsd,
+  };
+  const metadata: Partial<GenerationMetadata> = { timing: jobTiming(job), usage: output.usage, provider: output.provider };
+  if (output.images.length > 0) {
+    const saved = await Promise.all(output.images.map((image, index) => saveImage(image, index)));
+    result.images = saved.map(({ url }) => url);
+    result.image = result.images[0];
+    const row = await updateGeneration(job.generationId, { status: 'completed', outputImageUrl: result.image, ...cost, metadata: { ...metadata, output: saved[0].output } });
+    result.enhancedPrompt = row?.enhancedPrompt ?? undefined;
+    result.generationIds = [job.generationId, ...await saveExtraOutputs(row, saved.slice(1), cost)].filter((id): id is number => id !== null);
+  } else if (result.text && result.text.trim().length > 0) {
+    // Text-only answers are returned to the client but still count as a failed generation
+    const row = await updateGeneration(job.generationId, { status: 'failed', error: 'No image was generated', ...cost, metadata });
+    result.enhancedPrompt = row?.enhancedPrompt ?? undefined;
+  } else {
+    throw new ProviderError('No image or text was generated', 500);
+  }
+  await updateJob(job.id, { status: 'completed', stage: 'done', result, lockedUntil: null });
+  return result;
+}
+
+// Charges the job's quota units when it produced an image and gives them back
+// otherwise, the same way failed generations never counted
+async function settleJobQuota(job: Job, completed: boolean) {
+  if (job.reservationId === null) return;
+  const settle = completed ? commitReservation : releaseReservation;
+  await settle(job.reservationId).catch((err) => console.error('[quota] error:', err));
+}
+
+// Lets the batch a finished job belongs to start its next prompts
+async function settleBatchJob(job: Job) {
+  if (job.batchItemId === null) return;
+  await advanceBatchItem(job.batchItemId).catch((err) => console.error('[batches] error:', err));
+}
+
+// Server-side timings of a job up to now
+function jobTiming(job: Job): GenerationTiming {
+  const now = Date.now();
+  return {
+    durationMs: now - job.createdAt.getTime(),
+    queueMs: job.startedAt ? job.startedAt.getTime() - job.createdAt.getTime() : undefined,
+    pollMs: job.submittedAt ? now - job.submittedAt.getTime() : undefined,
+  };
+}
+
+function reschedule(delayMs = 1000) {
+  return { runAt: new Date(Date.now() + delayMs), lockedUntil: null };
+}
+
+async function updateJob(id: string, patch: Partial<Omit<typeof jobsTable.$inferInsert, 'status' | 'stage'>> & { status?: JobStatus; stage?: JobStage }) {
+  await db
+    .update(jobsTable)
+    .set({ ...patch, updatedAt: new Date() })
+    .where(eq(jobsTable.id, id));
+}
+
+async function createGeneration(values: Pick<typeof usersTable.$inferInsert, 'userId' | 'prompt' | 'inputImageUrl' | 'inputImages' | 'model' | 'metadata' | 'messageId' | 'parentGenerationId' | 'parentGenerationIds'>): Promise<number> {
+  const [row] = await db
+    .insert(usersTable)
+    .values({ ...values, outputImageUrl: '', status: 'pending', error: '' })
+    .returning({ id: usersTable.id });
+  return row.id;
+}
+
+// Outputs beyond the first become completed generations of their own, copying
+// the job's generation (prompts, model, metadata) and noting their output index
+async function saveExtraOutputs(source: Generation | undefined, outputs: SavedImage[], cost: Pick<typeof usersTable.$inferInsert, 'costUsd' | 'pricingVersion'>): Promise<number[]> {
+  if (outputs.length === 0 || !source) return [];
+  const rows = await db
+    .insert(usersTable)
+    .values(outputs.map(({ url, output }, i) => ({
+      userId: source.userId,
+      prompt: source.prompt,
+      enhancedPrompt: source.enhancedPrompt,
+      inputImageUrl: source.inputImageUrl,
+      inputImages: source.inputImages,
+      outputImageUrl: url,
+      model: source.model,
+      messageId: source.messageId,
+      parentGenerationId: source.parentGenerationId,
+      parentGenerationIds: source.parentGenerationIds,
+      status: 'completed',
+      error: '',
+      metadata: { ...source.metadata, outputIndex: i + 1, output },
+      ...cost,
+    })))
+    .returning({ id: usersTable.id });
+  return rows.map((row) => row.id);
+}
+
+async function updateGeneration(
+  id: number | null,
+  { metadata, ...patch }: Partial<Pick<typeof usersTable.$inferInsert, 'enhancedPrompt' | 'outputImageUrl' | 'error' | 'costUsd' | 'pricingVersion'>> & { status: GenerationStatus; metadata?: Partial<GenerationMetadata> },
+): Promise<Generation | undefined> {
+  if (id === null) return undefined;
+  const [row] = await db
+    .update(usersTable)
+    .set({
+      ...patch,
+      error: patch.error?.slice(0, 255),
+      enhancedPrompt: patch.enhancedPrompt?.slice(0, 2000),
+      // Merged into the stored metadata rather than replacing it
+      metadata: metadata ? sql`${usersTable.metadata} || ${JSON.stringify(metadata)}::jsonb` : undefined,
+      updatedAt: new Date(),
+    })
+    .where(eq(usersTable.id, id))
+    .returning();
+  return row;
+}
+
+function normalizeError(err: unknown): { message: string; status: number; details?: unknown } {
+  if (err instanceof ProviderError) {
+    return { message: err.message, status: err.status, details: err.details };
+  }
+  return { message: err instanceof Error ? err.message : 'Unexpected error', status: 500 };
+}
+
+type SavedImage = { url: string; output: GenerationOutput };
+
+// Copy a provider image into object storage. Falls back to the provider URL
+// (or a data URL for inline bytes) when the upload fails.
+async function saveImage(image: ProviderImage, index: number): Promise<SavedImage> {
+  let mimeType = 'image/png';
+  let buffer: Buffer | undefined;
+  let fallbackUrl: string;
+
+  if ('data' in image) {
+    mimeType = image.mimeType || mimeType;
+    buffer = Buffer.from(image.data, 'base64');
+    fallbackUrl = `data:${mimeType};base64,${image.data}`;
+  } else {
+    fallbackUrl = image.url;
+    try {
+      if (/^data:/i.test(image.url)) {
+        const [header = '', b64 = ''] = image.url.split(',');
+        const headerMime = header.split(';')[0]?.replace('data:', '') || '';
+        if (headerMime) mimeType = headerMime;
+        if (b64) buffer = Buffer.from(b64, 'base64');
+      } else {
+        const res = await fetch(image.url);
+        if (res.ok) {
+          const contentType = res.headers.get('content-type');
+          if (contentType) {
+            mimeType = contentType;
+          } else {
+            try {
+              mimeType = mime.getType(new URL(image.url).pathname) || 'image/png';
+            } catch {
+              mimeType = 'image/png';
+            }
+          }
+          buffer = Buffer.from(await res.arrayBuffer());
+        }
+      }
+    } catch {
+      // ignore download errors; we'll fall back to the provider URL
+    }
+  }
+
+  if (!buffer) return { url: fallbackUrl, output: { mimeType } };
+  // The bytes decide the type and size; provider headers are sometimes generic
+  const info = sniffImage(buffer);
+  const output: GenerationOutput = info ? { ...info, bytes: buffer.length } : { mimeType, bytes: buffer.length };
+  const randomImageName = Math.random().toString(36).substring(2, 15);
+  const ext = mime.getExtension(mimeType) || 'png';
+  try {
+    const url = await uploadFile(`${randomImageName}.${index}.${ext}`, buffer, mimeType);
+    return { url: url || fallbackUrl, output };
+  } catch {
+    return { url: fallbackUrl, output };
+  }
+}
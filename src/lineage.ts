@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { auth } from '@clerk/nextjs/server';
+import { and, arrayOverlaps, asc, desc, eq, inArray, or } from 'drizzle-orm';
+import { db } from "@/db";
+import { GenerationStatus, usersTable } from "@/db/schema";
+
+// Rounds of editing followed in either direction, in case of very long chains
+const MAX_DEPTH = 50;
+
+type Generation = typeof usersTable.$inferSelect;
+
+// The user's generations that produced any of `imageUrls`, when earlier
+// outputs are used as input images again, in the order of the images
+export async function findParentGenerations(userId: string, imageUrls: string[]): Promise<number[]> {
+  if (imageUrls.length === 0) return [];
+  const rows = await db.select({ id: usersTable.id, outputImageUrl: usersTable.outputImageUrl }).from(usersTable)
+    .where(and(eq(usersTable.userId, userId), inArray(usersTable.outputImageUrl, imageUrls)))
+    .orderBy(desc(usersTable.id));
+  const ids = imageUrls.flatMap((url) => rows.find((row) => row.outputImageUrl === url)?.id ?? []);
+  return [...new Set(ids)];
+}
+
+export type LineageNode = {
+  id: number;
+  model: string;
+  prompt: string;
+  status: GenerationStatus;
+  inputImageUrl: string | null;
+  outputImageUrl: string | null;
+  createdAt: Date;
+  // Edits made from this generation's output, oldest first
+  children: LineageNode[];
+};
+
+async function getOwnGeneration(id: number, userId: string): Promise<Generation | undefined> {
+  const [row] = await db.select().from(usersTable).where(and(eq(usersTable.id, id), eq(usersTable.userId, userId)));
+  return row;
+}
+
+// The whole edit tree a generation belongs to: up to the generation the chain
+// started from (following the first input image), then down through every edit
+// made from it, on any model. An edit made from several outputs of the tree is
+// shown under each of them.
+export async function getLineage(id: number, userId: string): Promise<LineageNode | undefined> {
+  let root = await getOwnGeneration(id, userId);
+  if (!root) return undefined;
+  for (let depth = 0; root.parentGenerationId !== null && depth < MAX_DEPTH; depth++) {
+    const parent = await getOwnGeneration(root.parentGenerationId, userId);
+    if (!parent) break;
+    root = parent;
+  }
+
+  const rows = [root];
+  let round = [root.id];
+  for (let depth = 0; round.length > 0 && depth < MAX_DEPTH; depth++) {
+    const children = await db.select().from(usersTable)
+      .where(and(eq(usersTable.userId, userId), or(inArray(usersTable.parentGenerationId, round), arrayOverlaps(usersTable.parentGenerationIds, round))))
+      .orderBy(asc(usersTable.id));
+    const added = children.filter((child) => !rows.some((row) => row.id === child.id));
+    rows.push(...added);
+    round = added.map((child) => child.id);
+  }
+
+  const toNode = (row: Generation): LineageNode => ({
+    id: row.id,
+    model: row.model,
+    prompt: row.prompt,
+    status: row.status as GenerationStatus,
+    inputImageUrl: row.inputImageUrl || null,
+    outputImageUrl: row.outputImageUrl || null,
+    createdAt: row.createdAt,
+    children: rows.filter((child) => child.parentGenerationId === row.id || child.parentGenerationIds.includes(row.id)).map(toNode),
+  });
+  return toNode(root);
+}
+
+export async function handleGetLineage(id: number) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const root = await getLineage(id, userId);
+  if (!root) {
+    return NextResponse.json({ error: 'Generation not found' }, { status: 404 });
+  }
+  return NextResponse.json({ generationId: id, root });
+}
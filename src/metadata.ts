@@ -0,0 +1,54 @@
+import type { EnhancerId, EnhanceMode } from "@/enhance";
+import type { TemplateValues } from "@/prompt-template";
+import type { GenerationParams, ModelId, ParamName, ProviderDetails, TokenUsage } from "@/providers";
+
+// Bumped when the shape below changes incompatibly; older rows are brought up
+// to date by a migration (drizzle/0007_generation_metadata.sql for version 1).
+export const METADATA_VERSION = 1 as const;
+
+// Stored for blind comparisons: where the variant was shown and under which
+// label, so analysis can correct for position bias.
+export type BlindAssignment = { comparisonId: string; label: string; position: number; order: ModelId[] };
+
+// Server-side timings in milliseconds. `durationMs` runs from the request to the
+// generation's final status, `queueMs` until a worker started on it and
+// `pollMs` is the time spent waiting on a submit/poll provider.
+export type GenerationTiming = { durationMs: number; queueMs?: number; pollMs?: number };
+
+export type TemplateUse = { id?: number; name?: string; body: string; values: TemplateValues };
+
+export type GenerationOutput = { mimeType: string; bytes?: number; width?: number; height?: number };
+
+// Shape of generations.metadata. Each part is filled in when it becomes known:
+// request details on insert, the rest when the provider has answered.
+export type GenerationMetadata = {
+  version: typeof METADATA_VERSION;
+  params?: GenerationParams;
+  ignoredParams?: ParamName[];
+  // Input images the model left out, past the number it takes
+  ignoredImages?: number;
+  blind?: BlindAssignment;
+  // Position among the `n` samples requested for the model
+  sample?: { index: number; count: number };
+  // Raw-vs-enhanced comparison: the same model run once with the prompt as
+  // written and once enhanced
+  enhanceComparison?: { comparisonId: string; enhanced: boolean };
+  // How the prompt was enhanced; `cached` when an earlier identical request's
+  // result was reused
+  enhancement?: { mode: EnhanceMode; enhancer: EnhancerId; cached: boolean };
+  // Template the prompt was rendered from: the saved template's id and name, or
+  // just the body for a template typed in without saving
+  template?: TemplateUse;
+  // Batch run item the generation belongs to, with the item's tags
+  batch?: { batchId: string; itemId: number; tags: string[] };
+  // Set on generations made from the second and later images of one provider call
+  outputIndex?: number;
+  // Generation this one re-ran with the same prompt, image and settings
+  rerunOf?: number;
+  timing?: GenerationTiming;
+  usage?: TokenUsage;
+  provider?: ProviderDetails;
+  output?: GenerationOutput;
+  // Set by the migration on rows whose values were reconstructed afterwards
+  backfilled?: boolean;
+};
@@ -0,0 +1,99 @@
+import { and, desc, eq, isNotNull, sql } from 'drizzle-orm';
+import { db } from "@/db";
+import { usersTable } from "@/db/schema";
+import { isModelId, ModelId, providers, TokenUsage } from "@/providers";
+
+// Prices in USD. Token prices are per million tokens; models billed per output
+// use `perImage`, and video models `perSecond` times the clip length.
+export type ModelPrice = {
+  inputPerMillionTokens?: number;
+  outputPerMillionTokens?: number;
+  perImage?: number;
+  perSecond?: number;
+  secondsPerOutput?: number;
+};
+
+export type PricingVersion = {
+  version: string;
+  // First day (UTC) the prices apply
+  effectiveFrom: string;
+  models: Record<ModelId, ModelPrice>;
+};
+
+// Oldest first. When a provider changes its prices, append a new version rather
+// than editing one: generations keep the version they were priced with.
+export const PRICING: PricingVersion[] = [
+  {
+    version: '2025-08',
+    effectiveFrom: '2025-08-01',
+    models: {
+      // FLUX.1 Kontext [pro]
+      'flux-1': { perImage: 0.04 },
+      // gemini-2.5-flash-image-preview: an image is 1290 output tokens
+      'gemini-image-flash': { inputPerMillionTokens: 0.3, outputPerMillionTokens: 30, perImage: 0.039 },
+      // gpt-image-1; `perImage` (medium, 1024x1024) is used when no usage is reported
+      'image-gpt': { inputPerMillionTokens: 5, outputPerMillionTokens: 40, perImage: 0.042 },
+      // veo-3.0-generate-preview renders 8 second clips
+      'veo-3': { perSecond: 0.75, secondsPerOutput: 8 },
+    },
+  },
+];
+
+export function pricingAt(at: Date = new Date()): PricingVersion {
+  const day = at.toISOString().slice(0, 10);
+  return [...PRICING].reverse().find((p) => p.effectiveFrom <= day) ?? PRICING[0];
+}
+
+export type CostEstimate = { costUsd: number; pricingVersion: string };
+
+// Cost of one provider call. Token usage is preferred when the model has token
+// prices and the provider reported it; otherwise outputs are counted.
+export function estimateCost(model: ModelId, { outputs, usage }: { outputs: number; usage?: TokenUsage }, at?: Date): CostEstimate {
+  const pricing = pricingAt(at);
+  const price = pricing.models[model];
+  let costUsd = 0;
+  const hasTokens = typeof usage?.inputTokens === 'number' || typeof usage?.outputTokens === 'number';
+  if (hasTokens && (price.inputPerMillionTokens !== undefined || price.outputPerMillionTokens !== undefined)) {
+    costUsd += ((usage?.inputTokens ?? 0) * (price.inputPerMillionTokens ?? 0)) / 1_000_000;
+    costUsd += ((usage?.outputTokens ?? 0) * (price.outputPerMillionTokens ?? 0)) / 1_000_000;
+  } else if (price.perImage !== undefined) {
+    costUsd += outputs * price.perImage;
+  }
+  if (price.perSecond !== undefined) {
+    costUsd += outputs * price.perSecond * (price.secondsPerOutput ?? 0);
+  }
+  return { costUsd: roundUsd(costUsd), pricingVersion: pricing.version };
+}
+
+// Stored with six decimals, matching the cost_usd column
+export function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+export type SpendRow = { model: string; label: string; generations: number; costUsd: number };
+
+export type SpendSummary = { totalUsd: number; generations: number; models: SpendRow[] };
+
+// Spend of one user (or everyone), per model. Only priced generations count.
+export async function getSpendSummary(userId?: string): Promise<SpendSummary> {
+  const costUsd = sql<number>`coalesce(sum(${usersTable.costUsd}), 0)`.mapWith(Number);
+  const generations = sql<number>`count(*)`.mapWith(Number);
+  const rows = await db
+    .select({ model: usersTable.model, generations, costUsd })
+    .from(usersTable)
+    .where(and(isNotNull(usersTable.costUsd), userId ? eq(usersTable.userId, userId) : undefined))
+    .groupBy(usersTable.model)
+    .orderBy(desc(costUsd));
+
+  const models = rows.map((row) => ({
+    model: row.model,
+    label: isModelId(row.model) ? providers[row.model].label : row.model,
+    generations: row.generations,
+    costUsd: roundUsd(row.costUsd),
+  }));
+  return {
+    totalUsd: roundUsd(models.reduce((sum, row) => sum + row.costUsd, 0)),
+    generations: models.reduce((sum, row) => sum + row.generations, 0),
+    models,
+  };
+}
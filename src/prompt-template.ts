@@ -0,0 +1,44 @@
+// Prompt templates: text with `{{name}}` variables. Shared by the UI, which
+// expands a template into a batch, and the server, which checks that a prompt
+// was produced by the template and values it claims.
+
+export type TemplateValues = Record<string, string>;
+
+// Value lists per variable; a template expands to every combination
+export type TemplateValueLists = Record<string, string[]>;
+
+// Upper bound on the prompts one expansion may produce
+export const MAX_BATCH_PROMPTS = 24;
+
+const VARIABLE = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+// Variable names in order of first appearance
+export function templateVariables(body: string): string[] {
+  return [...new Set(Array.from(body.matchAll(VARIABLE), (match) => match[1]))];
+}
+
+// Fills in every variable; variables without a value are left as written
+export function renderTemplate(body: string, values: TemplateValues): string {
+  return body.replace(VARIABLE, (match, name: string) => (Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match));
+}
+
+// A value list as typed in the UI: values separated by `|`
+export function parseValueList(text: string): string[] {
+  return [...new Set(text.split('|').map((value) => value.trim()).filter(Boolean))];
+}
+
+// The Cartesian product of the value lists, rendered. Variables without values
+// make the product empty.
+export function expandTemplate(body: string, lists: TemplateValueLists): { prompt: string; values: TemplateValues }[] {
+  let combinations: TemplateValues[] = [{}];
+  for (const name of templateVariables(body)) {
+    const options = lists[name] ?? [];
+    combinations = combinations.flatMap((values) => options.map((value) => ({ ...values, [name]: value })));
+  }
+  return combinations.map((values) => ({ prompt: renderTemplate(body, values), values }));
+}
+
+// Size of the expansion without building it
+export function batchSize(body: string, lists: TemplateValueLists): number {
+  return templateVariables(body).reduce((size, name) => size * (lists[name]?.length ?? 0), 1);
+}
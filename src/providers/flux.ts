@@ -0,0 +1,133 @@
+import { GenerationParams, ignoredExcept, ParamName } from './params';
+import { ImageProvider, ProviderError, ProviderInput, ProviderTask } from './types';
+
+const BFL_BASE_URL = 'https://api.bfl.ai';
+
+const OK_STATUSES = new Set(['Ready', 'Completed', 'Complete', 'Success', 'Succeeded']);
+const FAILED_STATUSES = new Set(['Error', 'Failed']);
+
+function getApiKey(): string {
+  const apiKey = process.env.BFL_API_KEY || process.env.BFL_KEY;
+  if (!apiKey) {
+    throw new ProviderError('Missing BFL_API_KEY', 500);
+  }
+  return apiKey;
+}
+
+// BFL_BASE_URL points the provider at another BFL-compatible server (e.g. the
+// offline fakes in tests/fakes); poll timing is overridable for the same reason.
+function getEndpoint(): string {
+  const baseUrl = (process.env.BFL_BASE_URL || BFL_BASE_URL).replace(/\/$/, '');
+  return `${baseUrl}/v1/flux-kontext-pro`;
+}
+
+// The BFL task id, from the submit response or else the polling URL's `id`
+function taskId(task: ProviderTask): string | undefined {
+  if (typeof task.id === 'string' && task.id) return task.id;
+  try {
+    return new URL(String(task.pollingUrl)).searchParams.get('id') || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+type FluxParams = {
+  aspect_ratio?: string;
+  seed?: number;
+  output_format?: 'png' | 'jpeg';
+  safety_tolerance?: number;
+};
+
+// Kontext takes any ratio between 21:9 and 9:21 and picks its own (~1MP) size
+function mapParams(params: GenerationParams = {}): { fields: FluxParams; handled: ParamName[] } {
+  const fields: FluxParams = {};
+  const handled: ParamName[] = [];
+  if (params.aspectRatio) {
+    fields.aspect_ratio = params.aspectRatio;
+    handled.push('aspectRatio');
+  }
+  if (params.seed !== undefined) {
+    fields.seed = params.seed;
+    handled.push('seed');
+  }
+  if (params.outputFormat === 'png' || params.outputFormat === 'jpeg') {
+    fields.output_format = params.outputFormat;
+    handled.push('outputFormat');
+  }
+  if (params.safetyTolerance !== undefined) {
+    fields.safety_tolerance = params.safetyTolerance;
+    handled.push('safetyTolerance');
+  }
+  return { fields, handled };
+}
+
+export const fluxProvider: ImageProvider = {
+  id: 'flux-1',
+  label: 'Flux-1',
+  get timeoutMs() {
+    return Number(process.env.BFL_POLL_TIMEOUT_MS) || 60_000;
+  },
+  get pollIntervalMs() {
+    return Number(process.env.BFL_POLL_INTERVAL_MS) || 500;
+  },
+  maxInputImages: 1,
+
+  ignoredParams({ params }: ProviderInput) {
+    return ignoredExcept(params, mapParams(params).handled);
+  },
+
+  async submit({ prompt, image, params }) {
+    const apiKey = getApiKey();
+
+    type FluxRequestBody = FluxParams & { prompt: string; input_image?: string };
+    const fluxBody: FluxRequestBody = { prompt, ...mapParams(params).fields };
+    if (image) {
+      fluxBody.input_image = image;
+    }
+
+    const submitRes = await fetch(getEndpoint(), {
+      method: 'POST',
+      headers: {
+        'accept': 'application/json',
+        'Content-Type': 'application/json',
+        'x-key': apiKey,
+      },
+      body: JSON.stringify(fluxBody),
+    });
+    if (!submitRes.ok) {
+      const text = await submitRes.text().catch(() => '');
+      throw new ProviderError('BFL submit failed', 502, { status: submitRes.status, body: text || undefined });
+    }
+    const submitJson = (await submitRes.json()) as { id?: string; polling_url?: string };
+    const pollingUrl: string | undefined = submitJson?.polling_url;
+    if (!pollingUrl) {
+      throw new ProviderError('No polling URL returned', 502);
+    }
+    return { id: submitJson.id ?? null, pollingUrl };
+  },
+
+  async poll(task) {
+    const apiKey = getApiKey();
+    const pollRes = await fetch(String(task.pollingUrl), {
+      headers: {
+        'accept': 'application/json',
+        'x-key': apiKey,
+      },
+    });
+    if (!pollRes.ok) {
+      const text = await pollRes.text().catch(() => '');
+      throw new ProviderError('BFL polling failed', 502, { status: pollRes.status, body: text || undefined });
+    }
+
+    const pollJson = (await pollRes.json()) as { status?: string; result?: { sample?: string; url?: string; image?: string } };
+    if (pollJson.status && OK_STATUSES.has(pollJson.status)) {
+      const url = pollJson.result?.sample || pollJson.result?.url || pollJson.result?.image;
+      return { images: url ? [{ url }] : [], provider: { model: 'flux-kontext-pro', taskId: taskId(task) } };
+    }
+    if (pollJson.status && FAILED_STATUSES.has(pollJson.status)) {
+      throw new ProviderError('Generation failed', 500, pollJson);
+    }
+    // Still pending
+    return null;
+  },
+};
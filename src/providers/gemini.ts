@@ -0,0 +1,135 @@
+import { GoogleGenAI, HarmBlockThreshold, HarmCategory, SafetySetting } from '@google/genai';
+import { promptWithImageRoles } from './images';
+import { GenerationParams, ignoredExcept, ParamName } from './params';
+import { ImageProvider, ProviderError, ProviderImage, ProviderInput } from './types';
+
+const MODEL = 'gemini-2.5-flash-image-preview';
+
+export function getClient(): GoogleGenAI {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    console.error('Missing GEMINI_API_KEY. Set it in your environment or a .env file.');
+    throw new ProviderError('Server misconfiguration: missing GEMINI_API_KEY', 500);
+  }
+  const baseUrl = process.env.GEMINI_BASE_URL;
+  return new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+}
+
+const SAFETY_CATEGORIES = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+];
+
+function safetyThreshold(tolerance: number): HarmBlockThreshold {
+  if (tolerance <= 1) return HarmBlockThreshold.BLOCK_LOW_AND_ABOVE;
+  if (tolerance <= 3) return HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE;
+  if (tolerance <= 5) return HarmBlockThreshold.BLOCK_ONLY_HIGH;
+  return HarmBlockThreshold.BLOCK_NONE;
+}
+
+// The image preview model has no size, ratio, quality or format settings; it
+// does take a sampling seed and per-category safety thresholds.
+function mapParams(params: GenerationParams = {}): { fields: { seed?: number; safetySettings?: SafetySetting[] }; handled: ParamName[] } {
+  const fields: { seed?: number; safetySettings?: SafetySetting[] } = {};
+  const handled: ParamName[] = [];
+  if (params.seed !== undefined) {
+    fields.seed = params.seed;
+    handled.push('seed');
+  }
+  if (params.safetyTolerance !== undefined) {
+    const threshold = safetyThreshold(params.safetyTolerance);
+    fields.safetySettings = SAFETY_CATEGORIES.map((category) => ({ category, threshold }));
+    handled.push('safetyTolerance');
+  }
+  return { fields, handled };
+}
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini-image-flash',
+  label: 'Gemini',
+  timeoutMs: 5 * 60_000,
+  takesImageFile: true,
+  // Gemini 2.5 Flash Image works best with up to three
+  maxInputImages: 3,
+
+  ignoredParams({ params }: ProviderInput) {
+    return ignoredExcept(params, mapParams(params).handled);
+  },
+
+  async generate({ prompt, imageFiles = [], params }, hooks) {
+    const ai = getClient();
+
+    // contents can be a plain string (text-only) or a structured content array
+    type UserContent = { role: 'user'; parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }>; };
+    let contents: string | UserContent[] = prompt;
+    if (imageFiles.length > 0) {
+      contents = [
+        {
+          role: 'user',
+          parts: [
+            { text: promptWithImageRoles(prompt, imageFiles.map(({ role }) => role)) },
+            ...imageFiles.map(({ data, mimeType }) => ({ inlineData: { mimeType, data: data.toString('base64') } })),
+          ],
+        },
+      ];
+    }
+
+    const response = await ai.models.generateContentStream({
+      model: MODEL,
+      config: {
+        responseModalities: ['IMAGE', 'TEXT'],
+        ...mapParams(params).fields,
+      },
+      contents,
+    });
+
+    const images: ProviderImage[] = [];
+    let fullText = '';
+    // Track token usage if provided by the API
+    let promptTokenCount: number | undefined;
+    let candidatesTokenCount: number | undefined;
+    let totalTokenCount: number | undefined;
+    type UsageMetadata = { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+    type InlineData = { mimeType?: string; data?: string };
+    type Part = { text?: string; inlineData?: InlineData };
+    type CandidateContent = { parts?: Part[] };
+    type Candidate = { content?: CandidateContent; usageMetadata?: UsageMetadata };
+    type StreamChunk = { candidates?: Candidate[]; text?: string; usageMetadata?: UsageMetadata; responseId?: string; modelVersion?: string };
+    let responseId: string | undefined;
+    let modelVersion: string | undefined;
+    for await (const chunk of response as AsyncIterable<StreamChunk>) {
+      responseId = chunk.responseId || responseId;
+      modelVersion = chunk.modelVersion || modelVersion;
+      if (!chunk.candidates || !chunk.candidates[0]?.content || !chunk.candidates[0]?.content?.parts) {
+        continue;
+      }
+      // Capture usage metadata when available (usually present on terminal chunks)
+      const usage: UsageMetadata | undefined = chunk.usageMetadata || chunk.candidates?.[0]?.usageMetadata;
+      if (usage) {
+        if (typeof usage.promptTokenCount === 'number') promptTokenCount = usage.promptTokenCount;
+        if (typeof usage.candidatesTokenCount === 'number') candidatesTokenCount = usage.candidatesTokenCount;
+        if (typeof usage.totalTokenCount === 'number') totalTokenCount = usage.totalTokenCount;
+      }
+      const inlineData = chunk.candidates[0].content.parts[0]?.inlineData;
+      if (inlineData) {
+        images.push({ data: inlineData.data || '', mimeType: inlineData.mimeType || 'image/png' });
+      } else if (typeof chunk.text === 'string' && chunk.text.length > 0) {
+        fullText += chunk.text;
+        hooks?.onText?.(chunk.text);
+      }
+    }
+
+    return {
+      images,
+      text: fullText || undefined,
+      usage: {
+        inputTokens: promptTokenCount,
+        outputTokens: candidatesTokenCount,
+        totalTokens: totalTokenCount,
+      },
+      provider: { model: modelVersion || MODEL, requestId: responseId },
+    };
+  },
+};
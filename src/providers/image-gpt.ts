@@ -0,0 +1,121 @@
+import OpenAI, { toFile } from 'openai';
+import { promptWithImageRoles } from './images';
+import { GenerationParams, ignoredExcept, ParamName } from './params';
+import { ImageProvider, ProviderError, ProviderInput } from './types';
+
+const MODEL = 'gpt-image-1';
+
+export function getClient(): OpenAI {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    console.error('Missing OPENAI_API_KEY. Set it in your environment or a .env file.');
+    throw new ProviderError('Server misconfiguration: missing OPENAI_API_KEY', 500);
+  }
+  return new OpenAI({ apiKey, baseURL: process.env.OPENAI_BASE_URL || undefined });
+}
+
+const SIZES: Partial<Record<string, '1024x1024' | '1536x1024' | '1024x1536'>> = {
+  '1:1': '1024x1024',
+  '3:2': '1536x1024',
+  '2:3': '1024x1536',
+};
+
+type ImageGptParams = {
+  size?: '1024x1024' | '1536x1024' | '1024x1536';
+  quality?: 'low' | 'medium' | 'high';
+  output_format?: 'png' | 'jpeg' | 'webp';
+  moderation?: 'low' | 'auto';
+};
+
+// gpt-image-1 has three fixed sizes, so the aspect ratio picks one of them and
+// the output size cannot be chosen. Edits take neither the format nor the
+// moderation level.
+function mapParams(params: GenerationParams = {}, edit = false): { fields: ImageGptParams; handled: ParamName[] } {
+  const fields: ImageGptParams = {};
+  const handled: ParamName[] = [];
+  const size = params.aspectRatio ? SIZES[params.aspectRatio] : undefined;
+  if (size) {
+    fields.size = size;
+    handled.push('aspectRatio');
+  }
+  if (params.quality) {
+    fields.quality = params.quality;
+    handled.push('quality');
+  }
+  if (!edit && params.outputFormat) {
+    fields.output_format = params.outputFormat;
+    handled.push('outputFormat');
+  }
+  if (!edit && params.safetyTolerance !== undefined) {
+    // "low" is OpenAI's less restrictive filtering; the upper half of the scale maps to it
+    fields.moderation = params.safetyTolerance >= 4 ? 'low' : 'auto';
+    handled.push('safetyTolerance');
+  }
+  return { fields, handled };
+}
+
+export const imageGptProvider: ImageProvider = {
+  id: 'image-gpt',
+  label: 'Image-GPT',
+  timeoutMs: 5 * 60_000,
+  takesImageFile: true,
+  maxInputImages: 16,
+
+  ignoredParams({ params, image }: ProviderInput) {
+    return ignoredExcept(params, mapParams(params, Boolean(image)).handled);
+  },
+
+  async generate({ prompt, image, imageFiles = [], params }) {
+    const openai = getClient();
+    const { fields } = mapParams(params, Boolean(image));
+
+    let response: OpenAI.Images.ImagesResponse & { _request_id?: string | null };
+    try {
+      if (imageFiles.length > 0) {
+        response = await openai.images.edit({
+          model: MODEL,
+          prompt: promptWithImageRoles(prompt, imageFiles.map(({ role }) => role)),
+          image: await Promise.all(imageFiles.map(({ data, mimeType }, i) => toFile(data, `input-${i + 1}.${mimeType.split('/')[1]}`, { type: mimeType }))),
+          ...fields,
+        });
+      } else {
+        response = await openai.images.generate({
+          model: MODEL,
+          prompt,
+          ...fields,
+        });
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unexpected error';
+      throw new ProviderError(message, 500);
+    }
+
+    const images = (response.data || [])
+      .map((d) => (typeof d.b64_json === 'string' && d.b64_json.length > 0
+        ? { data: d.b64_json, mimeType: `image/${fields.output_format || 'png'}` }
+        : typeof d.url === 'string' && d.url.length > 0 ? { url: d.url } : undefined))
+      .filter((d) => d !== undefined);
+
+    // Extract token usage if available
+    const rawUsage = (response.usage ?? {}) as {
+      input_tokens?: number;
+      prompt_tokens?: number;
+      output_tokens?: number;
+      completion_tokens?: number;
+      total_tokens?: number;
+    };
+    const inputTokens: number | undefined = rawUsage.input_tokens ?? rawUsage.prompt_tokens;
+    const outputTokens: number | undefined = rawUsage.output_tokens ?? rawUsage.completion_tokens;
+    const totalTokens: number | undefined = rawUsage.total_tokens ?? (
+      typeof inputTokens === 'number' && typeof outputTokens === 'number'
+        ? inputTokens + outputTokens
+        : undefined
+    );
+
+    return {
+      images,
+      usage: { inputTokens, outputTokens, totalTokens },
+      provider: { model: MODEL, requestId: response._request_id ?? undefined },
+    };
+  },
+};
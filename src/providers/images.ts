@@ -0,0 +1,29 @@
+// Input images of a generation. Each may say what it is for; models that
+// take several images get the roles spelled out in the prompt.
+
+export const IMAGE_ROLES = ['subject', 'style', 'background'] as const;
+export type ImageRole = typeof IMAGE_ROLES[number];
+
+// Most input images one request can carry
+export const MAX_INPUT_IMAGES = 4;
+
+// An input image as stored on the job and the generation: its public URL
+// (see ingestImages in src/image-input.ts) and optional role
+export type InputImage = { url: string; role?: ImageRole };
+
+export function isImageRole(value: unknown): value is ImageRole {
+  return typeof value === 'string' && (IMAGE_ROLES as readonly string[]).includes(value);
+}
+
+const ROLE_DESCRIPTIONS: Record<ImageRole, string> = {
+  subject: 'the subject',
+  style: 'the style reference',
+  background: 'the background',
+};
+
+// Appends what each image is for, in the order the images are sent:
+// "Image 1 is the subject. Image 2 is the style reference."
+export function promptWithImageRoles(prompt: string, roles: (ImageRole | undefined)[]): string {
+  const described = roles.flatMap((role, i) => (role ? [`Image ${i + 1} is ${ROLE_DESCRIPTIONS[role]}.`] : []));
+  return described.length > 0 ? `${prompt}\n\n${described.join(' ')}` : prompt;
+}
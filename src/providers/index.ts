@@ -0,0 +1,31 @@
+import { fluxProvider } from './flux';
+import { geminiProvider } from './gemini';
+import { imageGptProvider } from './image-gpt';
+import { veoProvider } from './veo';
+import { ImageProvider, ModelId, ProviderInput } from './types';
+
+export * from './types';
+export * from './params';
+export * from './images';
+
+// To add a model, implement ImageProvider in its own module and register it here.
+export const providers: Record<ModelId, ImageProvider> = {
+  'flux-1': fluxProvider,
+  'gemini-image-flash': geminiProvider,
+  'image-gpt': imageGptProvider,
+  'veo-3': veoProvider,
+};
+
+export function isModelId(value: unknown): value is ModelId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(providers, value);
+}
+
+export function getProvider(id: ModelId): ImageProvider {
+  return providers[id];
+}
+
+// How many of the input images the provider leaves out
+export function countIgnoredImages(provider: ImageProvider, input: ProviderInput): number {
+  const count = input.images?.length ?? (input.image ? 1 : 0);
+  return Math.max(count - provider.maxInputImages, 0);
+}
@@ -0,0 +1,74 @@
+export const ASPECT_RATIOS = ['1:1', '4:3', '3:4', '3:2', '2:3', '16:9', '9:16', '21:9', '9:21'] as const;
+export const QUALITIES = ['low', 'medium', 'high'] as const;
+export const OUTPUT_FORMATS = ['png', 'jpeg', 'webp'] as const;
+// BFL's scale: 0 is the strictest moderation, 6 the most permissive
+export const MAX_SAFETY_TOLERANCE = 6;
+// Outputs per model for one prompt; each sample is its own job and generation
+export const MAX_SAMPLES = 4;
+
+export type AspectRatio = typeof ASPECT_RATIOS[number];
+export type Quality = typeof QUALITIES[number];
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// Model-independent generation settings. Every field is optional; a missing
+// field leaves the provider's own default in place. Providers map what they can
+// to their API and report the rest through ImageProvider.ignoredParams().
+export type GenerationParams = {
+  aspectRatio?: AspectRatio;
+  quality?: Quality;
+  seed?: number;
+  outputFormat?: OutputFormat;
+  safetyTolerance?: number;
+};
+
+export type ParamName = keyof GenerationParams;
+
+export const PARAM_NAMES: ParamName[] = ['aspectRatio', 'quality', 'seed', 'outputFormat', 'safetyTolerance'];
+
+// Validates untrusted input (a request body field) into GenerationParams.
+// Empty strings and nulls count as unset.
+export function parseGenerationParams(raw: unknown): { params: GenerationParams; errors: string[] } {
+  const params: GenerationParams = {};
+  const errors: string[] = [];
+  if (raw === undefined || raw === null) return { params, errors };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { params, errors: ['params must be an object'] };
+  }
+  const input = raw as Record<string, unknown>;
+  const isSet = (key: ParamName) => input[key] !== undefined && input[key] !== null && input[key] !== '';
+  const oneOf = <T extends string>(key: ParamName, values: readonly T[]): T | undefined => {
+    if (!isSet(key)) return undefined;
+    if (values.includes(input[key] as T)) return input[key] as T;
+    errors.push(`${key} must be one of ${values.join(', ')}`);
+    return undefined;
+  };
+  const integer = (key: ParamName, min: number, max: number): number | undefined => {
+    if (!isSet(key)) return undefined;
+    const value = Number(input[key]);
+    if (Number.isInteger(value) && value >= min && value <= max) return value;
+    errors.push(`${key} must be an integer from ${min} to ${max}`);
+    return undefined;
+  };
+
+  params.aspectRatio = oneOf('aspectRatio', ASPECT_RATIOS);
+  params.quality = oneOf('quality', QUALITIES);
+  params.seed = integer('seed', 0, 2 ** 31 - 1);
+  params.outputFormat = oneOf('outputFormat', OUTPUT_FORMATS);
+  params.safetyTolerance = integer('safetyTolerance', 0, MAX_SAFETY_TOLERANCE);
+  for (const key of PARAM_NAMES) {
+    if (params[key] === undefined) delete params[key];
+  }
+  return { params, errors };
+}
+
+// The set params a provider does not handle, given the ones it does
+export function ignoredExcept(params: GenerationParams | undefined, handled: ParamName[]): ParamName[] {
+  return PARAM_NAMES.filter((key) => params?.[key] !== undefined && !handled.includes(key));
+}
+
+// Sample count (`n`) from a request body: 1 when unset, null when invalid
+export function parseSampleCount(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === '') return 1;
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= 1 && n <= MAX_SAMPLES ? n : null;
+}
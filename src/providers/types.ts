@@ -0,0 +1,91 @@
+import { ImageRole, InputImage } from './images';
+import { GenerationParams, ParamName } from './params';
+
+export type ModelId = 'flux-1' | 'gemini-image-flash' | 'image-gpt' | 'veo-3';
+
+// Normalized request handed to every provider after the shared pipeline has
+// authenticated the user, checked the quota and (optionally) enhanced the prompt.
+export type ProviderInput = {
+  prompt: string;
+  // Public URL of the first input image
+  image?: string;
+  // Every input image the provider takes (at most maxInputImages), in order
+  images?: InputImage[];
+  // Their bytes, loaded for providers with `takesImageFile`
+  imageFiles?: ProviderImageFile[];
+  params?: GenerationParams;
+};
+
+// An input image's bytes, with the type sniffed from them
+export type ProviderImageFile = { data: Buffer; mimeType: string; role?: ImageRole };
+
+// Providers return either a remote URL (BFL) or inline base64 bytes (OpenAI, Gemini).
+export type ProviderImage =
+  | { url: string }
+  | { data: string; mimeType: string };
+
+export type TokenUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+};
+
+// Identifiers of the provider call: the provider's own model name, its request
+// id and, for submit/poll providers, the task id
+export type ProviderDetails = {
+  model?: string;
+  requestId?: string;
+  taskId?: string;
+};
+
+export type ProviderOutput = {
+  images: ProviderImage[];
+  text?: string;
+  usage?: TokenUsage;
+  provider?: ProviderDetails;
+};
+
+// Progress callbacks for providers that stream partial output
+export type ProviderHooks = {
+  onText?(text: string): void;
+};
+
+// Continuation returned by submit() and handed back to poll(); stored on the job
+// row, so it must be JSON-serializable.
+export type ProviderTask = Record<string, string | number | boolean | null>;
+
+// Providers that answer in a single call implement generate(). Providers with a
+// submit/poll API implement submit() and poll() instead, so the job worker can
+// check back later rather than holding a request open while the task runs.
+export interface ImageProvider {
+  id: ModelId;
+  label: string;
+  // Upper bound for a whole job, from enqueue to final output
+  timeoutMs: number;
+  // Delay between poll() calls for submit/poll providers
+  pollIntervalMs?: number;
+  // Set when the provider uploads input images itself rather than taking their URLs
+  takesImageFile?: boolean;
+  // How many input images the provider takes; it is sent the first ones
+  maxInputImages: number;
+  // The set params in `input` this provider cannot apply and leaves at its default
+  ignoredParams(input: ProviderInput): ParamName[];
+  generate?(input: ProviderInput, hooks?: ProviderHooks): Promise<ProviderOutput>;
+  submit?(input: ProviderInput): Promise<ProviderTask>;
+  // Resolves to null while the task is still running
+  poll?(task: ProviderTask): Promise<ProviderOutput | null>;
+}
+
+// Thrown by providers for failures that should surface to the client with a
+// specific HTTP status (upstream errors are 502, timeouts 504, etc.).
+export class ProviderError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(message: string, status = 502, details?: unknown) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,103 @@
+import { GenerateVideosOperation, GoogleGenAI } from '@google/genai';
+import { GenerationParams, ignoredExcept, ParamName } from './params';
+import { ImageProvider, ProviderError, ProviderInput } from './types';
+
+const VEO3_MODEL_NAME = 'veo-3.0-generate-preview';
+
+function getApiKey(): string {
+  const apiKey = process.env.GOOGLE_API_KEY;
+  if (!apiKey) {
+    throw new ProviderError('Server misconfiguration: missing GOOGLE_API_KEY', 500);
+  }
+  return apiKey;
+}
+
+function getClient(): GoogleGenAI {
+  // Veo is served by the same API as Gemini, so it shares the base URL override
+  const baseUrl = process.env.GEMINI_BASE_URL;
+  return new GoogleGenAI({ apiKey: getApiKey(), httpOptions: baseUrl ? { baseUrl } : undefined });
+}
+
+// Veo renders 16:9 (the default) or 9:16. Seed and resolution exist on Vertex
+// only; the Gemini API (and the SDK, when talking to it) rejects them.
+function mapParams(params: GenerationParams = {}): { fields: { aspectRatio: string }; handled: ParamName[] } {
+  if (params.aspectRatio === '16:9' || params.aspectRatio === '9:16') {
+    return { fields: { aspectRatio: params.aspectRatio }, handled: ['aspectRatio'] };
+  }
+  return { fields: { aspectRatio: '16:9' }, handled: [] };
+}
+
+export const veoProvider: ImageProvider = {
+  id: 'veo-3',
+  label: 'Veo 3',
+  timeoutMs: 10 * 60_000,
+  get pollIntervalMs() {
+    return Number(process.env.VEO_POLL_INTERVAL_MS) || 10_000;
+  },
+  maxInputImages: 1,
+
+  ignoredParams({ params }: ProviderInput) {
+    return ignoredExcept(params, mapParams(params).handled);
+  },
+
+  async submit({ prompt, image, params }) {
+    // Veo takes no inline image here; a reference image is passed as a URL in the prompt
+    const finalPrompt = image && /^https?:\/\//i.test(image)
+      ? `${prompt}\nReference image: ${image}`
+      : prompt;
+    const operation = await getClient().models.generateVideos({
+      model: VEO3_MODEL_NAME,
+      prompt: finalPrompt,
+      config: {
+        numberOfVideos: 1,
+        ...mapParams(params).fields,
+      },
+    });
+    if (!operation.name) {
+      throw new ProviderError('No operation name returned', 502);
+    }
+    return { operationName: operation.name };
+  },
+
+  async poll(task) {
+    const apiKey = getApiKey();
+    const pending = new GenerateVideosOperation();
+    pending.name = String(task.operationName);
+    const operation = await getClient().operations.getVideosOperation({ operation: pending });
+    if (!operation.done) return null;
+    if (operation.error) {
+      throw new ProviderError('Generation failed', 500, operation.error);
+    }
+
+    const videos = operation.response?.generatedVideos;
+    if (videos === undefined || videos.length === 0) {
+      throw new ProviderError('No videos generated', 500);
+    }
+
+    // Fetch the actual video bytes; the URI only works with the API key attached
+    const images = await Promise.all(videos.map(async (generatedVideo) => {
+      const uri = generatedVideo.video?.uri || '';
+      if (!uri) {
+        throw new ProviderError('Empty video URI', 502);
+      }
+      const urlWithKey = (() => {
+        try {
+          const u = new URL(uri);
+          u.searchParams.set('key', apiKey);
+          return u.toString();
+        } catch {
+          // Fallback if uri isn't a valid URL instance
+          return uri.includes('?') ? `${uri}&key=${apiKey}` : `${uri}?key=${apiKey}`;
+        }
+      })();
+      const res = await fetch(urlWithKey);
+      if (!res.ok) {
+        throw new ProviderError(`Failed to fetch video: ${res.status} ${res.statusText}`, 502);
+      }
+      const mimeType = res.headers.get('content-type') || 'video/mp4';
+      const data = Buffer.from(await res.arrayBuffer()).toString('base64');
+      return { data, mimeType };
+    }));
+    return { images, provider: { model: VEO3_MODEL_NAME, taskId: String(task.operationName) } };
+  },
+};
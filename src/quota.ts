@@ -0,0 +1,295 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from '@clerk/nextjs/server';
+import { and, asc, eq, gte, inArray, isNull, lt, notExists, sql, SQL } from 'drizzle-orm';
+import { db } from "@/db";
+import { jobsTable, quotaAccountsTable, quotaReservationsTable } from "@/db/schema";
+import { ModelId } from "@/providers";
+
+// Units count toward a plan's limit for as long as they are in its window:
+// the last `days` days, or the current calendar month (UTC)
+export type QuotaWindow = { type: 'rolling'; days: number } | { type: 'monthly' };
+
+export type Plan = { label: string; units: number; window: QuotaWindow };
+
+export const PLANS = {
+  free: { label: 'Free', units: 10, window: { type: 'rolling', days: 30 } },
+  pro: { label: 'Pro', units: 500, window: { type: 'monthly' } },
+  team: { label: 'Team', units: 2000, window: { type: 'monthly' } },
+} as const satisfies Record<string, Plan>;
+
+export type PlanId = keyof typeof PLANS;
+
+// Units one job of each model takes; a video costs more than an image
+export const MODEL_UNITS: Record<ModelId, number> = {
+  'flux-1': 1,
+  'gemini-image-flash': 1,
+  'image-gpt': 1,
+  'veo-3': 5,
+};
+
+// Reservations no job took up (the request failed before queueing them) are
+// given back after this long
+const UNUSED_RESERVATION_MS = 10 * 60_000;
+
+export function isPlanId(value: unknown): value is PlanId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLANS, value);
+}
+
+// Plan of users without one of their own, from QUOTA_DEFAULT_PLAN
+function defaultPlan(): PlanId {
+  const plan = process.env.QUOTA_DEFAULT_PLAN;
+  return isPlanId(plan) ? plan : 'free';
+}
+
+export function windowStart(window: QuotaWindow, now = new Date()): Date {
+  if (window.type === 'monthly') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+  return new Date(now.getTime() - window.days * 24 * 60 * 60_000);
+}
+
+type Account = typeof quotaAccountsTable.$inferSelect;
+
+async function getAccount(userId: string): Promise<Account> {
+  await db.insert(quotaAccountsTable).values({ userId }).onConflictDoNothing();
+  const [account] = await db.select().from(quotaAccountsTable).where(eq(quotaAccountsTable.userId, userId));
+  return account;
+}
+
+function accountPlan(account: Account): { id: PlanId; limit: number; plan: Plan } {
+  const id = isPlanId(account.plan) ? account.plan : defaultPlan();
+  const plan: Plan = PLANS[id];
+  return { id, limit: account.limitOverride ?? plan.units, plan };
+}
+
+// Committed units that have left the window. `heldUnits` counts every unit
+// ever held, so subtracting these gives the units in use. Old rows don't
+// change, so the sum is safe to read next to a concurrent reservation.
+function unitsBefore(userId: string, start: Date): SQL<number> {
+  return sql<number>`(select coalesce(sum(${quotaReservationsTable.units}), 0) from ${quotaReservationsTable} where ${quotaReservationsTable.userId} = ${userId} and ${quotaReservationsTable.status} = 'committed' and ${lt(quotaReservationsTable.createdAt, start)})`;
+}
+
+export type QuotaUsage = {
+  plan: PlanId;
+  label: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  window: QuotaWindow;
+  // When units next become available; null when nothing is in use
+  resetsAt: Date | null;
+};
+
+export async function getQuotaUsage(userId: string): Promise<QuotaUsage> {
+  const account = await getAccount(userId);
+  const { id, limit, plan } = accountPlan(account);
+  const start = windowStart(plan.window);
+  const [row] = await db
+    .select({ before: unitsBefore(userId, start).mapWith(Number) })
+    .from(quotaAccountsTable)
+    .where(eq(quotaAccountsTable.userId, userId));
+  const used = account.heldUnits - row.before;
+
+  let resetsAt: Date | null = null;
+  if (used > 0 && plan.window.type === 'monthly') {
+    resetsAt = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  } else if (used > 0 && plan.window.type === 'rolling') {
+    // In a rolling window the oldest units in it are the next to drop out
+    const [oldest] = await db.select({ createdAt: quotaReservationsTable.createdAt })
+      .from(quotaReservationsTable)
+      .where(and(
+        eq(quotaReservationsTable.userId, userId),
+        eq(quotaReservationsTable.status, 'committed'),
+        gte(quotaReservationsTable.createdAt, start),
+      ))
+      .orderBy(asc(quotaReservationsTable.createdAt))
+      .limit(1);
+    const { days } = plan.window;
+    resetsAt = oldest ? new Date(oldest.createdAt.getTime() + days * 24 * 60 * 60_000) : null;
+  }
+  return { plan: id, label: plan.label, limit, used, remaining: Math.max(limit - used, 0), window: plan.window, resetsAt };
+}
+
+export function quotaExceededMessage(usage: QuotaUsage, units: number): string {
+  const resets = usage.resetsAt ? `; more become available on ${usage.resetsAt.toISOString().slice(0, 10)}` : '';
+  return `You have used ${usage.used} of your ${usage.limit} generation units (this request needs ${units})${resets}.`;
+}
+
+// Takes the units for one job per model from the user's quota, all or none,
+// and returns the reservation ids in the same order. Pass each id to
+// enqueueJob; the job commits it when it completes and releases it when it
+// fails. `batchId` parks the reservations for a batch's prompts (see
+// claimBatchReservation). Fails closed: when the quota can't be checked
+// nothing is reserved.
+export async function reserveQuota(userId: string, models: ModelId[], { batchId }: { batchId?: string } = {}): Promise<{ reservationIds?: string[]; error?: string; status?: number }> {
+  const units = models.reduce((sum, model) => sum + MODEL_UNITS[model], 0);
+  try {
+    await releaseUnusedReservations(userId);
+    const account = await getAccount(userId);
+    const { limit, plan } = accountPlan(account);
+    const start = windowStart(plan.window);
+    // The gate: Postgres re-checks the condition against the latest counter
+    // when parallel updates race, so only the ones that fit go through
+    const [held] = await db.update(quotaAccountsTable)
+      .set({ heldUnits: sql`${quotaAccountsTable.heldUnits} + ${units}`, updatedAt: new Date() })
+      .where(and(
+        eq(quotaAccountsTable.userId, userId),
+        sql`${quotaAccountsTable.heldUnits} + ${units} - ${unitsBefore(userId, start)} <= ${limit}`,
+      ))
+      .returning({ userId: quotaAccountsTable.userId });
+    if (!held) {
+      return { error: quotaExceededMessage(await getQuotaUsage(userId), units), status: 429 };
+    }
+
+    const reservations = models.map((model) => ({
+      id: crypto.randomUUID(),
+      userId,
+      model,
+      units: MODEL_UNITS[model],
+      status: 'reserved',
+      batchId,
+    }));
+    try {
+      await db.insert(quotaReservationsTable).values(reservations);
+    } catch (err) {
+      await adjustHeldUnits(userId, -units);
+      throw err;
+    }
+    return { reservationIds: reservations.map(({ id }) => id) };
+  } catch (err) {
+    console.error('[quota] error:', err);
+    return { error: 'Could not check your generation quota, please try again', status: 503 };
+  }
+}
+
+async function adjustHeldUnits(userId: string, units: number) {
+  await db.update(quotaAccountsTable)
+    .set({ heldUnits: sql`${quotaAccountsTable.heldUnits} + ${units}`, updatedAt: new Date() })
+    .where(eq(quotaAccountsTable.userId, userId));
+}
+
+// The job completed: its units stay used until they leave the window
+export async function commitReservation(id: string) {
+  await db.update(quotaReservationsTable)
+    .set({ status: 'committed', settledAt: new Date() })
+    .where(and(eq(quotaReservationsTable.id, id), eq(quotaReservationsTable.status, 'reserved')));
+}
+
+// The job failed, or never ran: its units go back to the user
+export async function releaseReservation(id: string) {
+  await releaseWhere(eq(quotaReservationsTable.id, id));
+}
+
+// Releases `ids` that no job has taken up, for requests that fail after
+// reserving
+export async function releaseReservations(ids: string[]) {
+  if (ids.length === 0) return;
+  await releaseWhere(and(inArray(quotaReservationsTable.id, ids), unused()));
+}
+
+// Gives back the units a cancelled batch reserved for prompts it won't start
+export async function releaseBatchReservations(batchId: string) {
+  await releaseWhere(eq(quotaReservationsTable.batchId, batchId));
+}
+
+// Hands one of the batch's reservations for `model` to a job about to start
+export async function claimBatchReservation(batchId: string, model: ModelId): Promise<string | undefined> {
+  const candidate = db.select({ id: quotaReservationsTable.id }).from(quotaReservationsTable)
+    .where(and(
+      eq(quotaReservationsTable.batchId, batchId),
+      eq(quotaReservationsTable.model, model),
+      eq(quotaReservationsTable.status, 'reserved'),
+    ))
+    .limit(1)
+    .for('update', { skipLocked: true });
+  const [reservation] = await db.update(quotaReservationsTable)
+    .set({ batchId: null })
+    // A scalar subquery runs once; under IN it could be rescanned per row and
+    // hand out several reservations
+    .where(and(eq(quotaReservationsTable.id, sql`(${candidate})`), eq(quotaReservationsTable.batchId, batchId)))
+    .returning({ id: quotaReservationsTable.id });
+  return reservation?.id;
+}
+
+// Reservations left behind by requests that failed before queueing their jobs
+async function releaseUnusedReservations(userId: string) {
+  await releaseWhere(and(
+    eq(quotaReservationsTable.userId, userId),
+    isNull(quotaReservationsTable.batchId),
+    lt(quotaReservationsTable.createdAt, new Date(Date.now() - UNUSED_RESERVATION_MS)),
+    unused(),
+  ));
+}
+
+function unused() {
+  return notExists(db.select({ id: jobsTable.id }).from(jobsTable).where(eq(jobsTable.reservationId, quotaReservationsTable.id)));
+}
+
+// Like claimJob, the conditional update settles each reservation once, so its
+// units are given back once
+async function releaseWhere(where: SQL | undefined) {
+  const released = await db.update(quotaReservationsTable)
+    .set({ status: 'released', settledAt: new Date() })
+    .where(and(where, eq(quotaReservationsTable.status, 'reserved')))
+    .returning({ userId: quotaReservationsTable.userId, units: quotaReservationsTable.units });
+  const byUser = new Map<string, number>();
+  for (const { userId, units } of released) byUser.set(userId, (byUser.get(userId) ?? 0) + units);
+  for (const [userId, units] of byUser) await adjustHeldUnits(userId, -units);
+}
+
+// Admins are the Clerk users listed in ADMIN_USER_IDS (comma-separated)
+function isAdmin(userId: string): boolean {
+  return (process.env.ADMIN_USER_IDS ?? '').split(',').map((id) => id.trim()).includes(userId);
+}
+
+async function requireAdmin() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!isAdmin(userId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  return undefined;
+}
+
+async function toQuotaAccount(userId: string) {
+  const account = await getAccount(userId);
+  return { userId, plan: account.plan, limitOverride: account.limitOverride, usage: await getQuotaUsage(userId) };
+}
+
+export async function handleGetQuotaAccount(userId: string) {
+  const denied = await requireAdmin();
+  if (denied) return denied;
+  return NextResponse.json(await toQuotaAccount(userId));
+}
+
+// Admin override of a user's quota. Body: { plan?, limitOverride? }; null
+// puts the user back on the default plan or the plan's limit.
+export async function handleUpdateQuotaAccount(request: NextRequest, userId: string) {
+  const body = (await request.json().catch(() => ({}))) as { plan?: unknown; limitOverride?: unknown };
+  const denied = await requireAdmin();
+  if (denied) return denied;
+
+  const errors: string[] = [];
+  if (body.plan !== undefined && body.plan !== null && !isPlanId(body.plan)) {
+    errors.push(`plan must be one of ${Object.keys(PLANS).join(', ')}`);
+  }
+  const limit = body.limitOverride;
+  if (limit !== undefined && limit !== null && !(Number.isInteger(limit) && (limit as number) >= 0)) {
+    errors.push('limitOverride must be a non-negative integer');
+  }
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+
+  await getAccount(userId);
+  await db.update(quotaAccountsTable)
+    .set({
+      ...(body.plan !== undefined ? { plan: body.plan as PlanId | null } : {}),
+      ...(limit !== undefined ? { limitOverride: limit as number | null } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(quotaAccountsTable.userId, userId));
+  return NextResponse.json(await toQuotaAccount(userId));
+}
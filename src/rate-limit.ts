@@ -0,0 +1,196 @@
+import { NextResponse } from "next/server";
+import { and, eq, lt, sql } from 'drizzle-orm';
+import { db } from "@/db";
+import { rateLimitsTable } from "@/db/schema";
+import { ModelId } from "@/providers";
+
+export type RateLimitRule = { limit: number; windowMs: number };
+
+export const RATE_LIMITS: { requests: RateLimitRule; jobs: Partial<Record<ModelId, RateLimitRule>>; defaultJobs: RateLimitRule } = {
+  // Generation requests per user, whatever they run
+  requests: { limit: 20, windowMs: 60_000 },
+  // Jobs per user and model; videos are slower and dearer than images
+  jobs: { 'veo-3': { limit: 4, windowMs: 60_000 } },
+  defaultJobs: { limit: 40, windowMs: 60_000 },
+};
+
+// Counts per key in fixed windows. The limiter weighs the previous window's
+// count by how much of it still overlaps the sliding window, so only two
+// counters per key are needed.
+export interface RateLimitStore {
+  // Adds `cost` to the window of `key` that starts at `start` (ms) and returns
+  // its new count with the previous window's
+  increment(key: string, start: number, windowMs: number, cost: number): Promise<{ current: number; previous: number }>;
+  // Takes back an increment that went over the limit
+  decrement(key: string, start: number, cost: number): Promise<void>;
+}
+
+// Per process, for development and tests
+export function createMemoryStore(): RateLimitStore & { clear(): void } {
+  const counts = new Map<string, number>();
+  return {
+    async increment(key, start, windowMs, cost) {
+      const current = (counts.get(`${key}@${start}`) ?? 0) + cost;
+      counts.set(`${key}@${start}`, current);
+      // Windows before the previous one no longer matter
+      counts.delete(`${key}@${start - 2 * windowMs}`);
+      return { current, previous: counts.get(`${key}@${start - windowMs}`) ?? 0 };
+    },
+    async decrement(key, start, cost) {
+      counts.set(`${key}@${start}`, (counts.get(`${key}@${start}`) ?? 0) - cost);
+    },
+    clear() {
+      counts.clear();
+    },
+  };
+}
+
+// Shared by every instance of the app, for production
+export const postgresStore: RateLimitStore = {
+  async increment(key, start, windowMs, cost) {
+    const [row] = await db.insert(rateLimitsTable)
+      .values({ key, windowStart: new Date(start), count: cost })
+      .onConflictDoUpdate({ target: [rateLimitsTable.key, rateLimitsTable.windowStart], set: { count: sql`${rateLimitsTable.count} + ${cost}` } })
+      .returning({ count: rateLimitsTable.count });
+    const [previous] = await db.select({ count: rateLimitsTable.count }).from(rateLimitsTable)
+      .where(and(eq(rateLimitsTable.key, key), eq(rateLimitsTable.windowStart, new Date(start - windowMs))));
+    await db.delete(rateLimitsTable)
+      .where(and(eq(rateLimitsTable.key, key), lt(rateLimitsTable.windowStart, new Date(start - windowMs))));
+    return { current: row.count, previous: previous?.count ?? 0 };
+  },
+  async decrement(key, start, cost) {
+    await db.update(rateLimitsTable)
+      .set({ count: sql`${rateLimitsTable.count} - ${cost}` })
+      .where(and(eq(rateLimitsTable.key, key), eq(rateLimitsTable.windowStart, new Date(start))));
+  },
+};
+
+export const memoryStore = createMemoryStore();
+
+// RATE_LIMIT_STORE is `memory` or `postgres`; production defaults to Postgres,
+// since serverless instances don't share memory
+function defaultStore(): RateLimitStore {
+  const store = process.env.RATE_LIMIT_STORE ?? (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+  return store === 'postgres' ? postgresStore : memoryStore;
+}
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Until the current window ends, or until the request would be allowed
+  resetMs: number;
+  retryAfterMs: number;
+};
+
+// Counts `cost` against `key` unless that would exceed the rule's limit over
+// the last `windowMs`
+export async function hitRateLimit(key: string, rule: RateLimitRule, { cost = 1, store = defaultStore(), now = Date.now() }: { cost?: number; store?: RateLimitStore; now?: number } = {}): Promise<RateLimitResult> {
+  const { limit, windowMs } = rule;
+  const start = Math.floor(now / windowMs) * windowMs;
+  const elapsed = now - start;
+  const { current, previous } = await store.increment(key, start, windowMs, cost);
+  const estimate = previous * (1 - elapsed / windowMs) + current;
+  if (estimate <= limit) {
+    return { allowed: true, limit, remaining: Math.max(Math.floor(limit - estimate), 0), resetMs: windowMs - elapsed, retryAfterMs: 0 };
+  }
+  await store.decrement(key, start, cost);
+  const retryAfterMs = Math.ceil(waitMs(previous, current - cost, cost, rule, elapsed));
+  return { allowed: false, limit, remaining: 0, resetMs: retryAfterMs, retryAfterMs };
+}
+
+// How long until `cost` more fits: the previous window's weight shrinks as
+// the window slides, and once the current window ends its count becomes the
+// previous one
+function waitMs(previous: number, current: number, cost: number, { limit, windowMs }: RateLimitRule, elapsed: number): number {
+  const room = limit - cost - current;
+  if (room >= 0 && previous > 0) {
+    return Math.max(windowMs * (1 - room / previous) - elapsed, 0);
+  }
+  const untilNext = windowMs - elapsed;
+  if (limit - cost < 0) return untilNext + windowMs;
+  return untilNext + (current > 0 ? Math.max(windowMs * (1 - (limit - cost) / current), 0) : 0);
+}
+
+type RateLimitCheck = { key: string; rule: RateLimitRule; cost: number };
+
+// Applies the per-user request limit and the per-user, per-model job limits
+// to a generation request that queues one job per entry of `models`. Returns
+// the 429 response when any is exceeded, having counted none of them, or a 400
+// when the request queues more jobs of a model than its limit allows in a whole
+// window, since waiting would never let it through. Otherwise the request is
+// counted, and `release` takes it back when a later check (the input images,
+// the quota) refuses it. Fails open: the quota still applies when the store is
+// unavailable.
+export async function rateLimitGeneration(userId: string, models: ModelId[]): Promise<{ limited?: NextResponse; release: () => Promise<void> }> {
+  const checks: RateLimitCheck[] = [{ key: `generate:${userId}`, rule: RATE_LIMITS.requests, cost: 1 }];
+  for (const check of jobChecks(userId, models)) {
+    if (check.cost > check.rule.limit) {
+      const limited = NextResponse.json({ error: `${check.model} runs at most ${check.rule.limit} jobs per ${check.rule.windowMs / 1000}s and this request needs ${check.cost}` }, { status: 400 });
+      return { limited, release: async () => {} };
+    }
+    checks.push(check);
+  }
+  const { refused, release } = await hitRateLimits(checks);
+  return refused ? { limited: rateLimitedResponse(refused.result, refused.rule), release } : { release };
+}
+
+// Applies the per-user, per-model job limits to jobs queued outside a
+// generation request (the prompts of a batch). Returns whether they may start,
+// having counted them if so.
+export async function rateLimitJobs(userId: string, models: ModelId[]): Promise<boolean> {
+  return !(await hitRateLimits(jobChecks(userId, models))).refused;
+}
+
+function jobChecks(userId: string, models: ModelId[]): (RateLimitCheck & { model: ModelId })[] {
+  return [...new Set(models)].map((model) => ({
+    model,
+    key: `generate:${userId}:${model}`,
+    rule: RATE_LIMITS.jobs[model] ?? RATE_LIMITS.defaultJobs,
+    cost: models.filter((m) => m === model).length,
+  }));
+}
+
+// Counts every check, or none when one is over its limit, which it returns.
+// `release` takes back what was counted.
+async function hitRateLimits(checks: RateLimitCheck[]): Promise<{ refused?: { result: RateLimitResult; rule: RateLimitRule }; release: () => Promise<void> }> {
+  const store = defaultStore();
+  const now = Date.now();
+  const counted: RateLimitCheck[] = [];
+  const release = async () => {
+    try {
+      for (const { key, rule, cost } of counted.splice(0)) {
+        await store.decrement(key, Math.floor(now / rule.windowMs) * rule.windowMs, cost);
+      }
+    } catch (err) {
+      console.error('[rate-limit] error:', err);
+    }
+  };
+  try {
+    for (const check of checks) {
+      const result = await hitRateLimit(check.key, check.rule, { cost: check.cost, store, now });
+      if (!result.allowed) {
+        await release();
+        return { refused: { result, rule: check.rule }, release };
+      }
+      counted.push(check);
+    }
+  } catch (err) {
+    console.error('[rate-limit] error:', err);
+  }
+  return { release };
+}
+
+function rateLimitedResponse(result: RateLimitResult, rule: RateLimitRule) {
+  const retryAfter = Math.max(Math.ceil(result.retryAfterMs / 1000), 1);
+  return NextResponse.json({ error: `Too many requests, try again in ${retryAfter}s`, retryAfter }, {
+    status: 429,
+    headers: {
+      'Retry-After': String(retryAfter),
+      'RateLimit-Limit': String(result.limit),
+      'RateLimit-Remaining': String(result.remaining),
+      'RateLimit-Reset': String(retryAfter),
+      'RateLimit-Policy': `${rule.limit};w=${rule.windowMs / 1000}`,
+    },
+  });
+}
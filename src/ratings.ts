@@ -0,0 +1,204 @@
+import { alias } from 'drizzle-orm/pg-core';
+import { and, asc, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { db } from "@/db";
+import { usersTable, votesTable } from "@/db/schema";
+import { isModelId, providers } from "@/providers";
+
+export const PROMPT_CATEGORIES = ['edit', 'text', 'product', 'portrait', 'animal', 'landscape', 'illustration', 'other'] as const;
+
+export type PromptCategory = typeof PROMPT_CATEGORIES[number];
+
+// Checked in order; the first matching category wins. Subjects come before
+// styles, so "a watercolor fox" is an animal prompt.
+const CATEGORY_PATTERNS: [PromptCategory, RegExp][] = [
+  ['text', /["“][^"”]+["”]|\b(text|typography|logo|poster|lettering|font|headline|caption|sign that says)\b/i],
+  ['product', /\b(product|bottle|packaging|package|mockup|advert(isement)?|commercial|sneakers?|shoes?|watch|perfume)\b/i],
+  ['portrait', /\b(portrait|person|people|man|woman|men|women|girl|boy|child|kid|face|selfie|headshot)\b/i],
+  ['animal', /\b(animals?|cats?|dogs?|fox(es)?|birds?|horses?|lions?|tigers?|bears?|frogs?|fish|owls?|rabbits?|wolf|wolves)\b/i],
+  ['landscape', /\b(landscape|mountains?|forest|beach|ocean|sea|lake|river|desert|city|skyline|street|sunset|sunrise|architecture|buildings?)\b/i],
+  ['illustration', /\b(illustration|cartoon|anime|manga|drawing|painting|sketch|watercolou?r|pixel art|vector|comic|3d render)\b/i],
+];
+
+// Rough prompt category used to break the leaderboard down. Prompts with an
+// input image are edits regardless of their wording.
+export function categorizePrompt(prompt: string, hasInputImage = false): PromptCategory {
+  if (hasInputImage) return 'edit';
+  for (const [category, pattern] of CATEGORY_PATTERNS) {
+    if (pattern.test(prompt)) return category;
+  }
+  return 'other';
+}
+
+export type Match = { winner: string; loser: string };
+
+// Sequential Elo over matches in the order they were played
+export function computeElo(matches: Match[], { k = 32, initial = 1000 }: { k?: number; initial?: number } = {}): Record<string, number> {
+  const ratings: Record<string, number> = {};
+  for (const { winner, loser } of matches) {
+    const rw = ratings[winner] ?? initial;
+    const rl = ratings[loser] ?? initial;
+    const expected = 1 / (1 + 10 ** ((rl - rw) / 400));
+    ratings[winner] = rw + k * (1 - expected);
+    ratings[loser] = rl - k * (1 - expected);
+  }
+  return ratings;
+}
+
+// Bradley-Terry strengths fitted with the MM algorithm, reported on the Elo
+// scale (1000 = average). Every pair that played also gets one virtual tie so
+// that unbeaten or winless models still have finite ratings.
+export function computeBradleyTerry(matches: Match[], { iterations = 200, initial = 1000 }: { iterations?: number; initial?: number } = {}): Record<string, number> {
+  const models = [...new Set(matches.flatMap(({ winner, loser }) => [winner, loser]))];
+  const index = new Map(models.map((model, i) => [model, i]));
+  const wins = models.map(() => 0);
+  const games = models.map(() => models.map(() => 0));
+  for (const { winner, loser } of matches) {
+    const w = index.get(winner)!;
+    const l = index.get(loser)!;
+    wins[w] += 1;
+    games[w][l] += 1;
+    games[l][w] += 1;
+  }
+  for (let i = 0; i < models.length; i++) {
+    for (let j = 0; j < models.length; j++) {
+      if (i !== j && games[i][j] > 0) {
+        games[i][j] += 1;
+        wins[i] += 0.5;
+      }
+    }
+  }
+
+  let strengths = models.map(() => 1);
+  for (let iter = 0; iter < iterations; iter++) {
+    const next = strengths.map((p, i) => {
+      let denominator = 0;
+      for (let j = 0; j < models.length; j++) {
+        if (games[i][j] > 0) denominator += games[i][j] / (p + strengths[j]);
+      }
+      return denominator > 0 ? wins[i] / denominator : p;
+    });
+    const logMean = next.reduce((sum, p) => sum + Math.log(p), 0) / next.length;
+    strengths = next.map((p) => p / Math.exp(logMean));
+  }
+
+  return Object.fromEntries(models.map((model, i) => [model, initial + 400 * Math.log10(strengths[i])]));
+}
+
+export type LeaderboardRow = {
+  model: string;
+  label: string;
+  elo: number;
+  bradleyTerry: number;
+  wins: number;
+  losses: number;
+  upvotes: number;
+  downvotes: number;
+};
+
+export type Leaderboard = {
+  category: PromptCategory | null;
+  rows: LeaderboardRow[];
+  matches: number;
+  // Number of pairwise votes per category, for the category tabs
+  categories: Partial<Record<PromptCategory, number>>;
+};
+
+// Ratings per model from stored votes, overall or for one prompt category
+export async function getLeaderboard(category?: PromptCategory): Promise<Leaderboard> {
+  const opponents = alias(usersTable, 'opponents');
+  const pairwise = await db
+    .select({ winner: usersTable.model, loser: opponents.model, category: votesTable.category })
+    .from(votesTable)
+    .innerJoin(usersTable, eq(votesTable.generationId, usersTable.id))
+    .innerJoin(opponents, eq(votesTable.opponentGenerationId, opponents.id))
+    .where(and(eq(votesTable.value, 'win'), isNotNull(votesTable.opponentGenerationId)))
+    .orderBy(asc(votesTable.updatedAt), asc(votesTable.id));
+  const single = await db
+    .select({ model: usersTable.model, value: votesTable.value, category: votesTable.category })
+    .from(votesTable)
+    .innerJoin(usersTable, eq(votesTable.generationId, usersTable.id))
+    .where(and(inArray(votesTable.value, ['up', 'down']), category ? eq(votesTable.category, category) : undefined));
+
+  const categories: Partial<Record<PromptCategory, number>> = {};
+  for (const vote of pairwise) {
+    if (vote.winner === vote.loser) continue;
+    const key = vote.category as PromptCategory;
+    categories[key] = (categories[key] ?? 0) + 1;
+  }
+
+  const matches = pairwise
+    .filter((vote) => vote.winner !== vote.loser && (!category || vote.category === category))
+    .map(({ winner, loser }) => ({ winner, loser }));
+  const elo = computeElo(matches);
+  const bradleyTerry = computeBradleyTerry(matches);
+
+  const rows = new Map<string, LeaderboardRow>();
+  const row = (model: string) => {
+    let existing = rows.get(model);
+    if (!existing) {
+      existing = {
+        model,
+        label: isModelId(model) ? providers[model].label : model,
+        elo: elo[model] ?? 1000,
+        bradleyTerry: bradleyTerry[model] ?? 1000,
+        wins: 0,
+        losses: 0,
+        upvotes: 0,
+        downvotes: 0,
+      };
+      rows.set(model, existing);
+    }
+    return existing;
+  };
+  for (const { winner, loser } of matches) {
+    row(winner).wins += 1;
+    row(loser).losses += 1;
+  }
+  for (const vote of single) {
+    if (vote.value === 'up') row(vote.model).upvotes += 1;
+    if (vote.value === 'down') row(vote.model).downvotes += 1;
+  }
+
+  return {
+    category: category ?? null,
+    rows: [...rows.values()].sort((a, b) => b.bradleyTerry - a.bradleyTerry || b.elo - a.elo),
+    matches: matches.length,
+    categories,
+  };
+}
+
+export type EnhancementRow = { model: string; label: string; enhancedWins: number; rawWins: number };
+
+// Raw-vs-enhanced results per model: pairwise votes between two generations of
+// the same model where only one of them ran on an enhanced prompt. These votes
+// never count towards the model ratings above.
+export async function getEnhancementResults(category?: PromptCategory): Promise<EnhancementRow[]> {
+  const opponents = alias(usersTable, 'opponents');
+  const votes = await db
+    .select({
+      model: usersTable.model,
+      winnerEnhanced: sql<boolean>`${usersTable.enhancedPrompt} is not null`,
+      loserEnhanced: sql<boolean>`${opponents.enhancedPrompt} is not null`,
+    })
+    .from(votesTable)
+    .innerJoin(usersTable, eq(votesTable.generationId, usersTable.id))
+    .innerJoin(opponents, eq(votesTable.opponentGenerationId, opponents.id))
+    .where(and(
+      eq(votesTable.value, 'win'),
+      eq(usersTable.model, opponents.model),
+      category ? eq(votesTable.category, category) : undefined,
+    ));
+
+  const rows = new Map<string, EnhancementRow>();
+  for (const vote of votes) {
+    if (vote.winnerEnhanced === vote.loserEnhanced) continue;
+    let row = rows.get(vote.model);
+    if (!row) {
+      row = { model: vote.model, label: isModelId(vote.model) ? providers[vote.model].label : vote.model, enhancedWins: 0, rawWins: 0 };
+      rows.set(vote.model, row);
+    }
+    if (vote.winnerEnhanced) row.enhancedWins += 1;
+    else row.rawWins += 1;
+  }
+  return [...rows.values()].sort((a, b) => a.label.localeCompare(b.label));
+}
@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { auth } from '@clerk/nextjs/server';
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import { db } from "@/db";
+import { GenerationStatus, jobsTable, sessionMessagesTable, sessionsTable, usersTable, votesTable } from "@/db/schema";
+import { JobResult, runJob } from "@/jobs";
+
+// What a turn was run with, to lay its variants out again: `models` in display
+// order (shuffled in blind mode), `video` for Veo turns
+export type SessionTurnSettings = { models: string[]; blind?: boolean; compareEnhancement?: boolean; enhance?: boolean; samples?: number; video?: boolean };
+
+export type Session = typeof sessionsTable.$inferSelect;
+
+const MAX_SESSIONS = 100;
+
+export async function getSession(id: string, userId: string): Promise<Session | undefined> {
+  const [session] = await db.select().from(sessionsTable).where(and(eq(sessionsTable.id, id), eq(sessionsTable.userId, userId)));
+  return session;
+}
+
+// Records a user turn when a generation request names a `sessionId`. Returns
+// the message id to link the turn's generations to; the first turn also
+// titles an untitled session.
+export async function startSessionTurn(
+  userId: string,
+  sessionId: unknown,
+  turn: { prompt: string; image?: string; settings: SessionTurnSettings },
+): Promise<{ messageId?: string; error?: string; status?: number }> {
+  if (sessionId === undefined || sessionId === null) return {};
+  const session = typeof sessionId === 'string' ? await getSession(sessionId, userId) : undefined;
+  if (!session) return { error: 'Session not found', status: 404 };
+  const [message] = await db.insert(sessionMessagesTable).values({
+    id: crypto.randomUUID(),
+    sessionId: session.id,
+    prompt: turn.prompt,
+    inputImageUrl: turn.image ?? '',
+    settings: turn.settings,
+  }).returning();
+  await db.update(sessionsTable)
+    .set({ title: session.title || turn.prompt.slice(0, 255), updatedAt: new Date() })
+    .where(eq(sessionsTable.id, session.id));
+  return { messageId: message.id };
+}
+
+type SessionMessage = typeof sessionMessagesTable.$inferSelect;
+type Generation = typeof usersTable.$inferSelect;
+
+// The session's turns, each with its generations in display order and the
+// user's votes on them
+export async function getSessionView(session: Session) {
+  const messages = await db.select().from(sessionMessagesTable)
+    .where(eq(sessionMessagesTable.sessionId, session.id))
+    .orderBy(asc(sessionMessagesTable.createdAt), asc(sessionMessagesTable.id));
+  const ids = messages.map((message) => message.id);
+  const rows = ids.length === 0 ? [] : await db
+    .select({ generation: usersTable, job: { id: jobsTable.id, stage: jobsTable.stage, result: jobsTable.result } })
+    .from(usersTable)
+    .leftJoin(jobsTable, eq(jobsTable.generationId, usersTable.id))
+    .where(and(inArray(usersTable.messageId, ids), eq(usersTable.userId, session.userId)));
+  const generationIds = rows.map(({ generation }) => generation.id);
+  const votes = generationIds.length === 0 ? [] : await db.select().from(votesTable)
+    .where(and(eq(votesTable.userId, session.userId), inArray(votesTable.generationId, generationIds)));
+
+  return {
+    id: session.id,
+    title: session.title,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    messages: messages.map((message) => toTurn(message, rows.filter(({ generation }) => generation.messageId === message.id), votes)),
+  };
+}
+
+// What gives a generation's model away: left out of a blind turn until it is
+// revealed, and returned by the reveal
+type ModelDetails = { model: string | null; enhancedPrompt: string | null; costUsd: number | null; durationMs: number | null; tokens: number | null; ignoredParams: string[]; ignoredImages: number };
+
+const HIDDEN_DETAILS: ModelDetails = { model: null, enhancedPrompt: null, costUsd: null, durationMs: null, tokens: null, ignoredParams: [], ignoredImages: 0 };
+
+function modelDetails(generation: Generation): ModelDetails {
+  const { metadata } = generation;
+  return {
+    model: generation.model,
+    enhancedPrompt: generation.enhancedPrompt,
+    costUsd: generation.costUsd,
+    durationMs: metadata.timing?.durationMs ?? null,
+    tokens: metadata.usage?.totalTokens ?? null,
+    ignoredParams: metadata.ignoredParams ?? [],
+    ignoredImages: metadata.ignoredImages ?? 0,
+  };
+}
+
+type TurnRow = { generation: Generation; job: { id: string; stage: string; result: unknown } | null };
+
+function toTurn(message: SessionMessage, rows: TurnRow[], votes: (typeof votesTable.$inferSelect)[]) {
+  const { settings } = message;
+  // Until a blind turn is revealed, no generation names its model or shows
+  // what would give it away, and the models are listed in no particular order
+  const hidden = Boolean(settings.blind) && !message.revealed;
+  const generations = rows.map(({ generation, job }) => {
+    const { metadata } = generation;
+    const result = job?.result as JobResult | null | undefined;
+    return {
+      id: generation.id,
+      jobId: job?.id ?? null,
+      ...(hidden ? HIDDEN_DETAILS : modelDetails(generation)),
+      status: generation.status as GenerationStatus,
+      stage: job?.stage ?? null,
+      prompt: generation.prompt,
+      outputImageUrl: generation.outputImageUrl || null,
+      text: (metadata.outputIndex ? undefined : result?.text) ?? (generation.error || undefined),
+      blindLabel: metadata.blind?.label ?? null,
+      position: metadata.blind?.position ?? settings.models.indexOf(generation.model),
+      enhanced: metadata.enhanceComparison?.enhanced ?? Boolean(settings.enhance),
+      sample: metadata.sample?.index ?? 0,
+      outputIndex: metadata.outputIndex ?? 0,
+      vote: votes.find((vote) => vote.generationId === generation.id && vote.opponentGenerationId === null)?.value as 'up' | 'down' | undefined,
+    };
+  });
+  generations.sort((a, b) => a.position - b.position
+    || Number(a.enhanced) - Number(b.enhanced)
+    || a.sample - b.sample
+    || a.outputIndex - b.outputIndex
+    || a.id - b.id);
+
+  // "Pick best" records wins over every other finished variant of the turn
+  const finished = generations.filter((generation) => generation.outputImageUrl).map((generation) => generation.id);
+  const beats = (id: number, other: number) => votes.some((vote) => vote.generationId === id && vote.opponentGenerationId === other && vote.value === 'win');
+  const best = finished.length > 1 ? finished.find((id) => finished.every((other) => other === id || beats(id, other))) : undefined;
+
+  return {
+    id: message.id,
+    prompt: message.prompt,
+    inputImageUrl: message.inputImageUrl || null,
+    // Every input image of the turn, as its generations recorded them
+    inputImages: rows[0]?.generation.inputImages ?? (message.inputImageUrl ? [{ url: message.inputImageUrl }] : []),
+    settings: hidden ? { ...settings, models: [...settings.models].sort() } : settings,
+    revealed: message.revealed,
+    createdAt: message.createdAt,
+    generations: generations.map((generation) => ({ ...generation, best: generation.id === best })),
+  };
+}
+
+export type SessionView = Awaited<ReturnType<typeof getSessionView>>;
+
+export async function handleListSessions() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const sessions = await db.select({ id: sessionsTable.id, title: sessionsTable.title, updatedAt: sessionsTable.updatedAt })
+    .from(sessionsTable)
+    .where(eq(sessionsTable.userId, userId))
+    .orderBy(desc(sessionsTable.updatedAt))
+    .limit(MAX_SESSIONS);
+  return NextResponse.json({ sessions });
+}
+
+export async function handleCreateSession(request: NextRequest) {
+  const body = (await request.json().catch(() => ({}))) as { title?: unknown };
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const title = typeof body.title === 'string' ? body.title.trim().slice(0, 255) : '';
+  const [session] = await db.insert(sessionsTable).values({ id: crypto.randomUUID(), userId, title }).returning();
+  return NextResponse.json(await getSessionView(session), { status: 201 });
+}
+
+// Like GET /api/jobs/:id, polling a session whose generations are unfinished
+// advances their jobs
+export async function handleGetSession(id: string) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const session = await getSession(id, userId);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  const view = await getSessionView(session);
+  for (const { jobId, status } of view.messages.flatMap((message) => message.generations)) {
+    if (jobId && (status === 'pending' || status === 'running')) after(() => runJob(jobId));
+  }
+  return NextResponse.json(view);
+}
+
+// Body: { title }
+export async function handleUpdateSession(request: NextRequest, id: string) {
+  const body = (await request.json().catch(() => ({}))) as { title?: unknown };
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (typeof body.title !== 'string' || !body.title.trim() || body.title.length > 255) {
+    return NextResponse.json({ error: 'title must be 1 to 255 characters' }, { status: 400 });
+  }
+  const [session] = await db.update(sessionsTable)
+    .set({ title: body.title.trim(), updatedAt: new Date() })
+    .where(and(eq(sessionsTable.id, id), eq(sessionsTable.userId, userId)))
+    .returning();
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  return NextResponse.json({ id: session.id, title: session.title, updatedAt: session.updatedAt });
+}
+
+// Deletes the conversation; its generations stay in the user's history
+export async function handleDeleteSession(id: string) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const session = await getSession(id, userId);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+  const messageIds = db.select({ id: sessionMessagesTable.id }).from(sessionMessagesTable).where(eq(sessionMessagesTable.sessionId, id));
+  await db.update(usersTable).set({ messageId: null }).where(inArray(usersTable.messageId, messageIds));
+  await db.delete(sessionMessagesTable).where(eq(sessionMessagesTable.sessionId, id));
+  await db.delete(sessionsTable).where(eq(sessionsTable.id, id));
+  return NextResponse.json({ id });
+}
+
+// Marks a blind turn as revealed, so it reopens with the model names shown,
+// and answers with the model of each of its generations and the details that
+// were hidden with it
+export async function handleRevealMessage(sessionId: string, messageId: string) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const session = await getSession(sessionId, userId);
+  const [message] = session ? await db.update(sessionMessagesTable)
+    .set({ revealed: true })
+    .where(and(eq(sessionMessagesTable.id, messageId), eq(sessionMessagesTable.sessionId, session.id)))
+    .returning({ id: sessionMessagesTable.id }) : [];
+  if (!message) {
+    return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+  }
+  const generations = await db.select().from(usersTable)
+    .where(eq(usersTable.messageId, message.id))
+    .orderBy(asc(usersTable.id));
+  return NextResponse.json({
+    id: message.id,
+    revealed: true,
+    generations: generations.map((generation) => ({ generationId: generation.id, ...modelDetails(generation) })),
+  });
+}
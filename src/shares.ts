@@ -0,0 +1,125 @@
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from '@clerk/nextjs/server';
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { db } from "@/db";
+import { GenerationStatus, sharesTable, usersTable, votesTable } from "@/db/schema";
+import { isModelId, providers } from "@/providers";
+
+// Every variant of one comparison: 3 models × 4 samples × raw and enhanced
+export const MAX_SHARED_GENERATIONS = 24;
+
+// 24 random bytes, so links can't be guessed or enumerated
+function shareToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+// Body: { generationIds } in the order they are shown; all must be the user's
+export async function handleCreateShare(request: NextRequest) {
+  const body = (await request.json().catch(() => ({}))) as { generationIds?: unknown };
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const ids = Array.isArray(body.generationIds) ? [...new Set(body.generationIds)] : [];
+  if (ids.length === 0 || ids.length > MAX_SHARED_GENERATIONS || !ids.every((id): id is number => Number.isInteger(id))) {
+    return NextResponse.json({ error: `generationIds must list 1 to ${MAX_SHARED_GENERATIONS} generations` }, { status: 400 });
+  }
+  const owned = await db.select({ id: usersTable.id }).from(usersTable)
+    .where(and(inArray(usersTable.id, ids), eq(usersTable.userId, userId)));
+  if (owned.length !== ids.length) {
+    return NextResponse.json({ error: 'Generation not found' }, { status: 404 });
+  }
+  const [share] = await db.insert(sharesTable).values({ id: shareToken(), userId, generationIds: ids }).returning();
+  return NextResponse.json(toShareLink(share), { status: 201 });
+}
+
+type Share = typeof sharesTable.$inferSelect;
+
+function toShareLink(share: Share) {
+  return { id: share.id, url: `/share/${share.id}`, generationIds: share.generationIds, createdAt: share.createdAt };
+}
+
+// The user's links that still resolve, newest first
+export async function handleListShares() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const shares = await db.select().from(sharesTable)
+    .where(and(eq(sharesTable.userId, userId), isNull(sharesTable.revokedAt)))
+    .orderBy(desc(sharesTable.createdAt));
+  return NextResponse.json({ shares: shares.map(toShareLink) });
+}
+
+export async function handleRevokeShare(id: string) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const [share] = await db.update(sharesTable)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sharesTable.id, id), eq(sharesTable.userId, userId), isNull(sharesTable.revokedAt)))
+    .returning();
+  if (!share) {
+    return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+  }
+  return NextResponse.json({ id: share.id, revokedAt: share.revokedAt });
+}
+
+// What the public page shows: the prompt, the input image and every shared
+// output with its timings and the owner's votes. Nothing identifies the owner.
+// Undefined once the link is revoked.
+export async function getShareView(id: string) {
+  const [share] = await db.select().from(sharesTable).where(and(eq(sharesTable.id, id), isNull(sharesTable.revokedAt)));
+  if (!share) return undefined;
+  const rows = await db.select().from(usersTable)
+    .where(and(inArray(usersTable.id, share.generationIds), eq(usersTable.userId, share.userId)));
+  if (rows.length === 0) return undefined;
+  const generations = share.generationIds
+    .map((generationId) => rows.find((row) => row.id === generationId))
+    .filter((row) => row !== undefined);
+  const votes = await db.select().from(votesTable)
+    .where(and(eq(votesTable.userId, share.userId), inArray(votesTable.generationId, share.generationIds)));
+
+  // The best pick beat every other finished output in the share
+  const finished = generations.filter((row) => row.outputImageUrl).map((row) => row.id);
+  const beats = (winner: number, loser: number) => votes.some((vote) => vote.generationId === winner && vote.opponentGenerationId === loser && vote.value === 'win');
+  const best = finished.length > 1 ? finished.find((winner) => finished.every((loser) => loser === winner || beats(winner, loser))) : undefined;
+
+  const [first] = generations;
+  return {
+    id: share.id,
+    createdAt: share.createdAt,
+    prompt: first.prompt,
+    inputImageUrl: first.inputImageUrl || null,
+    generations: generations.map((row) => ({
+      id: row.id,
+      model: row.model,
+      label: isModelId(row.model) ? providers[row.model].label : row.model,
+      status: row.status as GenerationStatus,
+      prompt: row.prompt,
+      enhancedPrompt: row.enhancedPrompt,
+      outputImageUrl: row.outputImageUrl || null,
+      isVideo: Boolean(row.metadata.output?.mimeType.startsWith('video/') || /\.mp4$/i.test(row.outputImageUrl)),
+      error: row.error || undefined,
+      durationMs: row.metadata.timing?.durationMs ?? null,
+      tokens: row.metadata.usage?.totalTokens ?? null,
+      costUsd: row.costUsd,
+      sample: row.metadata.sample?.index ?? 0,
+      enhanced: row.metadata.enhanceComparison?.enhanced ?? null,
+      vote: votes.find((vote) => vote.generationId === row.id && vote.opponentGenerationId === null)?.value as 'up' | 'down' | undefined,
+      best: row.id === best,
+    })),
+  };
+}
+
+export type ShareView = NonNullable<Awaited<ReturnType<typeof getShareView>>>;
+
+export async function handleGetShare(id: string) {
+  const share = await getShareView(id);
+  if (!share) {
+    return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+  }
+  return NextResponse.json(share);
+}
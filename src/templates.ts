@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from '@clerk/nextjs/server';
+import { and, desc, eq, or } from 'drizzle-orm';
+import { db } from "@/db";
+import { promptTemplatesTable } from "@/db/schema";
+import { TemplateUse } from "@/metadata";
+import { renderTemplate, TemplateValueLists, templateVariables } from "@/prompt-template";
+
+export type PromptTemplate = typeof promptTemplatesTable.$inferSelect;
+
+// `shared: true` shares the template with the user's current team (Clerk organization)
+export type TemplateRequestBody = { name?: unknown; body?: unknown; values?: unknown; shared?: unknown };
+
+const MAX_VALUES = 50;
+
+// Validates the fields of a create (all required) or update (all optional) request
+export function parseTemplateFields(raw: TemplateRequestBody, partial = false): { fields: Partial<Pick<PromptTemplate, 'name' | 'body' | 'values'>>; errors: string[] } {
+  const fields: Partial<Pick<PromptTemplate, 'name' | 'body' | 'values'>> = {};
+  const errors: string[] = [];
+  if (raw.name !== undefined || !partial) {
+    if (typeof raw.name !== 'string' || !raw.name.trim() || raw.name.length > 255) errors.push('name must be 1 to 255 characters');
+    else fields.name = raw.name.trim();
+  }
+  if (raw.body !== undefined || !partial) {
+    if (typeof raw.body !== 'string' || !raw.body.trim() || raw.body.length > 2000) errors.push('body must be 1 to 2000 characters');
+    else fields.body = raw.body;
+  }
+  if (raw.values !== undefined) {
+    const values = parseValueLists(raw.values);
+    if (!values) errors.push(`values must map variable names to lists of up to ${MAX_VALUES} strings`);
+    else fields.values = values;
+  }
+  return { fields, errors };
+}
+
+function parseValueLists(raw: unknown): TemplateValueLists | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null;
+  const lists: TemplateValueLists = {};
+  for (const [name, list] of Object.entries(raw)) {
+    if (!Array.isArray(list) || list.length > MAX_VALUES || list.some((value) => typeof value !== 'string' || value.length > 255)) return null;
+    lists[name] = [...new Set(list as string[])];
+  }
+  return lists;
+}
+
+// Saved lists only for variables the body still uses
+function valuesFor(body: string, values: TemplateValueLists): TemplateValueLists {
+  return Object.fromEntries(templateVariables(body).map((name) => [name, values[name] ?? []]));
+}
+
+// The user's own templates and those shared with their team
+function visibleTo(userId: string, teamId: string | null | undefined) {
+  return teamId
+    ? or(eq(promptTemplatesTable.userId, userId), eq(promptTemplatesTable.teamId, teamId))
+    : eq(promptTemplatesTable.userId, userId);
+}
+
+export async function getTemplate(id: number, userId: string, teamId?: string | null): Promise<PromptTemplate | undefined> {
+  const [template] = await db.select().from(promptTemplatesTable).where(and(eq(promptTemplatesTable.id, id), visibleTo(userId, teamId)));
+  return template;
+}
+
+function toTemplateResponse(template: PromptTemplate, userId: string) {
+  return {
+    id: template.id,
+    name: template.name,
+    body: template.body,
+    variables: templateVariables(template.body),
+    values: template.values,
+    shared: template.teamId !== null,
+    own: template.userId === userId,
+    updatedAt: template.updatedAt,
+  };
+}
+
+export async function handleListTemplates() {
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const templates = await db.select().from(promptTemplatesTable).where(visibleTo(userId, orgId)).orderBy(desc(promptTemplatesTable.updatedAt));
+  return NextResponse.json({ templates: templates.map((template) => toTemplateResponse(template, userId)) });
+}
+
+export async function handleCreateTemplate(request: NextRequest) {
+  const raw = (await request.json().catch(() => ({}))) as TemplateRequestBody;
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { fields, errors } = parseTemplateFields(raw);
+  if (raw.shared && !orgId) errors.push('Select a team to share templates with');
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+  const [template] = await db.insert(promptTemplatesTable).values({
+    userId,
+    teamId: raw.shared ? orgId : null,
+    name: fields.name!,
+    body: fields.body!,
+    values: valuesFor(fields.body!, fields.values ?? {}),
+  }).returning();
+  return NextResponse.json(toTemplateResponse(template, userId), { status: 201 });
+}
+
+// Only the owner can change or delete a template, shared or not
+export async function handleUpdateTemplate(request: NextRequest, id: number) {
+  const raw = (await request.json().catch(() => ({}))) as TemplateRequestBody;
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const template = await getTemplate(id, userId, orgId);
+  if (!template || template.userId !== userId) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+  }
+  const { fields, errors } = parseTemplateFields(raw, true);
+  if (raw.shared && !orgId) errors.push('Select a team to share templates with');
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+  }
+  const body = fields.body ?? template.body;
+  const [updated] = await db.update(promptTemplatesTable)
+    .set({
+      ...fields,
+      values: valuesFor(body, fields.values ?? template.values),
+      ...(raw.shared !== undefined ? { teamId: raw.shared ? orgId : null } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(promptTemplatesTable.id, id))
+    .returning();
+  return NextResponse.json(toTemplateResponse(updated, userId));
+}
+
+export async function handleDeleteTemplate(id: number) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const [deleted] = await db.delete(promptTemplatesTable)
+    .where(and(eq(promptTemplatesTable.id, id), eq(promptTemplatesTable.userId, userId)))
+    .returning({ id: promptTemplatesTable.id });
+  if (!deleted) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+  }
+  return NextResponse.json({ id });
+}
+
+// Checks the `template` of a generation request: { id?, body?, values } where
+// `id` is a saved template (its body is used) and `body` an unsaved one. The
+// values must render the template to exactly the requested prompt.
+export async function resolveTemplateUse(raw: unknown, prompt: string, userId: string, teamId?: string | null): Promise<{ template?: TemplateUse; error?: string; status?: number }> {
+  if (raw === undefined || raw === null) return {};
+  const { id, body, values } = raw as { id?: unknown; body?: unknown; values?: unknown };
+  if (typeof values !== 'object' || values === null || Array.isArray(values) || Object.values(values).some((value) => typeof value !== 'string')) {
+    return { error: 'template.values must map variable names to strings', status: 400 };
+  }
+  let template: Omit<TemplateUse, 'values'>;
+  if (id !== undefined) {
+    const saved = Number.isInteger(id) ? await getTemplate(id as number, userId, teamId) : undefined;
+    if (!saved) return { error: 'Template not found', status: 404 };
+    template = { id: saved.id, name: saved.name, body: saved.body };
+  } else if (typeof body === 'string' && body.trim()) {
+    template = { body };
+  } else {
+    return { error: 'template needs an id or a body', status: 400 };
+  }
+  const given = values as Record<string, string>;
+  const used = Object.fromEntries(templateVariables(template.body).filter((name) => name in given).map((name) => [name, given[name]]));
+  if (renderTemplate(template.body, used) !== prompt) {
+    return { error: 'The template values do not produce the prompt', status: 400 };
+  }
+  return { template: { ...template, values: used } };
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from '@clerk/nextjs/server';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from "@/db";
+import { usersTable, VoteValue, votesTable } from "@/db/schema";
+import { categorizePrompt } from "@/ratings";
+
+export type VoteRequestBody = {
+  // Thumbs up/down on one generation
+  generationId?: number;
+  value?: 'up' | 'down';
+  // Pairwise preference: the winner beat each of the losers
+  winnerId?: number;
+  loserIds?: number[];
+  // Cast in blind mode, before the model names were revealed
+  blind?: boolean;
+};
+
+// Records a vote. Votes are upserted, so voting again replaces the previous
+// vote on the same generation (or pair, in either order).
+export async function handleVote(request: NextRequest) {
+  const body = (await request.json().catch(() => ({}))) as VoteRequestBody;
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    if (body.winnerId !== undefined) {
+      const winnerId = Number(body.winnerId);
+      const loserIds = Array.isArray(body.loserIds) ? [...new Set(body.loserIds.map(Number))] : [];
+      if (!Number.isInteger(winnerId) || loserIds.length === 0 || loserIds.some((id) => !Number.isInteger(id) || id === winnerId)) {
+        return NextResponse.json({ error: 'A preference needs a winnerId and at least one other loserId' }, { status: 400 });
+      }
+      const generations = await getVotableGenerations(userId, [winnerId, ...loserIds]);
+      if (!generations) {
+        return NextResponse.json({ error: 'Generation not found' }, { status: 404 });
+      }
+      const winner = generations.get(winnerId)!;
+      const category = categorizePrompt(winner.prompt, Boolean(winner.inputImageUrl));
+      for (const loserId of loserIds) {
+        // Drop the reverse preference first so a pair only ever has one winner
+        await db
+          .delete(votesTable)
+          .where(and(eq(votesTable.userId, userId), eq(votesTable.generationId, loserId), eq(votesTable.opponentGenerationId, winnerId)));
+        await upsertVote({ userId, generationId: winnerId, opponentGenerationId: loserId, value: 'win', category, blind: Boolean(body.blind) });
+      }
+      return NextResponse.json({ winnerId, loserIds, category });
+    }
+
+    const generationId = Number(body.generationId);
+    if (!Number.isInteger(generationId) || (body.value !== 'up' && body.value !== 'down')) {
+      return NextResponse.json({ error: 'A vote needs a generationId and a value of "up" or "down"' }, { status: 400 });
+    }
+    const generations = await getVotableGenerations(userId, [generationId]);
+    if (!generations) {
+      return NextResponse.json({ error: 'Generation not found' }, { status: 404 });
+    }
+    const generation = generations.get(generationId)!;
+    const category = categorizePrompt(generation.prompt, Boolean(generation.inputImageUrl));
+    await upsertVote({ userId, generationId, opponentGenerationId: null, value: body.value, category, blind: Boolean(body.blind) });
+    return NextResponse.json({ generationId, value: body.value, category });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// The user's completed generations by id, or null if any of them is missing
+async function getVotableGenerations(userId: string, ids: number[]) {
+  const rows = await db
+    .select({ id: usersTable.id, prompt: usersTable.prompt, inputImageUrl: usersTable.inputImageUrl })
+    .from(usersTable)
+    .where(and(inArray(usersTable.id, ids), eq(usersTable.userId, userId), eq(usersTable.status, 'completed')));
+  if (rows.length !== ids.length) return null;
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+async function upsertVote(values: { userId: string; generationId: number; opponentGenerationId: number | null; value: VoteValue; category: string; blind: boolean }) {
+  await db
+    .insert(votesTable)
+    .values(values)
+    .onConflictDoUpdate({
+      target: [votesTable.userId, votesTable.generationId, votesTable.opponentGenerationId],
+      set: { value: values.value, category: values.category, blind: values.blind, updatedAt: new Date() },
+    });
+}
@@ -0,0 +1,57 @@
+import { PNG_BASE64, sendJson, startFakeServer, FakeServer } from './server';
+
+export type BflScenario = 'ok' | 'submit-error' | 'poll-error' | 'failed' | 'pending';
+
+export type FakeBfl = FakeServer & {
+  scenario: BflScenario;
+  // Number of "Pending" poll responses before the task becomes ready
+  pollsUntilReady: number;
+};
+
+// Mimics BFL's submit/poll flow: POST /v1/<model> returns a polling_url, and
+// GET /v1/get_result?id=... answers Pending until the result sample is ready.
+export async function startFakeBfl(port = 0): Promise<FakeBfl> {
+  const polls = new Map<string, number>();
+  let nextId = 1;
+  const fake = {} as FakeBfl;
+  const server = await startFakeServer((req, res) => {
+    const url = new URL(req.path, 'http://fake');
+    // Delivery URLs are public, like BFL's signed sample URLs
+    if (req.method === 'GET' && url.pathname.startsWith('/samples/')) {
+      res.writeHead(200, { 'content-type': 'image/png' });
+      res.end(Buffer.from(PNG_BASE64, 'base64'));
+      return;
+    }
+    if (!req.headers['x-key']) {
+      return sendJson(res, 401, { detail: 'Missing x-key' });
+    }
+    if (req.method === 'POST' && url.pathname.startsWith('/v1/flux-')) {
+      if (fake.scenario === 'submit-error') {
+        return sendJson(res, 422, { detail: 'Invalid request' });
+      }
+      const id = `task-${nextId++}`;
+      polls.set(id, 0);
+      return sendJson(res, 200, { id, polling_url: `${fake.url}/v1/get_result?id=${id}` });
+    }
+    if (req.method === 'GET' && url.pathname === '/v1/get_result') {
+      const id = url.searchParams.get('id') || '';
+      if (fake.scenario === 'poll-error') {
+        return sendJson(res, 500, { detail: 'Internal error' });
+      }
+      if (!polls.has(id)) {
+        return sendJson(res, 404, { detail: 'Task not found' });
+      }
+      if (fake.scenario === 'failed') {
+        return sendJson(res, 200, { id, status: 'Error', result: null });
+      }
+      const count = (polls.get(id) || 0) + 1;
+      polls.set(id, count);
+      if (fake.scenario === 'pending' || count <= fake.pollsUntilReady) {
+        return sendJson(res, 200, { id, status: 'Pending', result: null });
+      }
+      return sendJson(res, 200, { id, status: 'Ready', result: { sample: `${fake.url}/samples/${id}.png` } });
+    }
+    sendJson(res, 404, { detail: 'Not found' });
+  }, port);
+  return Object.assign(fake, server, { scenario: 'ok' as BflScenario, pollsUntilReady: 1 });
+}
@@ -0,0 +1,87 @@
+import http from 'http';
+import { PNG_BASE64, sendJson, startFakeServer, FakeServer } from './server';
+
+export type GeminiScenario = 'ok' | 'two-images' | 'text-only' | 'error';
+
+export type FakeGemini = FakeServer & {
+  scenario: GeminiScenario;
+  // Number of not-done operation polls before a Veo video is ready
+  pollsUntilDone: number;
+};
+
+const usageMetadata = { promptTokenCount: 8, candidatesTokenCount: 1290, totalTokenCount: 1298 };
+
+// Every chunk of one response carries the same id and model version
+function writeEvent(res: http.ServerResponse, chunk: Record<string, unknown>) {
+  res.write(`data: ${JSON.stringify({ ...chunk, responseId: 'gemini-response-1', modelVersion: 'gemini-2.5-flash-image-preview' })}\n\n`);
+}
+
+// Mimics generateContentStream (SSE with inline image data), generateContent and
+// Veo's long-running predict operations on the Generative Language API. Point
+// GEMINI_BASE_URL at `fake.url`.
+export async function startFakeGemini(port = 0): Promise<FakeGemini> {
+  const operations = new Map<string, number>();
+  let nextOperation = 1;
+  const fake = {} as FakeGemini;
+  const server = await startFakeServer((req, res) => {
+    const url = new URL(req.path, 'http://fake');
+    // Generated files are fetched with ?key= rather than the API key header
+    if (req.method === 'GET' && url.pathname.startsWith('/files/')) {
+      if (!url.searchParams.get('key')) return sendJson(res, 403, { error: { code: 403, message: 'Missing key' } });
+      res.writeHead(200, { 'content-type': 'video/mp4' });
+      res.end(Buffer.from('fake mp4 bytes'));
+      return;
+    }
+    if (!req.headers['x-goog-api-key']) {
+      return sendJson(res, 401, { error: { code: 401, message: 'API key not valid', status: 'UNAUTHENTICATED' } });
+    }
+    if (req.method === 'POST' && url.pathname.endsWith(':streamGenerateContent')) {
+      if (fake.scenario === 'error') {
+        return sendJson(res, 500, { error: { code: 500, message: 'Internal error encountered.', status: 'INTERNAL' } });
+      }
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      writeEvent(res, { candidates: [{ content: { role: 'model', parts: [{ text: 'Here is your image. ' }] }, index: 0 }] });
+      if (fake.scenario === 'ok' || fake.scenario === 'two-images') {
+        writeEvent(res, { candidates: [{ content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data: PNG_BASE64 } }] }, index: 0 }] });
+        if (fake.scenario === 'two-images') {
+          writeEvent(res, { candidates: [{ content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data: PNG_BASE64 } }] }, index: 0 }] });
+        }
+      } else {
+        writeEvent(res, { candidates: [{ content: { role: 'model', parts: [{ text: 'I cannot draw that.' }] }, index: 0 }] });
+      }
+      writeEvent(res, { candidates: [{ content: { role: 'model', parts: [{ text: '' }] }, finishReason: 'STOP', index: 0 }], usageMetadata });
+      res.end();
+      return;
+    }
+    if (req.method === 'POST' && url.pathname.endsWith(':predictLongRunning')) {
+      if (fake.scenario === 'error') {
+        return sendJson(res, 500, { error: { code: 500, message: 'Internal error encountered.', status: 'INTERNAL' } });
+      }
+      const model = url.pathname.split('/').pop()!.split(':')[0];
+      const name = `models/${model}/operations/op-${nextOperation++}`;
+      operations.set(name, 0);
+      return sendJson(res, 200, { name });
+    }
+    const operationName = url.pathname.replace(/^\/v1beta\//, '');
+    if (req.method === 'GET' && operations.has(operationName)) {
+      const count = (operations.get(operationName) || 0) + 1;
+      operations.set(operationName, count);
+      if (count <= fake.pollsUntilDone) {
+        return sendJson(res, 200, { name: operationName, done: false });
+      }
+      return sendJson(res, 200, {
+        name: operationName,
+        done: true,
+        response: { generateVideoResponse: { generatedSamples: [{ video: { uri: `${fake.url}/files/${operationName.split('/').pop()}.mp4` } }] } },
+      });
+    }
+    if (req.method === 'POST' && url.pathname.endsWith(':generateContent')) {
+      if (fake.scenario === 'error') {
+        return sendJson(res, 500, { error: { code: 500, message: 'Internal error encountered.', status: 'INTERNAL' } });
+      }
+      return sendJson(res, 200, { candidates: [{ content: { role: 'model', parts: [{ text: 'An enhanced prompt' }] }, finishReason: 'STOP', index: 0 }], usageMetadata });
+    }
+    sendJson(res, 404, { error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } });
+  }, port);
+  return Object.assign(fake, server, { scenario: 'ok' as GeminiScenario, pollsUntilDone: 1 });
+}
@@ -0,0 +1,41 @@
+import { PNG_BASE64, sendJson, startFakeServer, FakeServer } from './server';
+
+export type OpenAIScenario = 'ok' | 'error' | 'empty';
+
+export type FakeOpenAI = FakeServer & { scenario: OpenAIScenario };
+
+// Mimics the OpenAI Images API (generations and edits) returning b64_json output.
+// Point OPENAI_BASE_URL at `${fake.url}/v1`.
+export async function startFakeOpenAI(port = 0): Promise<FakeOpenAI> {
+  const fake = {} as FakeOpenAI;
+  const server = await startFakeServer((req, res) => {
+    const url = new URL(req.path, 'http://fake');
+    if (!String(req.headers.authorization || '').startsWith('Bearer ')) {
+      return sendJson(res, 401, { error: { message: 'Missing API key', type: 'invalid_request_error' } });
+    }
+    if (req.method === 'POST' && (url.pathname === '/v1/images/generations' || url.pathname === '/v1/images/edits')) {
+      if (fake.scenario === 'error') {
+        return sendJson(res, 400, { error: { message: 'Your request was rejected by the safety system.', type: 'invalid_request_error', code: 'moderation_blocked' } });
+      }
+      return sendJson(res, 200, {
+        created: Math.floor(Date.now() / 1000),
+        data: fake.scenario === 'empty' ? [] : [{ b64_json: PNG_BASE64 }],
+        usage: {
+          input_tokens: 12,
+          input_tokens_details: { image_tokens: 0, text_tokens: 12 },
+          output_tokens: 1056,
+          total_tokens: 1068,
+        },
+      }, { 'x-request-id': 'req_fake' });
+    }
+    if (req.method === 'POST' && url.pathname === '/v1/responses') {
+      return sendJson(res, 200, {
+        id: 'resp_fake',
+        object: 'response',
+        output: [{ type: 'output_text', text: 'An enhanced prompt' }],
+      });
+    }
+    sendJson(res, 404, { error: { message: 'Not found' } });
+  }, port);
+  return Object.assign(fake, server, { scenario: 'ok' as OpenAIScenario });
+}
@@ -0,0 +1,21 @@
+// Runs all provider fakes on fixed ports for local development:
+//   npm run fakes
+// then start `npm run dev` with the printed environment variables.
+import { startFakeBfl } from './bfl';
+import { startFakeGemini } from './gemini';
+import { startFakeOpenAI } from './openai';
+
+async function main() {
+  const bfl = await startFakeBfl(4101);
+  const openai = await startFakeOpenAI(4102);
+  const gemini = await startFakeGemini(4103);
+  console.log('Provider fakes listening. Use:');
+  console.log(`  BFL_BASE_URL=${bfl.url} BFL_API_KEY=fake`);
+  console.log(`  OPENAI_BASE_URL=${openai.url}/v1 OPENAI_API_KEY=fake`);
+  console.log(`  GEMINI_BASE_URL=${gemini.url} GEMINI_API_KEY=fake`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export type RecordedRequest = {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+export type FakeServer = {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+};
+
+export type Handler = (req: RecordedRequest, res: http.ServerResponse) => void | Promise<void>;
+
+// A 1x1 transparent PNG, used as the "generated" image by every fake.
+export const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Starts an HTTP server on a random local port and records every request it sees.
+export async function startFakeServer(handler: Handler, port = 0): Promise<FakeServer> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const recorded: RecordedRequest = {
+      method: req.method || 'GET',
+      path: req.url || '/',
+      headers: req.headers,
+      body: Buffer.concat(chunks).toString('utf8'),
+    };
+    requests.push(recorded);
+    try {
+      await handler(recorded, res);
+    } catch (err) {
+      if (!res.headersSent) sendJson(res, 500, { error: err instanceof Error ? err.message : 'fake server error' });
+      else res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+  const { port: boundPort } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${boundPort}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close((err) => (err ? reject(err) : resolve()));
+    }),
+  };
+}
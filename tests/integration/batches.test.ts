@@ -0,0 +1,215 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '@/db';
+import { batchItemsTable, jobsTable, usersTable } from '@/db/schema';
+import { GET as listBatches, POST as createBatch } from '@/app/api/batches/route';
+import { GET as getBatch } from '@/app/api/batches/[id]/route';
+import { POST as cancelBatch } from '@/app/api/batches/[id]/cancel/route';
+import { GET as exportBatch } from '@/app/api/batches/[id]/export/route';
+import { batchFormatOf, parseBatchFile } from '@/batch-file';
+import { flushAfter } from '../support/after';
+import { resetDb, TestDb } from '../support/db';
+import { driveJob } from '../support/jobs';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { jsonRequest } from '../support/requests';
+import { serveImage } from '../support/storage';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  serveImage('https://images.test/fox.png');
+  await resetDb(db as unknown as TestDb);
+});
+
+type AuthResult = Awaited<ReturnType<typeof auth>>;
+
+const idParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const CSV = [
+  'prompt,image,tags',
+  'a red fox,,animals|red',
+  '"a fox, in the snow",https://images.test/fox.png,animals',
+  '"a ""quoted""\nprompt",,',
+  'an owl,,animals',
+].join('\r\n');
+
+async function create(body: Record<string, unknown>) {
+  const res = await createBatch(jsonRequest('/api/batches', body));
+  return { status: res.status, json: await res.json() };
+}
+
+async function activeJobs(batchId: string) {
+  const rows = await db.select({ id: jobsTable.id }).from(jobsTable)
+    .innerJoin(batchItemsTable, eq(jobsTable.batchItemId, batchItemsTable.id))
+    .where(and(eq(batchItemsTable.batchId, batchId), inArray(jobsTable.status, ['queued', 'running'])));
+  return rows.map((row) => row.id);
+}
+
+// Runs the batch's jobs, as the worker would, until none are left
+async function driveBatch(batchId: string) {
+  await flushAfter();
+  for (let jobs = await activeJobs(batchId); jobs.length > 0; jobs = await activeJobs(batchId)) {
+    for (const id of jobs) await driveJob(id);
+  }
+}
+
+async function fetchBatch(id: string) {
+  const res = await getBatch(new NextRequest(`http://localhost:3000/api/batches/${id}`), idParams(id));
+  return { status: res.status, json: await res.json() };
+}
+
+describe('batch files', () => {
+  it('parses CSV with quoted fields and JSONL', () => {
+    const csv = parseBatchFile(CSV, 'csv');
+    expect(csv.errors).toEqual([]);
+    expect(csv.items).toEqual([
+      { prompt: 'a red fox', imageUrl: undefined, tags: ['animals', 'red'] },
+      { prompt: 'a fox, in the snow', imageUrl: 'https://images.test/fox.png', tags: ['animals'] },
+      { prompt: 'a "quoted"\nprompt', imageUrl: undefined, tags: [] },
+      { prompt: 'an owl', imageUrl: undefined, tags: ['animals'] },
+    ]);
+
+    const jsonl = parseBatchFile('{"prompt":"a fox","tags":["a"]}\n\n{"prompt":"an owl","image":"https://example.com/owl.png"}\n', 'jsonl');
+    expect(jsonl).toEqual({
+      items: [
+        { prompt: 'a fox', imageUrl: undefined, tags: ['a'] },
+        { prompt: 'an owl', imageUrl: 'https://example.com/owl.png', tags: [] },
+      ],
+      errors: [],
+    });
+    expect(batchFormatOf('suite.JSONL')).toBe('jsonl');
+    expect(batchFormatOf('suite.csv')).toBe('csv');
+  });
+
+  it('reports errors with their line', () => {
+    expect(parseBatchFile('text\nhello', 'csv').errors).toEqual(['Line 1: the header needs a "prompt" column']);
+    expect(parseBatchFile('prompt,image\n"multi\nline",\n,ftp://x', 'csv').errors).toEqual(['Line 4: prompt is missing']);
+    expect(parseBatchFile('{"prompt":"a"}\nnot json\n{"prompt":"b","tags":[1]}', 'jsonl').errors).toEqual([
+      'Line 2: invalid JSON',
+      'Line 3: tags must be a list of strings',
+    ]);
+    expect(parseBatchFile('prompt\n', 'csv').errors).toEqual(['The file has no prompts']);
+    expect(parseBatchFile(`prompt\n${'a fox\n'.repeat(201)}`, 'csv').errors).toEqual(['A batch can have at most 200 prompts']);
+  });
+});
+
+describe('/api/batches', () => {
+  it('validates the request', async () => {
+    expect((await create({ format: 'csv', content: CSV, models: [] })).json.error).toBe('Select at least one known model');
+    expect((await create({ format: 'xml', content: CSV, models: ['flux-1'] })).json.error).toBe('Upload a CSV or JSONL file');
+    const invalid = await create({ format: 'jsonl', content: 'nope', models: ['flux-1'], concurrency: 20 });
+    expect(invalid.status).toBe(400);
+    expect(invalid.json.error).toBe('Line 1: invalid JSON; concurrency must be an integer from 1 to 8');
+    const badImage = await create({ format: 'jsonl', content: '{"prompt":"a fox"}\n{"prompt":"an owl","image":"https://images.test/owl.png"}', models: ['flux-1'] });
+    expect([badImage.status, badImage.json.error]).toEqual([400, 'Prompt 2: Could not fetch the input image (404)']);
+    expect(await db.select().from(jobsTable)).toHaveLength(0);
+  });
+
+  it('runs prompts against every model, a limited number at a time', async () => {
+    const { status, json: created } = await create({ name: 'Animals', format: 'csv', content: CSV.replace('https://images.test/fox.png', ''), models: ['flux-1', 'image-gpt'], params: { seed: 7 }, concurrency: 2 });
+    expect(status).toBe(201);
+    expect(created).toMatchObject({ name: 'Animals', status: 'running', models: ['flux-1', 'image-gpt'], progress: { total: 4, pending: 2, running: 2, done: 0 } });
+    // Only the first two prompts have jobs, one per model
+    expect(await db.select().from(jobsTable)).toHaveLength(4);
+
+    // Finishing a prompt's jobs starts the next prompt
+    const [first] = created.items;
+    for (const cell of Object.values(first.results) as { jobId: string }[]) {
+      await driveJob(cell.jobId);
+    }
+    expect((await fetchBatch(created.id)).json.progress).toEqual({ total: 4, pending: 1, running: 2, done: 1 });
+
+    await driveBatch(created.id);
+    const { json: batch } = await fetchBatch(created.id);
+    expect(batch).toMatchObject({ status: 'completed', progress: { total: 4, pending: 0, running: 0, done: 4 } });
+    expect(batch.items[3]).toMatchObject({ prompt: 'an owl', tags: ['animals'], status: 'done' });
+    expect(batch.items[3].results['flux-1']).toMatchObject({ status: 'completed', imageUrl: expect.stringMatching(/^https:\/\//), generationId: expect.any(Number) });
+
+    const rows = await db.select().from(usersTable).orderBy(usersTable.id);
+    expect(rows).toHaveLength(8);
+    expect(rows.every((row) => row.metadata.batch?.batchId === created.id && row.metadata.params?.seed === 7)).toBe(true);
+
+    const list = await (await listBatches()).json();
+    expect(list.batches).toEqual([expect.objectContaining({ id: created.id, name: 'Animals', status: 'completed', total: 4, done: 4 })]);
+  });
+
+  it('keeps going when a model fails', async () => {
+    fakes.bfl.scenario = 'submit-error';
+    const { json: created } = await create({ format: 'jsonl', content: '{"prompt":"a fox"}\n{"prompt":"an owl"}', models: ['flux-1', 'image-gpt'], concurrency: 1 });
+    expect(created.name).toBe('Batch of 2 prompts');
+    await driveBatch(created.id);
+    const { json: batch } = await fetchBatch(created.id);
+    expect(batch.status).toBe('completed');
+    expect(batch.items.map((item: { results: Record<string, { status: string }> }) => [item.results['flux-1'].status, item.results['image-gpt'].status])).toEqual([
+      ['failed', 'completed'],
+      ['failed', 'completed'],
+    ]);
+  });
+
+  it('stops starting prompts once cancelled', async () => {
+    const { json: created } = await create({ format: 'csv', content: CSV, models: ['image-gpt'], concurrency: 1 });
+    const cancelled = await cancelBatch(new NextRequest('http://localhost:3000/api/batches/x/cancel', { method: 'POST' }), idParams(created.id));
+    expect((await cancelled.json()).status).toBe('cancelled');
+    await driveBatch(created.id);
+    const { json: batch } = await fetchBatch(created.id);
+    expect(batch).toMatchObject({ status: 'cancelled', progress: { pending: 3 } });
+    expect(await db.select().from(jobsTable)).toHaveLength(1);
+  });
+
+  it('exports the prompt × model matrix', async () => {
+    const { json: created } = await create({ format: 'csv', content: CSV, models: ['flux-1'] });
+    await driveBatch(created.id);
+    const submit = fakes.bfl.requests.find((r) => r.method === 'POST' && r.body.includes('in the snow'));
+    // The row's image was stored when the batch was created
+    const [item] = await db.select().from(batchItemsTable).where(eq(batchItemsTable.position, 1));
+    expect(item.imageUrl).toMatch(/^https:\/\/storage\.test\/images\/input-.+\.png$/);
+    expect(JSON.parse(submit!.body).input_image).toBe(item.imageUrl);
+
+    const csv = await exportBatch(new NextRequest(`http://localhost:3000/api/batches/${created.id}/export`), idParams(created.id));
+    expect(csv.headers.get('content-type')).toContain('text/csv');
+    const lines = (await csv.text()).split('\r\n');
+    expect(lines[0]).toBe('position,prompt,image,tags,flux-1 status,flux-1 output,flux-1 cost_usd');
+    expect(lines[2]).toMatch(new RegExp(`^2,"a fox, in the snow",${item.imageUrl},animals,completed,https://\\S+,[\\d.]*$`));
+    // Quotes are doubled and the newline stays inside the quoted cell
+    expect(lines[3]).toMatch(/^3,"a ""quoted""\nprompt",,,completed,/);
+
+    const json = await exportBatch(new NextRequest(`http://localhost:3000/api/batches/${created.id}/export?format=json`), idParams(created.id));
+    expect(json.headers.get('content-disposition')).toBe(`attachment; filename="batch-${created.id}.json"`);
+    expect((await json.json()).items).toHaveLength(4);
+  });
+
+  it('keeps prompts that look like formulas from running in the exported CSV', async () => {
+    const content = ['prompt,tags', '=HYPERLINK(https://evil.test),', '+1+2,', '-3,@sum', '@SUM(A1),'].join('\r\n');
+    const { json: created } = await create({ format: 'csv', content, models: ['flux-1'] });
+    const csv = await exportBatch(new NextRequest(`http://localhost:3000/api/batches/${created.id}/export`), idParams(created.id));
+    const cells = (await csv.text()).split('\r\n').slice(1).map((line) => line.split(',').slice(1, 4));
+    expect(cells).toEqual([
+      ["'=HYPERLINK(https://evil.test)", '', ''],
+      ["'+1+2", '', ''],
+      ["'-3", '', "'@sum"],
+      ["'@SUM(A1)", '', ''],
+    ]);
+  });
+
+  it('hides other users’ batches', async () => {
+    const { json: created } = await create({ format: 'csv', content: CSV, models: ['image-gpt'] });
+    vi.mocked(auth).mockResolvedValue({ userId: 'user_other' } as AuthResult);
+    try {
+      expect((await fetchBatch(created.id)).status).toBe(404);
+      expect((await (await listBatches()).json()).batches).toEqual([]);
+    } finally {
+      vi.mocked(auth).mockResolvedValue({ userId: 'user_test' } as AuthResult);
+    }
+  });
+});
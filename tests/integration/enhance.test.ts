@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '@/db';
+import { jobsTable, promptEnhancementsTable, usersTable } from '@/db/schema';
+import { POST as stream } from '@/app/api/generate/stream/route';
+import { POST as flux } from '@/app/api/flux-1/route';
+import { POST as textToPrompt } from '@/app/api/text-to-prompt/route';
+import { POST as veo3 } from '@/app/api/veo3/route';
+import { enhanceConfig, enhancePrompt, SYSTEM_PROMPTS } from '@/enhance';
+import { resetDb, TestDb } from '../support/db';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { expectJob } from '../support/jobs';
+import { jsonRequest, readEvents } from '../support/requests';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  vi.unstubAllEnvs();
+  await resetDb(db as unknown as TestDb);
+});
+
+function enhancerCalls() {
+  return {
+    gemini: fakes.gemini.requests.filter((r) => r.path.endsWith(':generateContent')).length,
+    openai: fakes.openai.requests.filter((r) => r.path === '/v1/responses').length,
+  };
+}
+
+describe('enhancePrompt', () => {
+  it('caches results by prompt and configuration', async () => {
+    const config = enhanceConfig('shared');
+    expect(await enhancePrompt('a red fox', config)).toEqual({ prompt: 'An enhanced prompt', enhancer: 'gemini', cached: false });
+    expect(await enhancePrompt('a red fox', config)).toEqual({ prompt: 'An enhanced prompt', enhancer: 'gemini', cached: true });
+    expect(enhancerCalls()).toEqual({ gemini: 1, openai: 0 });
+
+    // A different system prompt is a different cache entry
+    await enhancePrompt('a red fox', { enhancer: 'gemini', systemPrompt: SYSTEM_PROMPTS.video });
+    expect(enhancerCalls().gemini).toBe(2);
+    expect(await db.select().from(promptEnhancementsTable)).toHaveLength(2);
+  });
+
+  it('returns null when the enhancer fails', async () => {
+    fakes.gemini.scenario = 'error';
+    expect(await enhancePrompt('a red fox', enhanceConfig('shared'))).toBeNull();
+    expect(await db.select().from(promptEnhancementsTable)).toHaveLength(0);
+  });
+
+  it('picks the shared enhancer from PROMPT_ENHANCER', () => {
+    vi.stubEnv('PROMPT_ENHANCER', 'openai');
+    expect(enhanceConfig('shared', 'veo-3')).toEqual({ enhancer: 'openai', systemPrompt: SYSTEM_PROMPTS.image });
+    expect(enhanceConfig('per-model', 'veo-3')).toEqual({ enhancer: 'gemini', systemPrompt: SYSTEM_PROMPTS.video });
+  });
+});
+
+describe('enhancement modes', () => {
+  it('sends every model the same enhanced prompt by default', async () => {
+    await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a red fox', models: ['flux-1', 'image-gpt'], enhance: true })));
+    const rows = await db.select().from(usersTable);
+    expect(rows.map((r) => r.enhancedPrompt)).toEqual(['An enhanced prompt', 'An enhanced prompt']);
+    expect(rows.map((r) => r.metadata.enhancement)).toEqual([
+      expect.objectContaining({ mode: 'shared', enhancer: 'gemini' }),
+      expect.objectContaining({ mode: 'shared', enhancer: 'gemini' }),
+    ]);
+    expect(enhancerCalls().openai).toBe(0);
+    expect(await db.select().from(promptEnhancementsTable)).toHaveLength(1);
+  });
+
+  it('enhances for each model in per-model mode', async () => {
+    await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a red fox', models: ['flux-1', 'image-gpt'], enhance: true, enhanceMode: 'per-model' })));
+    const rows = await db.select().from(usersTable);
+    expect(Object.fromEntries(rows.map((r) => [r.model, r.metadata.enhancement?.enhancer]))).toEqual({ 'flux-1': 'gemini', 'image-gpt': 'openai' });
+    expect(enhancerCalls()).toEqual({ gemini: 1, openai: 1 });
+  });
+
+  it('rejects an unknown mode', async () => {
+    const res = await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox', enhance: true, enhanceMode: 'sometimes' }));
+    expect(res.status).toBe(400);
+    expect(await db.select().from(jobsTable)).toHaveLength(0);
+  });
+
+  it('generates from the prompt as written when enhancement fails', async () => {
+    fakes.gemini.scenario = 'error';
+    const job = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox', enhance: true })));
+    expect(job.status).toBe('completed');
+    const [row] = await db.select().from(usersTable);
+    expect(row.enhancedPrompt).toBeNull();
+    expect(row.metadata.enhancement).toBeUndefined();
+  });
+});
+
+describe('POST /api/text-to-prompt', () => {
+  it('enhances text through the shared enhancer', async () => {
+    const res = await textToPrompt(jsonRequest('/api/text-to-prompt', { text: 'a red fox' }));
+    expect(await res.json()).toEqual({ prompt: 'An enhanced prompt', enhancer: 'gemini', cached: false });
+    const again = await textToPrompt(jsonRequest('/api/text-to-prompt', { text: 'a red fox' }));
+    expect((await again.json()).cached).toBe(true);
+  });
+
+  it('uses the model’s enhancer in per-model mode', async () => {
+    const res = await textToPrompt(jsonRequest('/api/text-to-prompt', { text: 'a red fox', model: 'image-gpt', enhanceMode: 'per-model' }));
+    expect((await res.json()).enhancer).toBe('openai');
+  });
+
+  it('rejects empty text', async () => {
+    expect((await textToPrompt(jsonRequest('/api/text-to-prompt', { text: ' ' }))).status).toBe(400);
+  });
+});
+
+describe('veo3 structured prompts', () => {
+  it('composes the prompt from keywords', async () => {
+    await expectJob(await veo3(jsonRequest('/api/veo3', { subject: 'a lighthouse', action: 'glowing', scene: 'a stormy coast' })));
+    const [job] = await db.select().from(jobsTable);
+    expect(job.input).toMatchObject({ prompt: 'An enhanced prompt' });
+    const call = fakes.gemini.requests.find((r) => r.path.endsWith(':generateContent'))!;
+    expect(call.body).toContain('Mandatory keywords: a lighthouse, glowing, a stormy coast');
+  });
+
+  it('falls back to the keywords when the enhancer fails', async () => {
+    fakes.gemini.scenario = 'error';
+    const res = await veo3(jsonRequest('/api/veo3', { subject: 'a lighthouse', action: 'glowing' }));
+    const [job] = await db.select().from(jobsTable);
+    expect(res.status).toBe(202);
+    expect(job.input).toMatchObject({ prompt: 'a lighthouse, glowing' });
+  });
+});
@@ -0,0 +1,250 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/db';
+import { quotaAccountsTable, usersTable } from '@/db/schema';
+import { POST as generate } from '@/app/api/generate/route';
+import { POST as flux } from '@/app/api/flux-1/route';
+import { POST as gemini } from '@/app/api/gemini-image-flash/route';
+import { POST as imageGpt } from '@/app/api/image-gpt/route';
+import { POST as veo3 } from '@/app/api/veo3/route';
+import { resetDb, TestDb } from '../support/db';
+import { serveImage } from '../support/storage';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { driveJob, expectJob } from '../support/jobs';
+import { jsonRequest } from '../support/requests';
+import { PNG_BASE64 } from '../fakes/server';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+describe('POST /api/generate', () => {
+  it('rejects unknown models', async () => {
+    const res = await generate(jsonRequest('/api/generate', { model: 'dall-e-9', prompt: 'a cat' }));
+    expect(res.status).toBe(400);
+  });
+
+  it('requires a signed-in user', async () => {
+    vi.mocked(auth).mockResolvedValueOnce({ userId: null } as Awaited<ReturnType<typeof auth>>);
+    const res = await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a cat' }));
+    expect(res.status).toBe(401);
+  });
+
+  it('requires a prompt', async () => {
+    const res = await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: '  ' }));
+    expect(res.status).toBe(400);
+  });
+
+  it('enforces the generation quota', async () => {
+    await db.insert(quotaAccountsTable).values({ userId: 'user_test', limitOverride: 0 });
+    const res = await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a cat' }));
+    expect(res.status).toBe(429);
+    expect(fakes.bfl.requests).toHaveLength(0);
+    expect(await db.select().from(usersTable)).toHaveLength(0);
+  });
+
+  it('queues one job per sample', async () => {
+    const res = await generate(jsonRequest('/api/generate', { model: 'image-gpt', prompt: 'a cat', n: 3 }));
+    expect(res.status).toBe(202);
+    const body = await res.json();
+    expect(body.jobs).toHaveLength(3);
+    expect(body.jobs[0]).toEqual({ jobId: body.jobId, generationId: body.generationId });
+
+    const results = await Promise.all(body.jobs.map(({ jobId }: { jobId: string }) => driveJob(jobId)));
+    expect(results.map((job) => job.status)).toEqual(['completed', 'completed', 'completed']);
+    const rows = await db.select().from(usersTable).orderBy(usersTable.id);
+    expect(rows.map((r) => r.metadata.sample)).toEqual([0, 1, 2].map((index) => ({ index, count: 3 })));
+    expect(new Set(rows.map((r) => r.outputImageUrl)).size).toBe(3);
+  });
+
+  it('records the stored URL of an image sent as a data URL', async () => {
+    // As the composer sends an upload: far longer than the column holding it
+    const image = `data:image/png;base64,${Buffer.concat([Buffer.from(PNG_BASE64, 'base64'), Buffer.alloc(4096)]).toString('base64')}`;
+    expect(image.length).toBeGreaterThan(255);
+    const res = await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'make it blue', image }));
+    expect(await expectJob(res)).toMatchObject({ status: 'completed' });
+    const [row] = await db.select().from(usersTable);
+    expect(row.inputImageUrl).toMatch(/^https:\/\/storage\.test\/images\/input-.*\.png$/);
+    expect(row.inputImages).toEqual([{ url: row.inputImageUrl }]);
+  });
+
+  it('rejects an invalid sample count', async () => {
+    for (const n of [0, 5, 'two']) {
+      const res = await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a cat', n }));
+      expect(res.status).toBe(400);
+    }
+    expect(await db.select().from(usersTable)).toHaveLength(0);
+  });
+});
+
+describe('flux-1', () => {
+  it('submits, polls and stores the result', async () => {
+    serveImage('https://example.test/in.png');
+    fakes.bfl.pollsUntilReady = 2;
+    const job = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox', image: 'https://example.test/in.png' })));
+    expect(job).toMatchObject({ status: 'completed', stage: 'done', model: 'flux-1' });
+    expect(job.result?.image).toMatch(/^https:\/\/storage\.test\/images\/.+\.0\.png$/);
+
+    const rows = await db.select().from(usersTable);
+    expect(rows).toHaveLength(1);
+    // The image was fetched and stored before the job was queued
+    expect(rows[0]).toMatchObject({ id: job.generationId, model: 'flux-1', status: 'completed', prompt: 'a red fox', inputImageUrl: expect.stringMatching(/^https:\/\/storage\.test\/images\/input-/), outputImageUrl: job.result?.image, error: '' });
+
+    const submit = fakes.bfl.requests.find((r) => r.method === 'POST');
+    expect(JSON.parse(submit!.body)).toEqual({ prompt: 'a red fox', input_image: rows[0].inputImageUrl });
+    expect(fakes.bfl.requests.filter((r) => r.path.startsWith('/v1/get_result'))).toHaveLength(3);
+  });
+
+  it('records a pending generation when the job is queued', async () => {
+    const res = await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox' }));
+    expect(res.status).toBe(202);
+    const { generationId } = await res.json();
+    const [row] = await db.select().from(usersTable);
+    expect(row).toMatchObject({ id: generationId, status: 'pending' });
+    expect(fakes.bfl.requests).toHaveLength(0);
+  });
+
+  it('fails the job when submit fails', async () => {
+    fakes.bfl.scenario = 'submit-error';
+    const job = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox' })));
+    expect(job).toMatchObject({ status: 'failed', stage: 'error', error: 'BFL submit failed' });
+    const rows = await db.select().from(usersTable);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ status: 'failed', error: 'BFL submit failed', outputImageUrl: '' });
+  });
+
+  it('fails the job when polling fails', async () => {
+    fakes.bfl.scenario = 'poll-error';
+    const job = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox' })));
+    expect(job).toMatchObject({ status: 'failed', error: 'BFL polling failed' });
+  });
+
+  it('reports failed tasks', async () => {
+    fakes.bfl.scenario = 'failed';
+    const job = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox' })));
+    expect(job).toMatchObject({ status: 'failed', error: 'Generation failed' });
+    const [row] = await db.select().from(usersTable);
+    expect(row).toMatchObject({ status: 'failed', error: 'Generation failed' });
+  });
+
+  it('times out when the task never completes', async () => {
+    fakes.bfl.scenario = 'pending';
+    vi.stubEnv('BFL_POLL_TIMEOUT_MS', '200');
+    const job = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox' })));
+    expect(job).toMatchObject({ status: 'failed', error: 'Generation timed out' });
+    const [row] = await db.select().from(usersTable);
+    expect(row).toMatchObject({ status: 'failed', error: 'Generation timed out' });
+  });
+});
+
+describe('image-gpt', () => {
+  it('stores the b64 output and reports token usage', async () => {
+    const job = await expectJob(await imageGpt(jsonRequest('/api/image-gpt', { prompt: 'a blue bird' })));
+    expect(job).toMatchObject({ status: 'completed', model: 'image-gpt', result: { tokens: 1068, usage: { inputTokens: 12, outputTokens: 1056, totalTokens: 1068 } } });
+    expect(job.result?.image).toMatch(/^https:\/\/storage\.test\/images\//);
+
+    const call = fakes.openai.requests.find((r) => r.path === '/v1/images/generations');
+    expect(JSON.parse(call!.body)).toMatchObject({ model: 'gpt-image-1', prompt: 'a blue bird' });
+
+    const rows = await db.select().from(usersTable);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ model: 'image-gpt', status: 'completed', inputImageUrl: '' });
+  });
+
+  it('surfaces API errors', async () => {
+    fakes.openai.scenario = 'error';
+    const job = await expectJob(await imageGpt(jsonRequest('/api/image-gpt', { prompt: 'a blue bird' })));
+    expect(job.status).toBe('failed');
+    expect(job.error).toMatch(/safety system/);
+    const [row] = await db.select().from(usersTable);
+    expect(row.status).toBe('failed');
+    expect(row.error).toMatch(/safety system/);
+  });
+
+  it('fails when no image is returned', async () => {
+    fakes.openai.scenario = 'empty';
+    const job = await expectJob(await imageGpt(jsonRequest('/api/image-gpt', { prompt: 'a blue bird' })));
+    expect(job).toMatchObject({ status: 'failed', error: 'No image or text was generated' });
+  });
+
+  it('enhances the prompt when asked', async () => {
+    const job = await expectJob(await imageGpt(jsonRequest('/api/image-gpt', { prompt: 'a blue bird', enhance: true })));
+    expect(job.status).toBe('completed');
+    const call = fakes.openai.requests.find((r) => r.path === '/v1/images/generations');
+    expect(JSON.parse(call!.body).prompt).toBe('An enhanced prompt');
+  });
+});
+
+describe('gemini-image-flash', () => {
+  it('collects streamed inline data and usage', async () => {
+    const job = await expectJob(await gemini(jsonRequest('/api/gemini-image-flash', { prompt: 'a green frog' })));
+    expect(job).toMatchObject({ status: 'completed', model: 'gemini-image-flash', result: { text: 'Here is your image. ', tokens: 1298 } });
+    expect(job.result?.image).toMatch(/^https:\/\/storage\.test\/images\/.+\.png$/);
+    expect(await db.select().from(usersTable)).toHaveLength(1);
+  });
+
+  it('sends the input image inline', async () => {
+    const image = 'https://images.test/in.png';
+    serveImage(image);
+    const job = await expectJob(await gemini(jsonRequest('/api/gemini-image-flash', { prompt: 'make it blue', image })));
+    expect(job.status).toBe('completed');
+    const call = fakes.gemini.requests.find((r) => r.path.includes(':streamGenerateContent'));
+    const parts = JSON.parse(call!.body).contents[0].parts;
+    expect(parts).toContainEqual({ inlineData: { mimeType: 'image/png', data: PNG_BASE64 } });
+  });
+
+  it('returns text-only answers and records them as failed', async () => {
+    fakes.gemini.scenario = 'text-only';
+    const job = await expectJob(await gemini(jsonRequest('/api/gemini-image-flash', { prompt: 'a green frog' })));
+    expect(job.status).toBe('completed');
+    expect(job.result?.image).toBeUndefined();
+    expect(job.result?.text).toContain('I cannot draw that.');
+    const [row] = await db.select().from(usersTable);
+    expect(row).toMatchObject({ id: job.generationId, status: 'failed', error: 'No image was generated' });
+  });
+
+  it('surfaces API errors', async () => {
+    fakes.gemini.scenario = 'error';
+    const job = await expectJob(await gemini(jsonRequest('/api/gemini-image-flash', { prompt: 'a green frog' })));
+    expect(job.status).toBe('failed');
+    const [row] = await db.select().from(usersTable);
+    expect(row.status).toBe('failed');
+    expect(row.error).toMatch(/Internal error encountered/);
+  });
+});
+
+describe('veo3', () => {
+  it('submits the operation, polls it and stores the video', async () => {
+    fakes.gemini.pollsUntilDone = 1;
+    const job = await expectJob(await veo3(jsonRequest('/api/veo3', { prompt: 'a timelapse of clouds' })));
+    expect(job).toMatchObject({ status: 'completed', model: 'veo-3' });
+    expect(job.result?.image).toMatch(/^https:\/\/storage\.test\/images\/.+\.mp4$/);
+    const download = fakes.gemini.requests.find((r) => r.path.startsWith('/files/'));
+    expect(download!.path).toContain('key=fake-google-key');
+  });
+
+  it('accepts numberOfVideos as the sample count', async () => {
+    const res = await veo3(jsonRequest('/api/veo3', { prompt: 'a timelapse of clouds', numberOfVideos: 2 }));
+    expect(res.status).toBe(202);
+    const { jobs } = await res.json();
+    expect(jobs).toHaveLength(2);
+    expect(await db.select().from(usersTable)).toHaveLength(2);
+  });
+
+  it('requires a signed-in user', async () => {
+    vi.mocked(auth).mockResolvedValueOnce({ userId: null } as Awaited<ReturnType<typeof auth>>);
+    const res = await veo3(jsonRequest('/api/veo3', { prompt: 'a timelapse of clouds' }));
+    expect(res.status).toBe(401);
+  });
+});
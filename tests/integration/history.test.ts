@@ -0,0 +1,243 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/db';
+import { jobsTable, usersTable } from '@/db/schema';
+import { METADATA_VERSION } from '@/metadata';
+import { GET as history } from '@/app/api/generations/route';
+import { GET as fetchImages } from '@/app/api/fetch-images/route';
+import { GET as generation } from '@/app/api/generations/[id]/route';
+import { POST as rerun } from '@/app/api/generations/[id]/rerun/route';
+import { GET as lineage } from '@/app/api/generations/[id]/lineage/route';
+import { POST as gemini } from '@/app/api/gemini-image-flash/route';
+import { POST as flux } from '@/app/api/flux-1/route';
+import { resetDb, TestDb } from '../support/db';
+import { serveImage } from '../support/storage';
+import { driveJob, expectJob } from '../support/jobs';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { jsonRequest } from '../support/requests';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+const base = { userId: 'user_test', inputImageUrl: '', outputImageUrl: '', error: '', metadata: { version: METADATA_VERSION } };
+
+async function seed() {
+  await db.insert(usersTable).values([
+    { ...base, prompt: 'a red fox', model: 'flux-1', status: 'completed', outputImageUrl: 'https://storage.test/1.png', createdAt: new Date('2025-01-01T10:00:00Z'), metadata: { version: METADATA_VERSION, timing: { durationMs: 1200 } } },
+    { ...base, prompt: 'a blue owl', model: 'image-gpt', status: 'failed', error: 'Boom', createdAt: new Date('2025-01-02T10:00:00Z') },
+    { ...base, prompt: 'edit: make the fox 100% red', model: 'flux-1', status: 'completed', inputImageUrl: 'https://storage.test/in.png', outputImageUrl: 'https://storage.test/3.png', createdAt: new Date('2025-01-03T10:00:00Z') },
+    { ...base, prompt: 'a green frog', model: 'gemini-image-flash', status: 'completed', outputImageUrl: 'https://storage.test/4.png', createdAt: new Date('2025-01-04T10:00:00Z') },
+    { ...base, userId: 'someone_else', prompt: 'a red fox', model: 'flux-1', status: 'completed', outputImageUrl: 'https://storage.test/5.png' },
+  ]);
+}
+
+async function list(query: string) {
+  const res = await history(new NextRequest(`http://localhost:3000/api/generations?${query}`));
+  return { status: res.status, json: await res.json() };
+}
+
+const prompts = (json: { generations: { prompt: string }[] }) => json.generations.map((g) => g.prompt);
+
+describe('GET /api/generations', () => {
+  it('pages through the user’s generations, newest first', async () => {
+    await seed();
+    const first = await list('limit=3');
+    expect(prompts(first.json)).toEqual(['a green frog', 'edit: make the fox 100% red', 'a blue owl']);
+    expect(first.json.nextCursor).toEqual(expect.any(String));
+
+    const second = await list(`limit=3&cursor=${first.json.nextCursor}`);
+    expect(second.json).toMatchObject({ nextCursor: null });
+    expect(second.json.generations).toEqual([{
+      id: 1,
+      prompt: 'a red fox',
+      enhancedPrompt: null,
+      model: 'flux-1',
+      status: 'completed',
+      inputImageUrl: null,
+      inputImages: [],
+      outputImageUrl: 'https://storage.test/1.png',
+      parentGenerationId: null,
+      parentGenerationIds: [],
+      costUsd: null,
+      timing: { durationMs: 1200 },
+      metadata: { version: METADATA_VERSION, timing: { durationMs: 1200 } },
+      createdAt: '2025-01-01T10:00:00.000Z',
+    }]);
+  });
+
+  it('filters by model, status, date, prompt text and input image', async () => {
+    await seed();
+    expect(prompts((await list('model=flux-1,gemini-image-flash&status=completed')).json)).toEqual(['a green frog', 'edit: make the fox 100% red', 'a red fox']);
+    expect(prompts((await list('status=failed')).json)).toEqual(['a blue owl']);
+    expect(prompts((await list('from=2025-01-02&to=2025-01-04')).json)).toEqual(['edit: make the fox 100% red', 'a blue owl']);
+    expect(prompts((await list('q=FOX')).json)).toEqual(['edit: make the fox 100% red', 'a red fox']);
+    // LIKE wildcards in the search are matched literally
+    expect(prompts((await list('q=100%25')).json)).toEqual(['edit: make the fox 100% red']);
+    expect(prompts((await list('q=_')).json)).toEqual([]);
+    expect(prompts((await list('hasInputImage=true')).json)).toEqual(['edit: make the fox 100% red']);
+    expect(prompts((await list('hasInputImage=false&model=flux-1')).json)).toEqual(['a red fox']);
+  });
+
+  it('rejects invalid queries', async () => {
+    const { status, json } = await list('status=done&from=soon&limit=500&cursor=abc&hasInputImage=yes');
+    expect(status).toBe(400);
+    expect(json.error).toBe('status must be one of pending, running, completed, failed; from must be a date; hasInputImage must be true or false; cursor is invalid; limit must be an integer from 1 to 100');
+  });
+
+  it('requires a signed-in user', async () => {
+    vi.mocked(auth).mockResolvedValueOnce({ userId: null } as Awaited<ReturnType<typeof auth>>);
+    expect((await list('')).status).toBe(401);
+  });
+});
+
+describe('GET /api/fetch-images', () => {
+  it('counts completed generations without listing them', async () => {
+    await seed();
+    expect(await (await fetchImages()).json()).toEqual({
+      count: 3,
+      limitReached: false,
+      quota: { plan: 'free', label: 'Free', limit: 10, used: 0, remaining: 10, window: { type: 'rolling', days: 30 }, resetsAt: null },
+    });
+  });
+});
+
+const idParams = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+
+async function detail(id: number | string) {
+  const res = await generation(new NextRequest(`http://localhost:3000/api/generations/${id}`), idParams(id));
+  return { status: res.status, json: await res.json() };
+}
+
+describe('GET /api/generations/:id', () => {
+  it('returns the generation with the settings it was requested with', async () => {
+    serveImage('https://example.test/in.png');
+    const job = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox', image: 'https://example.test/in.png', params: { seed: 3 } })));
+    const { status, json } = await detail(job.generationId!);
+    expect(status).toBe(200);
+    expect(json).toMatchObject({
+      id: job.generationId,
+      prompt: 'a red fox',
+      model: 'flux-1',
+      status: 'completed',
+      inputImageUrl: expect.stringMatching(/^https:\/\/storage\.test\/images\/input-/),
+      outputImageUrl: expect.stringMatching(/^https:\/\//),
+      enhance: false,
+      params: { seed: 3 },
+      jobId: job.id,
+      stage: 'done',
+      timing: { durationMs: expect.any(Number) },
+    });
+  });
+
+  it('only shows the user’s own generations', async () => {
+    await seed();
+    expect((await detail(5)).status).toBe(404);
+    expect((await detail('abc')).status).toBe(404);
+  });
+});
+
+describe('POST /api/generations/:id/rerun', () => {
+  it('re-runs on the same model with the same input and settings', async () => {
+    serveImage('https://example.test/in.png');
+    const original = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox', image: 'https://example.test/in.png', params: { seed: 3 } })));
+    const res = await rerun(jsonRequest(`/api/generations/${original.generationId}/rerun`, {}), idParams(original.generationId!));
+    expect(res.status).toBe(202);
+    const { jobs } = await res.json();
+    expect(jobs).toEqual([{ model: 'flux-1', jobId: expect.any(String), generationId: expect.any(Number) }]);
+    await driveJob(jobs[0].jobId);
+
+    const { json } = await detail(jobs[0].generationId);
+    expect(json).toMatchObject({ prompt: 'a red fox', inputImageUrl: expect.stringMatching(/^https:\/\/storage\.test\/images\/input-/), params: { seed: 3 }, status: 'completed' });
+    expect(json.metadata.rerunOf).toBe(original.generationId);
+  });
+
+  it('re-runs on every given model', async () => {
+    const original = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox' })));
+    const res = await rerun(jsonRequest('/api/generations/1/rerun', { models: ['flux-1', 'image-gpt', 'gemini-image-flash'] }), idParams(original.generationId!));
+    expect((await res.json()).jobs.map((job: { model: string }) => job.model)).toEqual(['flux-1', 'image-gpt', 'gemini-image-flash']);
+    const rows = await db.select().from(jobsTable);
+    expect(rows.filter((row) => (row.input as { prompt: string }).prompt === 'a red fox')).toHaveLength(4);
+
+    const invalid = await rerun(jsonRequest('/api/generations/1/rerun', { models: ['dall-e'] }), idParams(original.generationId!));
+    expect(invalid.status).toBe(400);
+    expect((await rerun(jsonRequest('/api/generations/99/rerun', {}), idParams(99))).status).toBe(404);
+  });
+});
+
+describe('edit lineage', () => {
+  type Node = { id: number; model: string; children: Node[] };
+  const shape = (node: Node): unknown => ({ id: node.id, model: node.model, children: node.children.map(shape) });
+
+  it('links edits to the generation whose output they were given', async () => {
+    serveImage('https://example.test/in.png');
+    const first = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox' })));
+    const output = (await detail(first.generationId!)).json.outputImageUrl;
+    const geminiEdit = await expectJob(await gemini(jsonRequest('/api/gemini-image-flash', { prompt: 'make it blue', image: output })));
+    const fluxEdit = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'make it blue', image: output })));
+    const second = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'add a hat', image: (await detail(fluxEdit.generationId!)).json.outputImageUrl })));
+    // An image that isn't an earlier output starts a chain of its own
+    const unrelated = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a cat', image: 'https://example.test/in.png' })));
+
+    expect((await detail(second.generationId!)).json.parentGenerationId).toBe(fluxEdit.generationId);
+    expect((await detail(unrelated.generationId!)).json.parentGenerationId).toBeNull();
+
+    const res = await lineage(new NextRequest(`http://localhost:3000/api/generations/${second.generationId}/lineage`), idParams(second.generationId!));
+    const json = await res.json();
+    expect(json.generationId).toBe(second.generationId);
+    expect(shape(json.root)).toEqual({
+      id: first.generationId,
+      model: 'flux-1',
+      children: [
+        { id: geminiEdit.generationId, model: 'gemini-image-flash', children: [] },
+        { id: fluxEdit.generationId, model: 'flux-1', children: [{ id: second.generationId, model: 'flux-1', children: [] }] },
+      ],
+    });
+  });
+
+  it('links an edit to the generation of every input image it was given', async () => {
+    const fox = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox' })));
+    const hat = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a hat' })));
+    const images = [
+      { image: (await detail(fox.generationId!)).json.outputImageUrl, role: 'subject' },
+      { image: (await detail(hat.generationId!)).json.outputImageUrl, role: 'style' },
+    ];
+    const edit = await expectJob(await gemini(jsonRequest('/api/gemini-image-flash', { prompt: 'the fox in the hat', images })));
+    expect(edit).toMatchObject({ status: 'completed' });
+    expect((await detail(edit.generationId!)).json).toMatchObject({ parentGenerationId: fox.generationId, parentGenerationIds: [fox.generationId, hat.generationId] });
+
+    // The edit shows in the tree of each image it was made from
+    for (const parent of [fox, hat]) {
+      const res = await lineage(new NextRequest(`http://localhost:3000/api/generations/${parent.generationId}/lineage`), idParams(parent.generationId!));
+      expect(shape((await res.json()).root)).toEqual({
+        id: parent.generationId,
+        model: 'flux-1',
+        children: [{ id: edit.generationId, model: 'gemini-image-flash', children: [] }],
+      });
+    }
+  });
+
+  it('keeps the parent when an edit is re-run', async () => {
+    const first = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox' })));
+    const edit = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'make it blue', image: (await detail(first.generationId!)).json.outputImageUrl })));
+    const { jobs } = await (await rerun(jsonRequest(`/api/generations/${edit.generationId}/rerun`, {}), idParams(edit.generationId!))).json();
+    expect((await detail(jobs[0].generationId)).json.parentGenerationId).toBe(first.generationId);
+  });
+
+  it('only follows the user’s own generations', async () => {
+    await seed();
+    expect((await lineage(new NextRequest('http://localhost:3000/api/generations/5/lineage'), idParams(5))).status).toBe(404);
+  });
+});
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { idempotencyKeysTable, jobsTable, quotaAccountsTable } from '@/db/schema';
+import { POST as generate } from '@/app/api/generate/route';
+import { POST as stream } from '@/app/api/generate/stream/route';
+import { resetDb, TestDb } from '../support/db';
+import { driveJob } from '../support/jobs';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { jsonRequest, readEvents } from '../support/requests';
+import { PNG_BASE64 } from '../fakes/server';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+const withKey = (key: string) => ({ headers: { 'Idempotency-Key': key } });
+
+describe('Idempotency-Key', () => {
+  it('answers repeats of a generation request with the first job', async () => {
+    const body = { model: 'flux-1', prompt: 'a red fox' };
+    // A double submit: the second request waits for the first
+    const [first, second] = await Promise.all([1, 2].map(() => generate(jsonRequest('/api/generate', body, withKey('key-1')))));
+    expect([first.status, second.status]).toEqual([202, 202]);
+    const job = await first.json();
+    expect(await second.json()).toEqual(job);
+    expect([first, second].map((res) => res.headers.get('Idempotent-Replayed')).sort()).toEqual([null, 'true']);
+    await driveJob(job.jobId);
+
+    const retry = await generate(jsonRequest('/api/generate', body, withKey('key-1')));
+    expect(retry.status).toBe(202);
+    expect((await retry.json()).jobId).toBe(job.jobId);
+    expect(await db.select().from(jobsTable)).toHaveLength(1);
+    expect(fakes.bfl.requests.filter((r) => r.method === 'POST')).toHaveLength(1);
+
+    const reused = await generate(jsonRequest('/api/generate', { ...body, prompt: 'a grey wolf' }, withKey('key-1')));
+    expect(reused.status).toBe(422);
+    expect((await generate(jsonRequest('/api/generate', body, withKey('')))).status).toBe(400);
+    // Without a key every request runs
+    expect((await generate(jsonRequest('/api/generate', body))).status).toBe(202);
+    expect(await db.select().from(jobsTable)).toHaveLength(2);
+  });
+
+  it('recognises a multipart retry sent with a new boundary', async () => {
+    const png = Buffer.from(PNG_BASE64, 'base64');
+    const send = (prompt: string) => {
+      const form = new FormData();
+      form.set('model', 'flux-1');
+      form.set('prompt', prompt);
+      form.set('image', new File([png], 'in.png', { type: 'image/png' }));
+      return generate(new NextRequest('http://localhost:3000/api/generate', { method: 'POST', body: form, ...withKey('key-multipart') }));
+    };
+    const first = await send('a red fox');
+    expect(first.status).toBe(202);
+    const retry = await send('a red fox');
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect((await retry.json()).jobId).toBe((await first.json()).jobId);
+    expect((await send('a grey wolf')).status).toBe(422);
+    expect(await db.select().from(jobsTable)).toHaveLength(1);
+  });
+
+  it('lets a refused request be retried with the same key', async () => {
+    await db.insert(quotaAccountsTable).values({ userId: 'user_test', limitOverride: 0 });
+    const body = { model: 'flux-1', prompt: 'a red fox' };
+    expect((await generate(jsonRequest('/api/generate', body, withKey('key-2')))).status).toBe(429);
+    expect(await db.select().from(idempotencyKeysTable)).toHaveLength(0);
+
+    await db.update(quotaAccountsTable).set({ limitOverride: 1 });
+    expect((await generate(jsonRequest('/api/generate', body, withKey('key-2')))).status).toBe(202);
+    const [key] = await db.select().from(idempotencyKeysTable);
+    expect(key).toMatchObject({ userId: 'user_test', key: 'key-2', status: 'completed' });
+    expect(key.expiresAt.getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60_000);
+  });
+
+  it('replays a stream by following the same jobs', async () => {
+    const body = { prompt: 'a red fox', models: ['flux-1', 'image-gpt'] };
+    const first = await readEvents(await stream(jsonRequest('/api/generate/stream', body, withKey('key-3'))));
+    const requests = fakes.bfl.requests.length + fakes.openai.requests.length;
+
+    const res = await stream(jsonRequest('/api/generate/stream', body, withKey('key-3')));
+    expect(res.headers.get('Idempotent-Replayed')).toBe('true');
+    const replay = await readEvents(res);
+    expect(replay[0]).toEqual(first[0]);
+    const done = replay.filter((e) => e.event === 'stage');
+    expect(done.map((e) => [e.data.model, e.data.stage])).toEqual([['flux-1', 'done'], ['image-gpt', 'done']]);
+    expect(done[0].data.result).toEqual(first.find((e) => e.data.model === 'flux-1' && e.data.stage === 'done')!.data.result);
+    expect(replay.at(-1)!.event).toBe('end');
+    expect(fakes.bfl.requests.length + fakes.openai.requests.length).toBe(requests);
+    expect(await db.select().from(jobsTable)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,214 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { jobsTable, usersTable } from '@/db/schema';
+import { POST as flux } from '@/app/api/flux-1/route';
+import { POST as imageGpt } from '@/app/api/image-gpt/route';
+import { POST as stream } from '@/app/api/generate/stream/route';
+import { uploadFile } from '@/storage';
+import { resetDb, TestDb } from '../support/db';
+import { expectJob } from '../support/jobs';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { jsonRequest, readEvents } from '../support/requests';
+import { serveImage, serveRedirect } from '../support/storage';
+import { PNG_BASE64 } from '../fakes/server';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  vi.mocked(uploadFile).mockClear();
+  await resetDb(db as unknown as TestDb);
+});
+
+const png = Buffer.from(PNG_BASE64, 'base64');
+
+// The 1x1 PNG with its header claiming another size
+function pngOfSize(width: number, height: number) {
+  const buffer = Buffer.from(png);
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer;
+}
+
+function bflInputs() {
+  return fakes.bfl.requests.filter((r) => r.method === 'POST').map((r) => JSON.parse(r.body).input_image);
+}
+
+describe('input images', () => {
+  it('stores inline images once and hands Flux their URL', async () => {
+    const form = new FormData();
+    form.set('prompt', 'make it blue');
+    form.set('image', new File([png], 'photo.jpg', { type: 'image/jpeg' }));
+    const inputs = [
+      jsonRequest('/api/flux-1', { prompt: 'make it blue', image: `data:image/jpeg;base64,${PNG_BASE64}` }),
+      jsonRequest('/api/flux-1', { prompt: 'make it blue', image: PNG_BASE64 }),
+      new NextRequest('http://localhost:3000/api/flux-1', { method: 'POST', body: form }),
+    ];
+    for (const request of inputs) {
+      expect(await expectJob(await flux(request))).toMatchObject({ status: 'completed' });
+    }
+
+    // The type comes from the bytes, whatever the data URL or file said
+    const uploads = vi.mocked(uploadFile).mock.calls.filter(([name]) => name.startsWith('input-'));
+    expect(uploads.map(([name, content, type]) => [name.endsWith('.png'), content.equals(png), type])).toEqual(Array(3).fill([true, true, 'image/png']));
+    const stored = uploads.map(([name]) => `https://storage.test/images/${name}`);
+    expect(bflInputs()).toEqual(stored);
+    const rows = await db.select().from(usersTable);
+    expect(rows.map((row) => row.inputImageUrl).sort()).toEqual([...stored].sort());
+  });
+
+  it('keeps multipart text fields as sent', async () => {
+    for (const prompt of ['{"a":1}', '[1,2]', '42', 'null']) {
+      const form = new FormData();
+      form.set('prompt', prompt);
+      form.set('params', '{"seed":3}');
+      expect(await expectJob(await flux(new NextRequest('http://localhost:3000/api/flux-1', { method: 'POST', body: form })))).toMatchObject({ status: 'completed' });
+    }
+    const rows = await db.select().from(usersTable);
+    expect(rows.map((row) => row.prompt).sort()).toEqual(['42', '[1,2]', 'null', '{"a":1}']);
+    expect(rows.every((row) => row.metadata.params?.seed === 3)).toBe(true);
+  });
+
+  it('turns away inputs that are not usable images', async () => {
+    const cases: [unknown, number, string][] = [
+      ['data:image/png;base64,AAAA', 415, 'Input images must be PNG, JPEG or WebP'],
+      [Buffer.from('GIF89a\x01\x00\x01\x00\x00\x00\x00').toString('base64'), 415, 'Input images must be PNG, JPEG or WebP'],
+      [pngOfSize(5000, 100).toString('base64'), 400, 'Input images can be at most 4096×4096 pixels (this one is 5000×100)'],
+      [Buffer.concat([png, Buffer.alloc(11 * 1024 * 1024)]).toString('base64'), 413, 'Input images can be at most 10 MB'],
+      ['file:///etc/passwd', 400, 'image must be an uploaded file, a base64 data URL, raw base64 or an http(s) URL'],
+      [`https://example.test/${'a'.repeat(250)}.png`, 400, 'Image URLs can be at most 255 characters'],
+      [{ url: 'https://example.test/in.png' }, 400, 'image must be an uploaded file, a base64 data URL, raw base64 or an http(s) URL'],
+    ];
+    for (const [image, status, error] of cases) {
+      const res = await flux(jsonRequest('/api/flux-1', { prompt: 'make it blue', image }));
+      expect([res.status, (await res.json()).error]).toEqual([status, error]);
+    }
+    expect(await db.select().from(jobsTable)).toHaveLength(0);
+    expect(uploadFile).not.toHaveBeenCalled();
+  });
+
+  it('fetches, checks and stores URL inputs once, giving the models that upload images themselves the bytes', async () => {
+    const image = 'https://images.test/in.png';
+    serveImage(image);
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    expect(await expectJob(await imageGpt(jsonRequest('/api/image-gpt', { prompt: 'make it blue', image })))).toMatchObject({ status: 'completed' });
+    const edit = fakes.openai.requests.find((r) => r.path === '/v1/images/edits');
+    expect(edit!.headers['content-type']).toMatch(/^multipart\/form-data/);
+    expect(edit!.body).toContain('Content-Type: image/png');
+    expect(edit!.body).toContain('filename="input-1.png"');
+    const [upload] = vi.mocked(uploadFile).mock.calls.filter(([name]) => name.startsWith('input-'));
+    expect((await db.select().from(usersTable))[0].inputImageUrl).toBe(`https://storage.test/images/${upload[0]}`);
+    expect(fetchSpy.mock.calls.filter(([url]) => String(url) === image)).toHaveLength(1);
+    fetchSpy.mockRestore();
+  });
+
+  it('turns away URL inputs that are not usable images before queueing anything', async () => {
+    serveImage('https://example.test/in.gif', Buffer.from('GIF89a\x01\x00\x01\x00\x00\x00\x00'), 'image/png');
+    serveImage('https://example.test/huge.png', Buffer.concat([png, Buffer.alloc(11 * 1024 * 1024)]));
+    serveImage('https://example.test/wide.png', pngOfSize(5000, 100));
+    const cases: [string, number, string][] = [
+      ['https://example.test/in.gif', 415, 'Input images must be PNG, JPEG or WebP'],
+      ['https://example.test/huge.png', 413, 'Input images can be at most 10 MB'],
+      ['https://example.test/wide.png', 400, 'Input images can be at most 4096×4096 pixels (this one is 5000×100)'],
+      ['https://example.test/missing.png', 400, 'Could not fetch the input image (404)'],
+    ];
+    for (const [image, status, error] of cases) {
+      // Flux takes images by URL, and still only gets checked ones
+      const res = await flux(jsonRequest('/api/flux-1', { prompt: 'make it blue', image }));
+      expect([res.status, (await res.json()).error]).toEqual([status, error]);
+    }
+    expect(await db.select().from(jobsTable)).toHaveLength(0);
+    expect(uploadFile).not.toHaveBeenCalled();
+    expect(fakes.bfl.requests.filter((r) => r.method === 'POST')).toHaveLength(0);
+  });
+
+  it('fetches URL inputs only from public hosts, with a cap on what it reads', async () => {
+    serveImage('https://example.test/unsized.png', Buffer.concat([png, Buffer.alloc(11 * 1024 * 1024)]), 'image/png', { withLength: false });
+    serveImage('https://metadata.internal.test/in.png');
+    serveRedirect('https://example.test/moved.png', 'http://169.254.169.254/latest/meta-data/');
+    serveRedirect('https://example.test/renamed.png', 'https://example.test/in.png');
+    serveImage('https://example.test/in.png');
+    const refused = 'Input image URLs must point to a public host';
+    const cases: [string, number, string][] = [
+      ['https://example.test/unsized.png', 413, 'Input images can be at most 10 MB'],
+      ['http://127.0.0.1:3000/in.png', 400, refused],
+      ['http://[::ffff:127.0.0.1]/in.png', 400, refused],
+      ['http://10.1.2.3/in.png', 400, refused],
+      ['https://metadata.internal.test/in.png', 400, refused],
+      ['https://example.test/moved.png', 400, refused],
+    ];
+    for (const [image, status, error] of cases) {
+      const res = await flux(jsonRequest('/api/flux-1', { prompt: 'make it blue', image }));
+      expect([res.status, (await res.json()).error]).toEqual([status, error]);
+    }
+    expect(await db.select().from(jobsTable)).toHaveLength(0);
+
+    const res = await flux(jsonRequest('/api/flux-1', { prompt: 'make it blue', image: 'https://example.test/renamed.png' }));
+    expect(res.status).toBe(202);
+  });
+
+  it('passes several images with their roles to the models that take them', async () => {
+    const [url, style] = ['https://images.test/fox.png', 'https://images.test/style.png'];
+    serveImage(url);
+    serveImage(style);
+    const images = [{ image: url, role: 'subject' }, { image: style, role: 'style' }];
+    const events = await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a fox', models: ['image-gpt', 'gemini-image-flash', 'flux-1'], images })));
+    const start = events.find((e) => e.event === 'start')!.data.jobs as { model: string; ignoredImages: number }[];
+    expect(start.map(({ model, ignoredImages }) => [model, ignoredImages])).toEqual([['image-gpt', 0], ['gemini-image-flash', 0], ['flux-1', 1]]);
+    expect(events.filter((e) => e.data.stage === 'done')).toHaveLength(3);
+
+    const [first, second] = vi.mocked(uploadFile).mock.calls.filter(([name]) => name.startsWith('input-')).map(([name]) => `https://storage.test/images/${name}`);
+    const stored = [{ url: first, role: 'subject' }, { url: second, role: 'style' }];
+    const rows = await db.select().from(usersTable);
+    expect(rows.map((row) => [row.model, row.inputImageUrl, row.inputImages, row.metadata.ignoredImages])).toEqual(expect.arrayContaining([
+      ['image-gpt', first, stored, undefined],
+      ['gemini-image-flash', first, stored, undefined],
+      ['flux-1', first, stored, 1],
+    ]));
+
+    const edit = fakes.openai.requests.find((r) => r.path === '/v1/images/edits')!;
+    expect(edit.body).toContain('filename="input-1.png"');
+    expect(edit.body).toContain('filename="input-2.png"');
+    expect(edit.body).toContain('a fox\r\n\r\nImage 1 is the subject. Image 2 is the style reference.');
+    const parts = JSON.parse(fakes.gemini.requests.find((r) => r.path.includes(':streamGenerateContent'))!.body).contents[0].parts;
+    expect(parts).toEqual([
+      { text: 'a fox\n\nImage 1 is the subject. Image 2 is the style reference.' },
+      { inlineData: { mimeType: 'image/png', data: PNG_BASE64 } },
+      { inlineData: { mimeType: 'image/png', data: PNG_BASE64 } },
+    ]);
+    expect(bflInputs()).toEqual([first]);
+  });
+
+  it('takes several images as repeated multipart parts', async () => {
+    const form = new FormData();
+    form.set('prompt', 'a fox');
+    form.append('image', new File([png], 'a.png'));
+    form.append('image', new File([png], 'b.png'));
+    form.set('imageRoles', JSON.stringify([null, 'background']));
+    const res = await imageGpt(new NextRequest('http://localhost:3000/api/image-gpt', { method: 'POST', body: form }));
+    expect(res.status).toBe(202);
+    const [row] = await db.select().from(usersTable);
+    expect(row.inputImages).toEqual([{ url: expect.stringContaining('/input-') }, { url: expect.stringContaining('/input-'), role: 'background' }]);
+
+    const cases: [Record<string, unknown>, string][] = [
+      [{ images: Array(5).fill(PNG_BASE64) }, 'At most 4 input images can be sent'],
+      [{ images: [PNG_BASE64, { image: PNG_BASE64, role: 'mood' }] }, 'Image 2: role must be one of subject, style, background'],
+      [{ images: [PNG_BASE64, 'AAAA'] }, 'Image 2: Input images must be PNG, JPEG or WebP'],
+      [{ image: PNG_BASE64, images: [PNG_BASE64] }, 'Send either image or images'],
+    ];
+    for (const [body, error] of cases) {
+      const refused = await imageGpt(jsonRequest('/api/image-gpt', { prompt: 'a fox', ...body }));
+      expect([refused.status, (await refused.json()).error]).toEqual([error.includes('PNG') ? 415 : 400, error]);
+    }
+    expect(vi.mocked(uploadFile).mock.calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { jobsTable } from '@/db/schema';
+import { enqueueJob, getJob, runWorker } from '@/jobs';
+import { GET as getJobRoute } from '@/app/api/jobs/[id]/route';
+import { GET as workerRoute } from '@/app/api/jobs/worker/route';
+import { flushAfter } from '../support/after';
+import { resetDb, TestDb } from '../support/db';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+function getStatus(id: string) {
+  return getJobRoute(new NextRequest(`http://localhost:3000/api/jobs/${id}`), { params: Promise.resolve({ id }) });
+}
+
+describe('GET /api/jobs/:id', () => {
+  it('reports progress and advances due jobs', async () => {
+    const job = await enqueueJob({ userId: 'user_test', model: 'flux-1', input: { prompt: 'a red fox' } });
+
+    let res = await getStatus(job.id);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: job.id, status: 'queued', stage: 'queued', generationId: job.generationId });
+    await flushAfter();
+
+    res = await getStatus(job.id);
+    expect(await res.json()).toMatchObject({ status: 'running', stage: 'submitted' });
+
+    for (let i = 0; i < 20 && (await getJob(job.id))!.status === 'running'; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 15));
+      await getStatus(job.id);
+      await flushAfter();
+    }
+    const body = await (await getStatus(job.id)).json();
+    expect(body).toMatchObject({ status: 'completed', stage: 'done' });
+    expect(body.result.image).toMatch(/^https:\/\/storage\.test\//);
+  });
+
+  it('hides jobs owned by other users', async () => {
+    const job = await enqueueJob({ userId: 'someone_else', model: 'image-gpt', input: { prompt: 'a blue bird' } });
+    const res = await getStatus(job.id);
+    expect(res.status).toBe(404);
+  });
+
+  it('requires a signed-in user', async () => {
+    vi.mocked(auth).mockResolvedValueOnce({ userId: null } as Awaited<ReturnType<typeof auth>>);
+    const res = await getStatus('missing');
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('worker', () => {
+  it('processes every due job', async () => {
+    const jobs = await Promise.all([
+      enqueueJob({ userId: 'user_test', model: 'image-gpt', input: { prompt: 'one' } }),
+      enqueueJob({ userId: 'user_test', model: 'gemini-image-flash', input: { prompt: 'two' } }),
+      enqueueJob({ userId: 'user_test', model: 'veo-3', input: { prompt: 'three' } }),
+    ]);
+    for (let i = 0; i < 20; i++) {
+      await runWorker({ budgetMs: 100, idleMs: 10 });
+      const rows = await Promise.all(jobs.map(({ id }) => getJob(id)));
+      if (rows.every((row) => row!.status !== 'queued' && row!.status !== 'running')) break;
+    }
+    for (const { id } of jobs) {
+      expect(await getJob(id)).toMatchObject({ status: 'completed' });
+    }
+  });
+
+  it('retries jobs whose lock expired', async () => {
+    const job = await enqueueJob({ userId: 'user_test', model: 'image-gpt', input: { prompt: 'one' } });
+    await db.update(jobsTable).set({ lockedUntil: new Date(Date.now() + 60_000) }).where(eq(jobsTable.id, job.id));
+    await runWorker({ budgetMs: 50, idleMs: 10 });
+    expect((await getJob(job.id))!.status).toBe('queued');
+
+    await db.update(jobsTable).set({ lockedUntil: new Date(Date.now() - 1) }).where(eq(jobsTable.id, job.id));
+    await runWorker({ budgetMs: 50, idleMs: 10 });
+    expect((await getJob(job.id))!.status).toBe('completed');
+  });
+
+  it('fails jobs past their deadline', async () => {
+    const job = await enqueueJob({ userId: 'user_test', model: 'image-gpt', input: { prompt: 'one' } });
+    await db.update(jobsTable).set({ deadlineAt: new Date(Date.now() - 1) }).where(eq(jobsTable.id, job.id));
+    await runWorker({ budgetMs: 50, idleMs: 10 });
+    expect(await getJob(job.id)).toMatchObject({ status: 'failed', error: 'Generation timed out' });
+    expect(fakes.openai.requests).toHaveLength(0);
+  });
+
+  it('protects the cron route with CRON_SECRET', async () => {
+    vi.stubEnv('CRON_SECRET', 'secret');
+    const denied = await workerRoute(new NextRequest('http://localhost:3000/api/jobs/worker'));
+    expect(denied.status).toBe(401);
+  });
+});
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { eq, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { jobsTable, usersTable } from '@/db/schema';
+import { POST as flux } from '@/app/api/flux-1/route';
+import { POST as gemini } from '@/app/api/gemini-image-flash/route';
+import { POST as imageGpt } from '@/app/api/image-gpt/route';
+import { sniffImage } from '@/images';
+import { GenerationMetadata } from '@/metadata';
+import { resetDb, TestDb } from '../support/db';
+import { PNG_BASE64 } from '../fakes/server';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { expectJob } from '../support/jobs';
+import { jsonRequest } from '../support/requests';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+async function metadataOf(generationId: number | null) {
+  const [row] = await db.select().from(usersTable).where(eq(usersTable.id, generationId!));
+  return row.metadata;
+}
+
+describe('generation metadata', () => {
+  it('records timings, the BFL task and the output', async () => {
+    fakes.bfl.pollsUntilReady = 1;
+    const job = await expectJob(await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox', params: { seed: 7 } })));
+    expect(await metadataOf(job.generationId)).toEqual({
+      version: 1,
+      params: { seed: 7 },
+      ignoredParams: [],
+      timing: { durationMs: expect.any(Number), queueMs: expect.any(Number), pollMs: expect.any(Number) },
+      provider: { model: 'flux-kontext-pro', taskId: expect.stringMatching(/^task-\d+$/) },
+      output: { mimeType: 'image/png', width: 1, height: 1, bytes: Buffer.from(PNG_BASE64, 'base64').length },
+    });
+  });
+
+  it('records token usage and the request id', async () => {
+    const job = await expectJob(await imageGpt(jsonRequest('/api/image-gpt', { prompt: 'a red fox' })));
+    const metadata = await metadataOf(job.generationId);
+    expect(metadata).toMatchObject({
+      version: 1,
+      usage: { inputTokens: 12, outputTokens: 1056, totalTokens: 1068 },
+      provider: { model: 'gpt-image-1', requestId: 'req_fake' },
+      output: { mimeType: 'image/png', width: 1, height: 1 },
+    });
+    // Single-call providers have no polling phase
+    expect(metadata.timing).toEqual({ durationMs: expect.any(Number), queueMs: expect.any(Number) });
+  });
+
+  it('records the Gemini response id and model version', async () => {
+    const job = await expectJob(await gemini(jsonRequest('/api/gemini-image-flash', { prompt: 'a red fox' })));
+    expect((await metadataOf(job.generationId)).provider).toEqual({ model: 'gemini-2.5-flash-image-preview', requestId: 'gemini-response-1' });
+  });
+
+  it('records timings on failed generations', async () => {
+    fakes.openai.scenario = 'error';
+    const job = await expectJob(await imageGpt(jsonRequest('/api/image-gpt', { prompt: 'a red fox' })));
+    expect(job.status).toBe('failed');
+    expect(await metadataOf(job.generationId)).toEqual({ version: 1, timing: { durationMs: expect.any(Number), queueMs: expect.any(Number) } });
+  });
+});
+
+describe('metadata backfill migration', () => {
+  it('upgrades rows written before the typed shape', async () => {
+    const statements = fs.readFileSync(path.resolve(__dirname, '../../drizzle/0007_generation_metadata.sql'), 'utf8').split('--> statement-breakpoint');
+    const backfill = statements.find((statement) => statement.includes('UPDATE "generations"'))!;
+    const base = { userId: 'user_test', prompt: 'p', inputImageUrl: '', model: 'flux-1', error: '' };
+    const legacy = {} as GenerationMetadata;
+    const [done, pending, blind] = await db.insert(usersTable).values([
+      { ...base, outputImageUrl: 'https://storage.test/images/a.0.jpeg', status: 'completed', metadata: legacy, createdAt: new Date('2025-08-01T10:00:00Z'), updatedAt: new Date('2025-08-01T10:00:12.5Z') },
+      { ...base, outputImageUrl: '', status: 'pending', metadata: legacy },
+      { ...base, outputImageUrl: 'https://storage.test/images/b.0.png', status: 'completed', metadata: { blind: { label: 'Model A' } } as unknown as GenerationMetadata },
+    ]).returning();
+    const [current] = await db.insert(usersTable).values({ ...base, outputImageUrl: '', status: 'completed', metadata: { version: 1 } }).returning();
+    await db.insert(jobsTable).values({
+      id: crypto.randomUUID(),
+      userId: 'user_test',
+      model: 'flux-1',
+      status: 'completed',
+      stage: 'done',
+      input: { prompt: 'p' },
+      task: { id: 'task-42', pollingUrl: 'https://api.bfl.ai/v1/get_result?id=task-42' },
+      result: { image: done.outputImageUrl, usage: { totalTokens: 5 } },
+      generationId: done.id,
+      deadlineAt: new Date(),
+    });
+
+    await db.execute(sql.raw(backfill));
+
+    expect(await metadataOf(done.id)).toEqual({
+      version: 1,
+      backfilled: true,
+      timing: { durationMs: 12500 },
+      usage: { totalTokens: 5 },
+      provider: { taskId: 'task-42' },
+      output: { mimeType: 'image/jpeg' },
+    });
+    expect(await metadataOf(pending.id)).toEqual({ version: 1, backfilled: true });
+    expect(await metadataOf(blind.id)).toMatchObject({ version: 1, backfilled: true, blind: { label: 'Model A' }, output: { mimeType: 'image/png' } });
+    expect(await metadataOf(current.id)).toEqual({ version: 1 });
+  });
+});
+
+describe('sniffImage', () => {
+  it('reads the type and size of common formats', () => {
+    expect(sniffImage(Buffer.from(PNG_BASE64, 'base64'))).toEqual({ mimeType: 'image/png', width: 1, height: 1 });
+
+    const gif = Buffer.from('GIF89a\x20\x00\x10\x00', 'latin1');
+    expect(sniffImage(gif)).toEqual({ mimeType: 'image/gif', width: 32, height: 16 });
+
+    // SOI, an APP0 segment, then a baseline SOF0 frame of 640x480
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0xe0, 0x02, 0x80, 0x03, 0x00, 0x00, 0x00]);
+    expect(sniffImage(jpeg)).toEqual({ mimeType: 'image/jpeg', width: 640, height: 480 });
+
+    const webp = Buffer.alloc(30);
+    webp.write('RIFF', 0, 'ascii');
+    webp.write('WEBPVP8X', 8, 'ascii');
+    webp.writeUIntLE(1023, 24, 3);
+    webp.writeUIntLE(767, 27, 3);
+    expect(sniffImage(webp)).toEqual({ mimeType: 'image/webp', width: 1024, height: 768 });
+
+    expect(sniffImage(Buffer.from('fake mp4 bytes'))).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { db } from '@/db';
+import { usersTable } from '@/db/schema';
+import { POST as generate } from '@/app/api/generate/route';
+import { POST as stream } from '@/app/api/generate/stream/route';
+import { POST as veo3 } from '@/app/api/veo3/route';
+import { parseGenerationParams } from '@/providers';
+import { resetDb, TestDb } from '../support/db';
+import { expectJob } from '../support/jobs';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { jsonRequest, readEvents } from '../support/requests';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+const params = { aspectRatio: '3:2', quality: 'high', seed: 42, outputFormat: 'jpeg', safetyTolerance: 5 };
+
+describe('parseGenerationParams', () => {
+  it('accepts valid params and drops unset ones', () => {
+    expect(parseGenerationParams({ ...params, seed: '42', quality: '' })).toEqual({
+      params: { aspectRatio: '3:2', seed: 42, outputFormat: 'jpeg', safetyTolerance: 5 },
+      errors: [],
+    });
+    expect(parseGenerationParams(undefined)).toEqual({ params: {}, errors: [] });
+  });
+
+  it('reports invalid values', () => {
+    const { errors } = parseGenerationParams({ aspectRatio: '5:4', seed: -1, safetyTolerance: 7, outputFormat: 'gif' });
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toMatch(/^aspectRatio must be one of/);
+    expect(parseGenerationParams('wide').errors).toEqual(['params must be an object']);
+  });
+});
+
+describe('provider mapping', () => {
+  it('maps params to BFL fields', async () => {
+    const res = await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a red fox', params }));
+    const job = await expectJob(res);
+    expect(job).toMatchObject({ status: 'completed', params, ignoredParams: ['quality'] });
+    const submit = fakes.bfl.requests.find((r) => r.method === 'POST');
+    expect(JSON.parse(submit!.body)).toEqual({ prompt: 'a red fox', aspect_ratio: '3:2', seed: 42, output_format: 'jpeg', safety_tolerance: 5 });
+  });
+
+  it('maps params to OpenAI fields', async () => {
+    const res = await generate(jsonRequest('/api/generate', { model: 'image-gpt', prompt: 'a blue bird', params }));
+    const body = await res.clone().json();
+    expect(body.ignoredParams).toEqual(['seed']);
+    const job = await expectJob(res);
+    expect(job.status).toBe('completed');
+    expect(job.result?.image).toMatch(/\.jpg$/);
+    const call = fakes.openai.requests.find((r) => r.path === '/v1/images/generations');
+    expect(JSON.parse(call!.body)).toMatchObject({ size: '1536x1024', quality: 'high', output_format: 'jpeg', moderation: 'low' });
+  });
+
+  it('ignores aspect ratios OpenAI cannot render', async () => {
+    const job = await expectJob(await generate(jsonRequest('/api/generate', { model: 'image-gpt', prompt: 'a blue bird', params: { aspectRatio: '16:9' } })));
+    expect(job.ignoredParams).toEqual(['aspectRatio']);
+    const call = fakes.openai.requests.find((r) => r.path === '/v1/images/generations');
+    expect(JSON.parse(call!.body).size).toBeUndefined();
+  });
+
+  it('maps params to Gemini generation config', async () => {
+    const job = await expectJob(await generate(jsonRequest('/api/generate', { model: 'gemini-image-flash', prompt: 'a green frog', params })));
+    expect(job.ignoredParams).toEqual(['aspectRatio', 'quality', 'outputFormat']);
+    const call = fakes.gemini.requests.find((r) => r.path.includes(':streamGenerateContent'));
+    const body = JSON.parse(call!.body);
+    expect(body.generationConfig).toMatchObject({ seed: 42 });
+    expect(body.safetySettings).toHaveLength(4);
+    expect(body.safetySettings[0]).toMatchObject({ threshold: 'BLOCK_ONLY_HIGH' });
+  });
+
+  it('maps params to Veo video config', async () => {
+    const res = await veo3(jsonRequest('/api/veo3', { prompt: 'clouds', params: { aspectRatio: '9:16', seed: 7, quality: 'low' } }));
+    expect((await res.clone().json()).ignoredParams).toEqual(['quality', 'seed']);
+    const job = await expectJob(res);
+    expect(job.status).toBe('completed');
+    const call = fakes.gemini.requests.find((r) => r.path.includes(':predictLongRunning'));
+    expect(JSON.parse(call!.body).parameters).toEqual({ sampleCount: 1, aspectRatio: '9:16' });
+  });
+});
+
+describe('requests', () => {
+  it('stores params and ignored params on the generation', async () => {
+    await expectJob(await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a red fox', params: { seed: 1, quality: 'low' } })));
+    const [row] = await db.select().from(usersTable);
+    expect(row.metadata).toMatchObject({ params: { seed: 1, quality: 'low' }, ignoredParams: ['quality'] });
+  });
+
+  it('reports ignored params per model when streaming', async () => {
+    const events = await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a red fox', models: ['flux-1', 'image-gpt'], params: { seed: 1 } })));
+    expect(events[0].data.jobs).toEqual([
+      expect.objectContaining({ model: 'flux-1', ignoredParams: [] }),
+      expect.objectContaining({ model: 'image-gpt', ignoredParams: ['seed'] }),
+    ]);
+  });
+
+  it('rejects invalid params', async () => {
+    expect((await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a red fox', params: { aspectRatio: 'wide' } }))).status).toBe(400);
+    expect((await stream(jsonRequest('/api/generate/stream', { prompt: 'a red fox', models: ['flux-1'], params: { seed: 'x' } }))).status).toBe(400);
+    expect(await db.select().from(usersTable)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/db';
+import { usersTable } from '@/db/schema';
+import { GET as spend } from '@/app/api/spend/route';
+import { POST as stream } from '@/app/api/generate/stream/route';
+import { estimateCost, PRICING, pricingAt } from '@/pricing';
+import { METADATA_VERSION } from '@/metadata';
+import { resetDb, TestDb } from '../support/db';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { jsonRequest, readEvents } from '../support/requests';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+describe('estimateCost', () => {
+  it('prices token usage when it is reported', () => {
+    expect(estimateCost('image-gpt', { outputs: 1, usage: { inputTokens: 1000, outputTokens: 4000 } })).toEqual({ costUsd: 0.165, pricingVersion: '2025-08' });
+    expect(estimateCost('gemini-image-flash', { outputs: 1, usage: { inputTokens: 8, outputTokens: 1290 } }).costUsd).toBe(0.038702);
+  });
+
+  it('falls back to per-output prices', () => {
+    expect(estimateCost('flux-1', { outputs: 2 }).costUsd).toBe(0.08);
+    expect(estimateCost('image-gpt', { outputs: 1 }).costUsd).toBe(0.042);
+    expect(estimateCost('veo-3', { outputs: 1 }).costUsd).toBe(6);
+    expect(estimateCost('flux-1', { outputs: 0 }).costUsd).toBe(0);
+  });
+
+  it('picks the version in effect at the given date', () => {
+    expect(pricingAt(new Date('2030-01-01'))).toBe(PRICING.at(-1));
+    // Dates before the first version use the oldest prices
+    expect(pricingAt(new Date('2020-01-01'))).toBe(PRICING[0]);
+  });
+});
+
+describe('generation cost', () => {
+  it('stores the cost on each generation and reports it with the result', async () => {
+    const events = await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a red fox', models: ['flux-1', 'image-gpt'] })));
+    const done = events.filter((e) => e.event === 'stage' && e.data.stage === 'done');
+    expect(Object.fromEntries(done.map((e) => [e.data.model, (e.data.result as { costUsd: number }).costUsd]))).toEqual({ 'flux-1': 0.04, 'image-gpt': 0.0423 });
+
+    const rows = await db.select().from(usersTable);
+    expect(Object.fromEntries(rows.map((r) => [r.model, [r.costUsd, r.pricingVersion]]))).toEqual({
+      'flux-1': [0.04, '2025-08'],
+      'image-gpt': [0.0423, '2025-08'],
+    });
+  });
+
+  it('splits the cost of a call over the images it returned', async () => {
+    fakes.gemini.scenario = 'two-images';
+    await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a green frog', models: ['gemini-image-flash'] })));
+    const rows = await db.select().from(usersTable);
+    expect(rows.map((r) => r.costUsd)).toEqual([0.019351, 0.019351]);
+  });
+
+  it('leaves failed calls unpriced', async () => {
+    fakes.openai.scenario = 'error';
+    await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a blue bird', models: ['image-gpt'] })));
+    const [row] = await db.select().from(usersTable);
+    expect(row).toMatchObject({ status: 'failed', costUsd: null, pricingVersion: null });
+  });
+});
+
+describe('GET /api/spend', () => {
+  it('sums the signed-in user’s spend per model', async () => {
+    const base = { prompt: 'p', inputImageUrl: '', outputImageUrl: '', status: 'completed', error: '', metadata: { version: METADATA_VERSION }, pricingVersion: '2025-08' };
+    await db.insert(usersTable).values([
+      { ...base, userId: 'user_test', model: 'flux-1', costUsd: 0.04 },
+      { ...base, userId: 'user_test', model: 'flux-1', costUsd: 0.04 },
+      { ...base, userId: 'user_test', model: 'veo-3', costUsd: 6 },
+      { ...base, userId: 'user_test', model: 'image-gpt', costUsd: null, pricingVersion: null },
+      { ...base, userId: 'someone_else', model: 'flux-1', costUsd: 0.04 },
+    ]);
+    const res = await spend();
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      totalUsd: 6.08,
+      generations: 3,
+      models: [
+        { model: 'veo-3', label: expect.any(String), generations: 1, costUsd: 6 },
+        { model: 'flux-1', label: expect.any(String), generations: 2, costUsd: 0.08 },
+      ],
+    });
+  });
+
+  it('requires a signed-in user', async () => {
+    vi.mocked(auth).mockResolvedValueOnce({ userId: null } as Awaited<ReturnType<typeof auth>>);
+    expect((await spend()).status).toBe(401);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { db } from '@/db';
+import { usersTable } from '@/db/schema';
+import { POST as imageGpt } from '@/app/api/image-gpt/route';
+import { POST as stream } from '@/app/api/generate/stream/route';
+import { POST as vote } from '@/app/api/votes/route';
+import { METADATA_VERSION } from '@/metadata';
+import { diffWords } from '@/prompt-diff';
+import { getEnhancementResults, getLeaderboard } from '@/ratings';
+import { resetDb, TestDb } from '../support/db';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { expectJob } from '../support/jobs';
+import { jsonRequest, readEvents } from '../support/requests';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+describe('enhanced prompts', () => {
+  it('keeps the original prompt and stores the enhanced one next to it', async () => {
+    const job = await expectJob(await imageGpt(jsonRequest('/api/image-gpt', { prompt: 'a blue bird', enhance: true })));
+    expect(job.result?.enhancedPrompt).toBe('An enhanced prompt');
+    const [row] = await db.select().from(usersTable);
+    expect(row).toMatchObject({ prompt: 'a blue bird', enhancedPrompt: 'An enhanced prompt' });
+  });
+
+  it('leaves enhancedPrompt empty without enhancement', async () => {
+    const job = await expectJob(await imageGpt(jsonRequest('/api/image-gpt', { prompt: 'a blue bird' })));
+    expect(job.result?.enhancedPrompt).toBeUndefined();
+    const [row] = await db.select().from(usersTable);
+    expect(row).toMatchObject({ prompt: 'a blue bird', enhancedPrompt: null });
+  });
+
+  it('runs each model on the raw and the enhanced prompt when comparing', async () => {
+    const events = await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a blue bird', models: ['image-gpt'], compareEnhancement: true })));
+    const jobs = events[0].data.jobs as { model: string; enhance: boolean; generationId: number }[];
+    expect(jobs.map((j) => [j.model, j.enhance])).toEqual([['image-gpt', false], ['image-gpt', true]]);
+
+    const rows = await db.select().from(usersTable).orderBy(usersTable.id);
+    expect(rows.map((r) => [r.prompt, r.enhancedPrompt])).toEqual([['a blue bird', null], ['a blue bird', 'An enhanced prompt']]);
+    expect(rows.map((r) => r.metadata.enhanceComparison?.enhanced)).toEqual([false, true]);
+    expect(rows[0].metadata.enhanceComparison?.comparisonId).toBe(rows[1].metadata.enhanceComparison?.comparisonId);
+  });
+});
+
+describe('getEnhancementResults', () => {
+  it('counts same-model votes between raw and enhanced generations', async () => {
+    const base = { userId: 'user_test', prompt: 'a red fox', inputImageUrl: '', outputImageUrl: 'https://storage.test/x.png', status: 'completed', error: '', metadata: { version: METADATA_VERSION } };
+    const [raw, enhanced, otherRaw, otherModel] = await db.insert(usersTable).values([
+      { ...base, model: 'flux-1' },
+      { ...base, model: 'flux-1', enhancedPrompt: 'A vivid red fox' },
+      { ...base, model: 'flux-1' },
+      { ...base, model: 'image-gpt', enhancedPrompt: 'A vivid red fox' },
+    ]).returning();
+    await vote(jsonRequest('/api/votes', { winnerId: enhanced.id, loserIds: [raw.id, otherModel.id] }));
+    // Raw against raw says nothing about enhancement
+    await vote(jsonRequest('/api/votes', { winnerId: otherRaw.id, loserIds: [raw.id] }));
+
+    expect(await getEnhancementResults()).toEqual([{ model: 'flux-1', label: 'Flux-1', enhancedWins: 1, rawWins: 0 }]);
+    expect(await getEnhancementResults('portrait')).toEqual([]);
+    // Only the cross-model vote reaches the model ratings
+    expect((await getLeaderboard()).matches).toBe(1);
+  });
+});
+
+describe('diffWords', () => {
+  it('marks added and removed words', () => {
+    expect(diffWords('a red fox in snow', 'a fluffy red fox in deep fresh snow')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'added', text: 'fluffy' },
+      { type: 'same', text: 'red fox in' },
+      { type: 'added', text: 'deep fresh' },
+      { type: 'same', text: 'snow' },
+    ]);
+    expect(diffWords('a cat', 'a dog')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'cat' },
+      { type: 'added', text: 'dog' },
+    ]);
+    expect(diffWords('', 'a dog')).toEqual([{ type: 'added', text: 'a dog' }]);
+  });
+});
@@ -0,0 +1,122 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/db';
+import { quotaReservationsTable } from '@/db/schema';
+import { POST as generate } from '@/app/api/generate/route';
+import { POST as veo3 } from '@/app/api/veo3/route';
+import { GET as fetchImages } from '@/app/api/fetch-images/route';
+import { POST as createBatch } from '@/app/api/batches/route';
+import { POST as cancelBatch } from '@/app/api/batches/[id]/cancel/route';
+import { GET as getQuotaAccount, PUT as updateQuotaAccount } from '@/app/api/admin/quotas/[userId]/route';
+import { windowStart } from '@/quota';
+import { resetDb, TestDb } from '../support/db';
+import { expectJob } from '../support/jobs';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { jsonRequest } from '../support/requests';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+  process.env.ADMIN_USER_IDS = 'user_admin';
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+  delete process.env.ADMIN_USER_IDS;
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+type AuthResult = Awaited<ReturnType<typeof auth>>;
+
+const userParams = (userId: string) => ({ params: Promise.resolve({ userId }) });
+
+async function usage() {
+  return (await (await fetchImages()).json()).quota;
+}
+
+async function asAdmin<T>(run: () => Promise<T>): Promise<T> {
+  vi.mocked(auth).mockResolvedValue({ userId: 'user_admin' } as AuthResult);
+  try {
+    return await run();
+  } finally {
+    vi.mocked(auth).mockResolvedValue({ userId: 'user_test' } as AuthResult);
+  }
+}
+
+function setQuota(body: Record<string, unknown>) {
+  return asAdmin(() => updateQuotaAccount(jsonRequest('/api/admin/quotas/user_test', body, { method: 'PUT' }), userParams('user_test')));
+}
+
+describe('generation quota', () => {
+  it('charges completed jobs by model weight and gives failed ones back', async () => {
+    expect(await usage()).toMatchObject({ plan: 'free', limit: 10, used: 0, remaining: 10 });
+    expect(await expectJob(await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a cat' })))).toMatchObject({ status: 'completed' });
+    fakes.openai.scenario = 'error';
+    expect(await expectJob(await generate(jsonRequest('/api/generate', { model: 'image-gpt', prompt: 'a cat' })))).toMatchObject({ status: 'failed' });
+    const afterImages = await usage();
+    expect(afterImages).toMatchObject({ used: 1, remaining: 9 });
+    expect(new Date(afterImages.resetsAt).getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60_000);
+
+    // A video takes five units
+    expect((await setQuota({ limitOverride: 6 })).status).toBe(200);
+    expect(await expectJob(await veo3(jsonRequest('/api/veo3', { prompt: 'a timelapse of clouds' })))).toMatchObject({ status: 'completed' });
+    expect(await usage()).toMatchObject({ limit: 6, used: 6, remaining: 0 });
+    expect((await fetchImages().then((res) => res.json())).limitReached).toBe(true);
+
+    const res = await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a dog' }));
+    expect(res.status).toBe(429);
+    expect((await res.json()).error).toMatch(/^You have used 6 of your 6 generation units \(this request needs 1\); more become available on \d{4}-\d{2}-\d{2}\.$/);
+    const rows = await db.select().from(quotaReservationsTable);
+    expect(rows.map((row) => [row.model, row.units, row.status]).sort()).toEqual([
+      ['flux-1', 1, 'committed'],
+      ['image-gpt', 1, 'released'],
+      ['veo-3', 5, 'committed'],
+    ]);
+  });
+
+  it('lets only the parallel requests that fit through', async () => {
+    await setQuota({ limitOverride: 2 });
+    const responses = await Promise.all([1, 2, 3].map(() => generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a cat' }))));
+    expect(responses.map((res) => res.status).sort()).toEqual([202, 202, 429]);
+    // Reserved units count before their jobs finish, and a request is all or none
+    expect(await usage()).toMatchObject({ used: 2, remaining: 0 });
+    await setQuota({ limitOverride: 3 });
+    expect((await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a cat', n: 2 }))).status).toBe(429);
+  });
+
+  it('reserves a batch up front and gives back what a cancelled batch did not start', async () => {
+    await setQuota({ limitOverride: 3 });
+    const content = ['prompt', 'a red fox', 'an owl', 'a hare', 'a stag'].join('\n');
+    expect((await createBatch(jsonRequest('/api/batches', { format: 'csv', content, models: ['flux-1'] }))).status).toBe(429);
+
+    const res = await createBatch(jsonRequest('/api/batches', { format: 'csv', content: ['prompt', 'a red fox', 'an owl', 'a hare'].join('\n'), models: ['flux-1'], concurrency: 1 }));
+    expect(res.status).toBe(201);
+    const batch = await res.json();
+    expect(await usage()).toMatchObject({ used: 3 });
+    await cancelBatch(new NextRequest(`http://localhost:3000/api/batches/${batch.id}/cancel`, { method: 'POST' }), { params: Promise.resolve({ id: batch.id }) });
+    // The running prompt keeps its reservation
+    expect(await usage()).toMatchObject({ used: 1 });
+  });
+
+  it('lets admins change plans and limits', async () => {
+    expect((await updateQuotaAccount(jsonRequest('/api/admin/quotas/user_test', { plan: 'pro' }, { method: 'PUT' }), userParams('user_test'))).status).toBe(403);
+    expect((await setQuota({ plan: 'platinum', limitOverride: -1 })).status).toBe(400);
+
+    const res = await setQuota({ plan: 'pro' });
+    expect(await res.json()).toMatchObject({ userId: 'user_test', plan: 'pro', limitOverride: null, usage: { plan: 'pro', limit: 500, window: { type: 'monthly' } } });
+    await setQuota({ limitOverride: 1000 });
+    expect(await usage()).toMatchObject({ plan: 'pro', limit: 1000 });
+    await setQuota({ plan: null, limitOverride: null });
+    const account = await asAdmin(async () => (await getQuotaAccount(new NextRequest('http://localhost:3000/api/admin/quotas/user_test'), userParams('user_test'))).json());
+    expect(account).toMatchObject({ plan: null, usage: { plan: 'free', limit: 10 } });
+
+    expect(windowStart({ type: 'monthly' }, new Date('2026-03-17T12:00:00Z'))).toEqual(new Date('2026-03-01T00:00:00Z'));
+    expect(windowStart({ type: 'rolling', days: 30 }, new Date('2026-03-31T12:00:00Z'))).toEqual(new Date('2026-03-01T12:00:00Z'));
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { db } from '@/db';
+import { jobsTable, quotaAccountsTable } from '@/db/schema';
+import { POST as generate } from '@/app/api/generate/route';
+import { POST as veo3 } from '@/app/api/veo3/route';
+import { POST as createBatch } from '@/app/api/batches/route';
+import { advanceWaitingBatches } from '@/batches';
+import { createMemoryStore, hitRateLimit, postgresStore, RATE_LIMITS } from '@/rate-limit';
+import { resetDb, TestDb } from '../support/db';
+import { jsonRequest } from '../support/requests';
+
+const defaults = structuredClone(RATE_LIMITS);
+
+beforeEach(async () => {
+  await resetDb(db as unknown as TestDb);
+});
+
+afterEach(() => {
+  Object.assign(RATE_LIMITS, structuredClone(defaults));
+});
+
+describe('rate limiting', () => {
+  it('turns away requests over the per-user limit with Retry-After', async () => {
+    RATE_LIMITS.requests = { limit: 2, windowMs: 60_000 };
+    for (const prompt of ['a cat', 'a dog']) {
+      expect((await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt }))).status).toBe(202);
+    }
+    const res = await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a fox' }));
+    expect(res.status).toBe(429);
+    const retryAfter = Number(res.headers.get('Retry-After'));
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(120);
+    expect(Object.fromEntries(['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy'].map((name) => [name, res.headers.get(name)]))).toEqual({
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': String(retryAfter),
+      'RateLimit-Policy': '2;w=60',
+    });
+    expect(await res.json()).toEqual({ error: `Too many requests, try again in ${retryAfter}s`, retryAfter });
+    expect(await db.select().from(jobsTable)).toHaveLength(2);
+  });
+
+  it('limits each model separately, counting every job', async () => {
+    await db.insert(quotaAccountsTable).values({ userId: 'user_test', limitOverride: 100 });
+    expect((await veo3(jsonRequest('/api/veo3', { prompt: 'clouds', n: 4 }))).status).toBe(202);
+    const res = await veo3(jsonRequest('/api/veo3', { prompt: 'clouds' }));
+    expect(res.status).toBe(429);
+    expect(res.headers.get('RateLimit-Policy')).toBe('4;w=60');
+    // Images have their own limit, and the refused request took nothing from the per-user one
+    expect((await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a cat', n: 4 }))).status).toBe(202);
+    expect(await db.select().from(jobsTable)).toHaveLength(8);
+  });
+
+  it('refuses a request with more jobs than a model allows in a window without Retry-After', async () => {
+    RATE_LIMITS.defaultJobs = { limit: 2, windowMs: 60_000 };
+    const res = await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a cat', n: 3 }));
+    expect(res.status).toBe(400);
+    expect(res.headers.get('Retry-After')).toBeNull();
+    expect(await res.json()).toEqual({ error: 'flux-1 runs at most 2 jobs per 60s and this request needs 3' });
+    // Nothing was counted against the limits
+    expect((await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a cat', n: 2 }))).status).toBe(202);
+    expect(await db.select().from(jobsTable)).toHaveLength(2);
+  });
+
+  it('gives the count back when a later check refuses the request', async () => {
+    RATE_LIMITS.requests = { limit: 2, windowMs: 60_000 };
+    for (let i = 0; i < 3; i++) {
+      expect((await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a cat', image: 'not an image!' }))).status).toBe(400);
+    }
+    await db.insert(quotaAccountsTable).values({ userId: 'user_test', limitOverride: 0 });
+    const overQuota = await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a cat' }));
+    expect([overQuota.status, overQuota.headers.get('Retry-After')]).toEqual([429, null]);
+    await db.update(quotaAccountsTable).set({ limitOverride: 100 });
+    for (const prompt of ['a cat', 'a dog']) {
+      expect((await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt }))).status).toBe(202);
+    }
+    expect((await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a fox' }))).status).toBe(429);
+  });
+
+  it('counts batch prompts against the job limits as they start', async () => {
+    RATE_LIMITS.defaultJobs = { limit: 2, windowMs: 60_000 };
+    const batch = (models: string[]) => createBatch(jsonRequest('/api/batches', { format: 'jsonl', content: '{"prompt":"a fox"}\n{"prompt":"an owl"}\n{"prompt":"a cat"}', models })).then((res) => res.json());
+    expect((await batch(['flux-1'])).progress).toMatchObject({ running: 2, pending: 1 });
+    expect((await generate(jsonRequest('/api/generate', { model: 'flux-1', prompt: 'a dog' }))).status).toBe(429);
+
+    // A batch that couldn't start any prompt is picked up by the worker once they fit
+    expect((await batch(['image-gpt', 'flux-1'])).progress).toMatchObject({ running: 0, pending: 3 });
+    RATE_LIMITS.defaultJobs = defaults.defaultJobs;
+    const started = await advanceWaitingBatches();
+    expect(started.map((job) => job.model)).toEqual(expect.arrayContaining(['image-gpt', 'flux-1']));
+    expect(started).toHaveLength(6);
+  });
+
+  it('slides the window in both stores', async () => {
+    for (const store of [createMemoryStore(), postgresStore]) {
+      const rule = { limit: 10, windowMs: 60_000 };
+      const base = 600 * 60_000;
+      for (let i = 0; i < 10; i++) {
+        expect((await hitRateLimit('sliding', rule, { store, now: base + i })).allowed).toBe(true);
+      }
+      expect(await hitRateLimit('sliding', rule, { store, now: base + 10 })).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 66_000 - 10 });
+      // In the next window the earlier hits weigh less as it slides: 9 of them a tenth of the way in
+      expect(await hitRateLimit('sliding', rule, { store, now: base + 61_000 })).toMatchObject({ allowed: false, retryAfterMs: 5_000 });
+      expect(await hitRateLimit('sliding', rule, { store, now: base + 66_000 })).toMatchObject({ allowed: true, remaining: 0 });
+      expect(await hitRateLimit('sliding', rule, { store, now: base + 120_000 })).toMatchObject({ allowed: true, remaining: 8 });
+    }
+  });
+});
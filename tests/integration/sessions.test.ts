@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/db';
+import { usersTable } from '@/db/schema';
+import { GET as listSessions, POST as createSession } from '@/app/api/sessions/route';
+import { DELETE as deleteSession, GET as getSession, PATCH as updateSession } from '@/app/api/sessions/[id]/route';
+import { PATCH as updateMessage } from '@/app/api/sessions/[id]/messages/[messageId]/route';
+import { POST as stream } from '@/app/api/generate/stream/route';
+import { POST as vote } from '@/app/api/votes/route';
+import { resetDb, TestDb } from '../support/db';
+import { serveImage } from '../support/storage';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { jsonRequest, readEvents } from '../support/requests';
+
+type AuthResult = Awaited<ReturnType<typeof auth>>;
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+const idParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+async function create(body: unknown = {}): Promise<string> {
+  const res = await createSession(jsonRequest('/api/sessions', body));
+  expect(res.status).toBe(201);
+  return (await res.json()).id;
+}
+
+async function load(id: string) {
+  const res = await getSession(new NextRequest(`http://localhost:3000/api/sessions/${id}`), idParams(id));
+  return { status: res.status, json: await res.json() };
+}
+
+async function turn(body: Record<string, unknown>) {
+  const res = await stream(jsonRequest('/api/generate/stream', body));
+  expect(res.status).toBe(200);
+  const events = await readEvents(res);
+  return events.find((e) => e.event === 'start')!.data as { messageId: string; jobs: { model?: string; generationId: number }[] };
+}
+
+describe('comparison sessions', () => {
+  it('restores every turn with its variants, votes and input image', async () => {
+    serveImage('https://example.test/in.png');
+    const id = await create();
+    const first = await turn({ prompt: 'a red fox', models: ['flux-1', 'gemini-image-flash'], sessionId: id });
+    expect(first.messageId).toEqual(expect.any(String));
+    await turn({ prompt: 'make it blue', image: 'https://example.test/in.png', models: ['flux-1'], params: { seed: 3 }, sessionId: id });
+
+    const [flux, gemini] = first.jobs.map((job) => job.generationId);
+    await vote(jsonRequest('/api/votes', { generationId: flux, value: 'up' }));
+    await vote(jsonRequest('/api/votes', { winnerId: gemini, loserIds: [flux] }));
+
+    const { status, json } = await load(id);
+    expect(status).toBe(200);
+    expect(json).toMatchObject({ id, title: 'a red fox' });
+    expect(json.messages).toHaveLength(2);
+    expect(json.messages[0]).toMatchObject({
+      id: first.messageId,
+      prompt: 'a red fox',
+      inputImageUrl: null,
+      settings: { models: ['flux-1', 'gemini-image-flash'], blind: false },
+      generations: [
+        { id: flux, model: 'flux-1', status: 'completed', stage: 'done', outputImageUrl: expect.stringMatching(/^https:\/\//), vote: 'up', best: false },
+        { id: gemini, model: 'gemini-image-flash', status: 'completed', best: true },
+      ],
+    });
+    expect(json.messages[1]).toMatchObject({
+      prompt: 'make it blue',
+      inputImageUrl: expect.stringMatching(/^https:\/\/storage\.test\/images\/input-/),
+      generations: [{ model: 'flux-1', status: 'completed', durationMs: expect.any(Number) }],
+    });
+
+    const list = await (await listSessions()).json();
+    expect(list.sessions).toEqual([{ id, title: 'a red fox', updatedAt: expect.any(String) }]);
+  });
+
+  it('keeps the blind order and remembers when it was revealed', async () => {
+    const id = await create({ title: 'Blind test' });
+    const start = await turn({ prompt: 'a red fox', models: ['flux-1', 'gemini-image-flash', 'image-gpt'], blind: true, sessionId: id });
+
+    const before = (await load(id)).json;
+    expect(before.title).toBe('Blind test');
+    const [message] = before.messages;
+    expect(message.revealed).toBe(false);
+    expect(message.generations.map((g: { id: number }) => g.id)).toEqual(start.jobs.map((job) => job.generationId));
+    expect(message.generations.map((g: { blindLabel: string }) => g.blindLabel)).toEqual(['Model A', 'Model B', 'Model C']);
+    // The models stay hidden until the turn is revealed
+    expect(message.generations.map((g: { model: string | null }) => g.model)).toEqual([null, null, null]);
+    expect(message.generations.map(({ costUsd, durationMs, tokens, ignoredParams, ignoredImages }: Record<string, unknown>) => ({ costUsd, durationMs, tokens, ignoredParams, ignoredImages })))
+      .toEqual(Array(3).fill({ costUsd: null, durationMs: null, tokens: null, ignoredParams: [], ignoredImages: 0 }));
+    expect(message.settings.models).toEqual(['flux-1', 'gemini-image-flash', 'image-gpt']);
+
+    const path = `/api/sessions/${id}/messages/${message.id}`;
+    const messageParams = { params: Promise.resolve({ id, messageId: message.id }) };
+    expect((await updateMessage(jsonRequest(path, { revealed: false }, { method: 'PATCH' }), messageParams)).status).toBe(400);
+    const revealed = await updateMessage(jsonRequest(path, { revealed: true }, { method: 'PATCH' }), messageParams);
+    expect(revealed.status).toBe(200);
+    const rows = await db.select().from(usersTable);
+    const order = start.jobs.map((job) => rows.find((r) => r.id === job.generationId)!.model);
+    // The reveal names the models and returns what was hidden with them
+    const { generations } = await revealed.json();
+    expect(generations).toEqual(expect.arrayContaining(start.jobs.map((job, i) => expect.objectContaining({ generationId: job.generationId, model: order[i] }))));
+    const flux = rows.find((r) => r.model === 'flux-1')!;
+    expect(generations.find((g: { generationId: number }) => g.generationId === flux.id)).toMatchObject({ costUsd: flux.costUsd, durationMs: expect.any(Number) });
+    expect(flux.costUsd).toBeGreaterThan(0);
+    const after = (await load(id)).json.messages[0];
+    expect(after.revealed).toBe(true);
+    expect(after.generations.map((g: { model: string }) => g.model)).toEqual(order);
+    expect(after.settings.models).toEqual(order);
+  });
+
+  it('renames and deletes sessions, keeping their generations', async () => {
+    const id = await create();
+    await turn({ prompt: 'a red fox', models: ['flux-1'], sessionId: id });
+
+    expect((await updateSession(jsonRequest(`/api/sessions/${id}`, { title: ' ' }, { method: 'PATCH' }), idParams(id))).status).toBe(400);
+    const renamed = await updateSession(jsonRequest(`/api/sessions/${id}`, { title: 'Foxes' }, { method: 'PATCH' }), idParams(id));
+    expect(await renamed.json()).toMatchObject({ id, title: 'Foxes' });
+
+    const res = await deleteSession(new NextRequest(`http://localhost:3000/api/sessions/${id}`, { method: 'DELETE' }), idParams(id));
+    expect(res.status).toBe(200);
+    expect((await load(id)).status).toBe(404);
+    const rows = await db.select().from(usersTable);
+    expect(rows).toEqual([expect.objectContaining({ prompt: 'a red fox', status: 'completed', messageId: null })]);
+  });
+
+  it('only lets the owner use a session', async () => {
+    const id = await create();
+    vi.mocked(auth).mockResolvedValue({ userId: 'someone_else' } as AuthResult);
+    try {
+      expect((await load(id)).status).toBe(404);
+      const res = await stream(jsonRequest('/api/generate/stream', { prompt: 'a red fox', models: ['flux-1'], sessionId: id }));
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ error: 'Session not found' });
+      expect((await (await listSessions()).json()).sessions).toEqual([]);
+    } finally {
+      vi.mocked(auth).mockResolvedValue({ userId: 'user_test' } as AuthResult);
+    }
+    expect(await db.select().from(usersTable)).toEqual([]);
+  });
+});
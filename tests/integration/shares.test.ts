@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/db';
+import { usersTable } from '@/db/schema';
+import { GET as listShares, POST as createShare } from '@/app/api/shares/route';
+import { DELETE as revokeShare, GET as getShare } from '@/app/api/shares/[id]/route';
+import { POST as vote } from '@/app/api/votes/route';
+import { METADATA_VERSION } from '@/metadata';
+import { resetDb, TestDb } from '../support/db';
+import { jsonRequest } from '../support/requests';
+
+type AuthResult = Awaited<ReturnType<typeof auth>>;
+
+beforeEach(async () => {
+  await resetDb(db as unknown as TestDb);
+});
+
+async function insertGeneration(model: string, values: Partial<typeof usersTable.$inferInsert> = {}) {
+  const [row] = await db.insert(usersTable).values({
+    userId: 'user_test',
+    prompt: 'a red fox in the snow',
+    inputImageUrl: 'https://storage.test/in.png',
+    outputImageUrl: `https://storage.test/${model}.png`,
+    model,
+    status: 'completed',
+    error: '',
+    metadata: { version: METADATA_VERSION, timing: { durationMs: 2500 } },
+    costUsd: 0.04,
+    ...values,
+  }).returning();
+  return row.id;
+}
+
+const idParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+async function open(id: string) {
+  const res = await getShare(new NextRequest(`http://localhost:3000/api/shares/${id}`), idParams(id));
+  return { status: res.status, json: await res.json() };
+}
+
+describe('share links', () => {
+  it('shows a comparison to anyone with the link until it is revoked', async () => {
+    const flux = await insertGeneration('flux-1');
+    const gemini = await insertGeneration('gemini-image-flash');
+    const failed = await insertGeneration('image-gpt', { status: 'failed', outputImageUrl: '', error: 'Boom', costUsd: null });
+    await vote(jsonRequest('/api/votes', { generationId: flux, value: 'up' }));
+    await vote(jsonRequest('/api/votes', { winnerId: gemini, loserIds: [flux] }));
+
+    const res = await createShare(jsonRequest('/api/shares', { generationIds: [gemini, flux, failed] }));
+    expect(res.status).toBe(201);
+    const link = await res.json();
+    expect(link).toMatchObject({ id: expect.stringMatching(/^[\w-]{32}$/), url: `/share/${link.id}`, generationIds: [gemini, flux, failed] });
+
+    vi.mocked(auth).mockResolvedValue({ userId: null } as AuthResult);
+    try {
+      const { status, json } = await open(link.id);
+      expect(status).toBe(200);
+      expect(json).toMatchObject({ prompt: 'a red fox in the snow', inputImageUrl: 'https://storage.test/in.png' });
+      expect(json).not.toHaveProperty('userId');
+      expect(json.generations).toEqual([
+        expect.objectContaining({ id: gemini, label: 'Gemini', outputImageUrl: 'https://storage.test/gemini-image-flash.png', durationMs: 2500, costUsd: 0.04, best: true }),
+        expect.objectContaining({ id: flux, label: 'Flux-1', vote: 'up', best: false }),
+        expect.objectContaining({ id: failed, status: 'failed', outputImageUrl: null, error: 'Boom', best: false }),
+      ]);
+      // Only the owner can revoke
+      expect((await revokeShare(new NextRequest('http://localhost:3000/api/shares/x', { method: 'DELETE' }), idParams(link.id))).status).toBe(401);
+    } finally {
+      vi.mocked(auth).mockResolvedValue({ userId: 'user_test' } as AuthResult);
+    }
+
+    expect((await (await listShares()).json()).shares).toEqual([expect.objectContaining({ id: link.id })]);
+    const revoked = await revokeShare(new NextRequest(`http://localhost:3000/api/shares/${link.id}`, { method: 'DELETE' }), idParams(link.id));
+    expect(revoked.status).toBe(200);
+    expect((await open(link.id)).status).toBe(404);
+    expect((await (await listShares()).json()).shares).toEqual([]);
+  });
+
+  it('only shares the user’s own generations', async () => {
+    const own = await insertGeneration('flux-1');
+    const other = await insertGeneration('flux-1', { userId: 'someone_else' });
+    expect((await createShare(jsonRequest('/api/shares', { generationIds: [own, other] }))).status).toBe(404);
+    expect((await createShare(jsonRequest('/api/shares', { generationIds: [] }))).status).toBe(400);
+    expect((await createShare(jsonRequest('/api/shares', { generationIds: ['1'] }))).status).toBe(400);
+    expect((await open('not-a-share')).status).toBe(404);
+
+    const { id } = await (await createShare(jsonRequest('/api/shares', { generationIds: [own] }))).json();
+    vi.mocked(auth).mockResolvedValue({ userId: 'someone_else' } as AuthResult);
+    try {
+      expect((await revokeShare(new NextRequest(`http://localhost:3000/api/shares/${id}`, { method: 'DELETE' }), idParams(id))).status).toBe(404);
+    } finally {
+      vi.mocked(auth).mockResolvedValue({ userId: 'user_test' } as AuthResult);
+    }
+    expect((await open(id)).status).toBe(200);
+  });
+});
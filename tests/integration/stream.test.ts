@@ -0,0 +1,164 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/db';
+import { jobsTable, usersTable } from '@/db/schema';
+import { POST as stream } from '@/app/api/generate/stream/route';
+import { resetDb, TestDb } from '../support/db';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { jsonRequest, readEvents, SseEvent } from '../support/requests';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+function stagesOf(events: SseEvent[], model: string) {
+  return events.filter((e) => e.event === 'stage' && e.data.model === model).map((e) => e.data.stage);
+}
+
+describe('POST /api/generate/stream', () => {
+  it('streams the progress of every model', async () => {
+    fakes.bfl.pollsUntilReady = 2;
+    const res = await stream(jsonRequest('/api/generate/stream', { prompt: 'a red fox', models: ['flux-1', 'gemini-image-flash', 'image-gpt'], enhance: true }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toMatch(/^text\/event-stream/);
+    const events = await readEvents(res);
+
+    expect(stagesOf(events, 'flux-1')).toEqual(['queued', 'enhancing', 'submitted', 'polling', 'uploading', 'done']);
+    expect(stagesOf(events, 'image-gpt')).toEqual(['queued', 'enhancing', 'submitted', 'uploading', 'done']);
+    expect(stagesOf(events, 'gemini-image-flash')).toEqual(['queued', 'enhancing', 'submitted', 'uploading', 'done']);
+    expect(events.at(-1)).toMatchObject({ event: 'end', data: { elapsedMs: expect.any(Number) } });
+
+    const done = events.find((e) => e.event === 'stage' && e.data.model === 'flux-1' && e.data.stage === 'done')!;
+    expect(done.data).toMatchObject({
+      result: { image: expect.stringMatching(/^https:\/\/storage\.test\//) },
+      timings: { queued: expect.any(Number), submitted: expect.any(Number), polling: expect.any(Number), uploading: expect.any(Number) },
+    });
+    const elapsed = events.filter((e) => e.data.model === 'flux-1').map((e) => e.data.elapsedMs as number);
+    expect(elapsed).toEqual([...elapsed].sort((a, b) => a - b));
+
+    const jobs = await db.select().from(jobsTable);
+    expect(jobs.map((j) => j.status)).toEqual(['completed', 'completed', 'completed']);
+    expect(await db.select().from(usersTable)).toHaveLength(3);
+  });
+
+  it('streams Gemini text as it arrives', async () => {
+    const events = await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a green frog', models: ['gemini-image-flash'] })));
+    const text = events.filter((e) => e.event === 'text');
+    expect(text).toEqual([{ event: 'text', data: expect.objectContaining({ model: 'gemini-image-flash', text: 'Here is your image. ' }) }]);
+    const submitted = events.findIndex((e) => e.data.stage === 'submitted');
+    const done = events.findIndex((e) => e.data.stage === 'done');
+    expect(events.indexOf(text[0])).toBeGreaterThan(submitted);
+    expect(events.indexOf(text[0])).toBeLessThan(done);
+  });
+
+  it('reports a failing model without holding up the others', async () => {
+    fakes.openai.scenario = 'error';
+    const events = await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a blue bird', models: ['image-gpt', 'gemini-image-flash'] })));
+    const failed = events.find((e) => e.data.model === 'image-gpt' && e.data.stage === 'error')!;
+    expect(failed.data.error).toMatch(/safety system/);
+    expect(stagesOf(events, 'gemini-image-flash').at(-1)).toBe('done');
+  });
+
+  it('announces the jobs in display order', async () => {
+    const events = await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a red fox', models: ['image-gpt', 'flux-1'] })));
+    expect(events[0].event).toBe('start');
+    const jobs = events[0].data.jobs as Record<string, unknown>[];
+    expect(jobs.map((j) => j.model)).toEqual(['image-gpt', 'flux-1']);
+    expect(jobs[0]).toMatchObject({ jobId: expect.any(String), generationId: expect.any(Number) });
+    expect(jobs[0].blindLabel).toBeUndefined();
+    const rows = await db.select().from(usersTable);
+    expect(rows.map((r) => r.metadata.blind)).toEqual([undefined, undefined]);
+  });
+
+  it('shuffles blind comparisons and stores the assignment', async () => {
+    const models = ['flux-1', 'gemini-image-flash', 'image-gpt'];
+    const orders = new Set<string>();
+    for (let i = 0; i < 8 && orders.size < 2; i++) {
+      await resetDb(db as unknown as TestDb);
+      const events = await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a red fox', models, blind: true })));
+      const jobs = events[0].data.jobs as { model?: string; generationId: number; blindLabel: string }[];
+      expect(jobs.map((j) => j.blindLabel)).toEqual(['Model A', 'Model B', 'Model C']);
+      // Nothing the client receives names the models
+      expect(events.filter((e) => e.data.model !== undefined)).toEqual([]);
+      expect(jobs.filter((j) => j.model !== undefined)).toEqual([]);
+      // ...or gives them away by their cost, usage, timings or what they ignore
+      const jobEvents = events.filter((e) => e.event !== 'end');
+      const revealing = ['ignoredParams', 'ignoredImages', 'elapsedMs', 'timings'];
+      expect([...jobEvents.map((e) => e.data), ...jobs].filter((data) => revealing.some((key) => key in data))).toEqual([]);
+      const results = jobEvents.map((e) => e.data.result as Record<string, unknown> | undefined).filter((result) => result !== undefined);
+      expect(results).toHaveLength(3);
+      expect(results.filter((result) => ['costUsd', 'tokens', 'usage', 'enhancedPrompt'].some((key) => result[key] !== undefined))).toEqual([]);
+      expect(results.every((result) => typeof result.image === 'string')).toBe(true);
+
+      const rows = await db.select().from(usersTable);
+      const order = jobs.map((job) => rows.find((r) => r.id === job.generationId)!.model);
+      expect([...order].sort()).toEqual(models);
+      orders.add(order.join());
+      for (const [position, job] of jobs.entries()) {
+        const row = rows.find((r) => r.id === job.generationId)!;
+        expect(row.metadata).toMatchObject({
+          blind: { comparisonId: expect.any(String), label: job.blindLabel, position, order },
+        });
+      }
+      expect(new Set(rows.map((r) => r.metadata.blind?.comparisonId)).size).toBe(1);
+    }
+    // 8 shuffles of 3 models all landing on one order is a 1 in 6^7 chance
+    expect(orders.size).toBeGreaterThan(1);
+  });
+
+  it('runs n samples per model, each with its own generation', async () => {
+    const events = await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a red fox', models: ['image-gpt', 'gemini-image-flash'], n: 2, blind: true })));
+    const jobs = events[0].data.jobs as { sample: number; jobId: string; generationId: number; blindLabel: string }[];
+    expect(jobs.map((j) => [j.sample, j.blindLabel])).toEqual([[0, 'Model A'], [1, 'Model A'], [0, 'Model B'], [1, 'Model B']]);
+    const done = events.filter((e) => e.event === 'stage' && e.data.stage === 'done');
+    expect(done.map((e) => e.data.jobId).sort()).toEqual(jobs.map((j) => j.jobId).sort());
+    expect(done.every((e) => e.data.sample === jobs.find((j) => j.jobId === e.data.jobId)!.sample)).toBe(true);
+
+    const rows = await db.select().from(usersTable);
+    expect(rows).toHaveLength(4);
+    expect(rows.every((r) => r.status === 'completed')).toBe(true);
+    const modelOf = (job: { generationId: number }) => rows.find((r) => r.id === job.generationId)!.model;
+    expect(jobs.map(modelOf)).toEqual([modelOf(jobs[0]), modelOf(jobs[0]), modelOf(jobs[2]), modelOf(jobs[2])]);
+    for (const job of jobs) {
+      const row = rows.find((r) => r.id === job.generationId)!;
+      expect(row.metadata).toMatchObject({ sample: { index: job.sample, count: 2 }, blind: { label: job.blindLabel } });
+    }
+  });
+
+  it('stores every image a provider returns as a generation', async () => {
+    fakes.gemini.scenario = 'two-images';
+    const events = await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: 'a green frog', models: ['gemini-image-flash'] })));
+    const done = events.find((e) => e.event === 'stage' && e.data.stage === 'done')!;
+    const result = done.data.result as { image: string; images: string[]; generationIds: number[] };
+    expect(result.images).toHaveLength(2);
+    expect(result.image).toBe(result.images[0]);
+
+    const rows = await db.select().from(usersTable).orderBy(usersTable.id);
+    expect(rows.map((r) => r.id)).toEqual(result.generationIds);
+    expect(rows.map((r) => r.outputImageUrl)).toEqual(result.images);
+    expect(rows.map((r) => r.status)).toEqual(['completed', 'completed']);
+    expect(rows[1]).toMatchObject({ prompt: 'a green frog', model: 'gemini-image-flash', metadata: { outputIndex: 1 } });
+  });
+
+  it('validates the request', async () => {
+    expect((await stream(jsonRequest('/api/generate/stream', { prompt: 'a cat', models: [] }))).status).toBe(400);
+    expect((await stream(jsonRequest('/api/generate/stream', { prompt: 'a cat', models: ['flux-1', 'dall-e-9'] }))).status).toBe(400);
+    expect((await stream(jsonRequest('/api/generate/stream', { prompt: ' ', models: ['flux-1'] }))).status).toBe(400);
+    expect((await stream(jsonRequest('/api/generate/stream', { prompt: 'a cat', models: ['flux-1'], n: 5 }))).status).toBe(400);
+    expect((await stream(jsonRequest('/api/generate/stream', { prompt: 'a cat', models: ['flux-1'], n: 1.5 }))).status).toBe(400);
+    vi.mocked(auth).mockResolvedValueOnce({ userId: null } as Awaited<ReturnType<typeof auth>>);
+    expect((await stream(jsonRequest('/api/generate/stream', { prompt: 'a cat', models: ['flux-1'] }))).status).toBe(401);
+    expect(await db.select().from(jobsTable)).toHaveLength(0);
+  });
+});
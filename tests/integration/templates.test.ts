@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/db';
+import { jobsTable, usersTable } from '@/db/schema';
+import { GET as listTemplates, POST as createTemplate } from '@/app/api/templates/route';
+import { DELETE as deleteTemplate, PATCH as updateTemplate } from '@/app/api/templates/[id]/route';
+import { POST as stream } from '@/app/api/generate/stream/route';
+import { POST as flux } from '@/app/api/flux-1/route';
+import { batchSize, expandTemplate, parseValueList, renderTemplate, templateVariables } from '@/prompt-template';
+import { resetDb, TestDb } from '../support/db';
+import { Fakes, resetFakes, startFakes, stopFakes } from '../support/providers';
+import { jsonRequest, readEvents } from '../support/requests';
+
+let fakes: Fakes;
+
+beforeAll(async () => {
+  fakes = await startFakes();
+});
+
+afterAll(async () => {
+  await stopFakes(fakes);
+});
+
+beforeEach(async () => {
+  resetFakes(fakes);
+  await resetDb(db as unknown as TestDb);
+});
+
+type AuthResult = Awaited<ReturnType<typeof auth>>;
+
+// Signs the next calls in as `userId`, optionally with an active team
+function signInAs(userId: string, orgId?: string) {
+  vi.mocked(auth).mockResolvedValue({ userId, orgId } as AuthResult);
+}
+
+const idParams = (id: number | string) => ({ params: Promise.resolve({ id: String(id) }) });
+
+async function create(body: Record<string, unknown>) {
+  const res = await createTemplate(jsonRequest('/api/templates', body));
+  return { status: res.status, json: await res.json() };
+}
+
+async function listNames() {
+  const { templates } = await (await listTemplates()).json();
+  return (templates as { name: string }[]).map((t) => t.name).sort();
+}
+
+describe('prompt templates', () => {
+  it('finds, renders and expands variables', () => {
+    const body = 'a {{ subject }} in {{style}} style, {{subject}} centered';
+    expect(templateVariables(body)).toEqual(['subject', 'style']);
+    expect(renderTemplate(body, { subject: 'fox' })).toBe('a fox in {{style}} style, fox centered');
+    expect(parseValueList(' fox | owl ||fox ')).toEqual(['fox', 'owl']);
+
+    const lists = { subject: ['fox', 'owl'], style: ['ink', 'oil', 'pixel'] };
+    expect(batchSize(body, lists)).toBe(6);
+    const batch = expandTemplate(body, lists);
+    expect(batch).toHaveLength(6);
+    expect(batch[0]).toEqual({ prompt: 'a fox in ink style, fox centered', values: { subject: 'fox', style: 'ink' } });
+    expect(batch.at(-1)!.prompt).toBe('a owl in pixel style, owl centered');
+    expect(expandTemplate(body, { subject: ['fox'] })).toEqual([]);
+    expect(expandTemplate('a plain prompt', {})).toEqual([{ prompt: 'a plain prompt', values: {} }]);
+  });
+});
+
+describe('/api/templates', () => {
+  afterAll(() => {
+    vi.mocked(auth).mockResolvedValue({ userId: 'user_test' } as AuthResult);
+  });
+
+  it('creates, updates and deletes the user’s templates', async () => {
+    signInAs('user_test');
+    const created = await create({ name: ' Animals ', body: 'a {{animal}} at {{time}}', values: { animal: ['fox', 'fox', 'owl'], unused: ['x'] } });
+    expect(created.status).toBe(201);
+    expect(created.json).toMatchObject({
+      name: 'Animals',
+      variables: ['animal', 'time'],
+      // Lists are deduplicated and limited to the body's variables
+      values: { animal: ['fox', 'owl'], time: [] },
+      shared: false,
+      own: true,
+    });
+
+    const updated = await updateTemplate(jsonRequest(`/api/templates/${created.json.id}`, { body: 'a {{animal}}', values: { animal: ['cat'] } }, { method: 'PATCH' }), idParams(created.json.id));
+    expect(await updated.json()).toMatchObject({ name: 'Animals', body: 'a {{animal}}', values: { animal: ['cat'] } });
+
+    expect((await deleteTemplate(new NextRequest('http://localhost:3000/api/templates/1', { method: 'DELETE' }), idParams(created.json.id))).status).toBe(200);
+    expect(await listNames()).toEqual([]);
+  });
+
+  it('validates templates', async () => {
+    signInAs('user_test');
+    expect((await create({ name: '', body: '' })).json.error).toBe('name must be 1 to 255 characters; body must be 1 to 2000 characters');
+    expect((await create({ name: 'x', body: 'a {{animal}}', values: { animal: 'fox' } })).status).toBe(400);
+    // Sharing needs an active team
+    expect((await create({ name: 'x', body: 'a {{animal}}', shared: true })).json.error).toBe('Select a team to share templates with');
+  });
+
+  it('shares templates with the team but only lets the owner change them', async () => {
+    signInAs('user_a', 'org_1');
+    const shared = await create({ name: 'Team template', body: 'a {{animal}}', shared: true });
+    await create({ name: 'Private template', body: 'a {{animal}}' });
+
+    signInAs('user_b', 'org_1');
+    expect(await listNames()).toEqual(['Team template']);
+    const res = await updateTemplate(jsonRequest('/api/templates/1', { name: 'Mine now' }, { method: 'PATCH' }), idParams(shared.json.id));
+    expect(res.status).toBe(404);
+    expect((await deleteTemplate(new NextRequest('http://localhost:3000/api/templates/1', { method: 'DELETE' }), idParams(shared.json.id))).status).toBe(404);
+
+    signInAs('user_c', 'org_2');
+    expect(await listNames()).toEqual([]);
+  });
+});
+
+describe('generating from a template', () => {
+  it('records the template and values on every generation of the batch', async () => {
+    const { json: template } = await create({ name: 'Animals', body: 'a {{animal}} in the snow', values: { animal: ['fox', 'owl'] } });
+    for (const item of expandTemplate(template.body, template.values)) {
+      await readEvents(await stream(jsonRequest('/api/generate/stream', { prompt: item.prompt, models: ['flux-1', 'image-gpt'], template: { id: template.id, values: item.values } })));
+    }
+    const rows = await db.select().from(usersTable).orderBy(usersTable.id);
+    expect(rows.map((r) => [r.model, r.prompt, r.metadata.template?.values.animal])).toEqual([
+      ['flux-1', 'a fox in the snow', 'fox'],
+      ['image-gpt', 'a fox in the snow', 'fox'],
+      ['flux-1', 'a owl in the snow', 'owl'],
+      ['image-gpt', 'a owl in the snow', 'owl'],
+    ]);
+    expect(rows[0].metadata.template).toEqual({ id: template.id, name: 'Animals', body: 'a {{animal}} in the snow', values: { animal: 'fox' } });
+  });
+
+  it('records unsaved templates by their body', async () => {
+    const res = await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox', template: { body: 'a {{color}} fox', values: { color: 'red', other: 'x' } } }));
+    expect(res.status).toBe(202);
+    const [row] = await db.select().from(usersTable);
+    expect(row.metadata.template).toEqual({ body: 'a {{color}} fox', values: { color: 'red' } });
+  });
+
+  it('rejects values that do not produce the prompt', async () => {
+    const mismatch = await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox', template: { body: 'a {{color}} fox', values: { color: 'blue' } } }));
+    expect(mismatch.status).toBe(400);
+    expect((await mismatch.json()).error).toBe('The template values do not produce the prompt');
+
+    const missing = await flux(jsonRequest('/api/flux-1', { prompt: 'a red fox', template: { id: 99, values: {} } }));
+    expect(missing.status).toBe(404);
+    expect(await db.select().from(jobsTable)).toHaveLength(0);
+  });
+});
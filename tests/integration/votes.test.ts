@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/db';
+import { usersTable, votesTable } from '@/db/schema';
+import { POST as vote } from '@/app/api/votes/route';
+import { categorizePrompt, computeBradleyTerry, computeElo, getLeaderboard } from '@/ratings';
+import { METADATA_VERSION } from '@/metadata';
+import { resetDb, TestDb } from '../support/db';
+import { jsonRequest } from '../support/requests';
+
+beforeEach(async () => {
+  await resetDb(db as unknown as TestDb);
+});
+
+async function insertGeneration(model: string, values: Partial<typeof usersTable.$inferInsert> = {}) {
+  const [row] = await db.insert(usersTable).values({
+    userId: 'user_test',
+    prompt: 'a red fox in the snow',
+    inputImageUrl: '',
+    outputImageUrl: 'https://storage.test/x.png',
+    model,
+    status: 'completed',
+    error: '',
+    metadata: { version: METADATA_VERSION },
+    ...values,
+  }).returning();
+  return row.id;
+}
+
+describe('POST /api/votes', () => {
+  it('records thumbs up and replaces it on a second vote', async () => {
+    const id = await insertGeneration('flux-1');
+    let res = await vote(jsonRequest('/api/votes', { generationId: id, value: 'up' }));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ generationId: id, value: 'up', category: 'animal' });
+
+    res = await vote(jsonRequest('/api/votes', { generationId: id, value: 'down' }));
+    expect(res.status).toBe(200);
+    const rows = await db.select().from(votesTable);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ generationId: id, opponentGenerationId: null, value: 'down' });
+  });
+
+  it('records a pick as a win over each other variant', async () => {
+    const flux = await insertGeneration('flux-1');
+    const gemini = await insertGeneration('gemini-image-flash');
+    const gpt = await insertGeneration('image-gpt');
+    const res = await vote(jsonRequest('/api/votes', { winnerId: gemini, loserIds: [flux, gpt] }));
+    expect(res.status).toBe(200);
+    const rows = await db.select().from(votesTable);
+    expect(rows.map((r) => [r.generationId, r.opponentGenerationId, r.value])).toEqual([[gemini, flux, 'win'], [gemini, gpt, 'win']]);
+
+    // Changing the pick flips the pair rather than adding a second result
+    await vote(jsonRequest('/api/votes', { winnerId: flux, loserIds: [gemini, gpt] }));
+    const after = await db.select().from(votesTable);
+    expect(after.map((r) => [r.generationId, r.opponentGenerationId]).sort()).toEqual([[flux, gemini], [flux, gpt], [gemini, gpt]].sort());
+  });
+
+  it('records whether the vote was cast blind', async () => {
+    const flux = await insertGeneration('flux-1');
+    const gpt = await insertGeneration('image-gpt');
+    await vote(jsonRequest('/api/votes', { winnerId: gpt, loserIds: [flux], blind: true }));
+    await vote(jsonRequest('/api/votes', { generationId: flux, value: 'up' }));
+    const rows = await db.select().from(votesTable);
+    expect(rows.map((r) => [r.value, r.blind])).toEqual([['win', true], ['up', false]]);
+  });
+
+  it('only accepts votes on the user\'s completed generations', async () => {
+    const other = await insertGeneration('flux-1', { userId: 'someone_else' });
+    const failed = await insertGeneration('image-gpt', { status: 'failed' });
+    const mine = await insertGeneration('gemini-image-flash');
+    expect((await vote(jsonRequest('/api/votes', { generationId: other, value: 'up' }))).status).toBe(404);
+    expect((await vote(jsonRequest('/api/votes', { winnerId: mine, loserIds: [failed] }))).status).toBe(404);
+    expect((await vote(jsonRequest('/api/votes', { winnerId: mine, loserIds: [mine] }))).status).toBe(400);
+    expect((await vote(jsonRequest('/api/votes', { generationId: mine, value: 'meh' }))).status).toBe(400);
+    vi.mocked(auth).mockResolvedValueOnce({ userId: null } as Awaited<ReturnType<typeof auth>>);
+    expect((await vote(jsonRequest('/api/votes', { generationId: mine, value: 'up' }))).status).toBe(401);
+    expect(await db.select().from(votesTable)).toHaveLength(0);
+  });
+});
+
+describe('ratings', () => {
+  it('categorizes prompts', () => {
+    expect(categorizePrompt('a watercolor fox')).toBe('animal');
+    expect(categorizePrompt('a poster that says "OPEN"')).toBe('text');
+    expect(categorizePrompt('portrait of an old man')).toBe('portrait');
+    expect(categorizePrompt('make it blue', true)).toBe('edit');
+    expect(categorizePrompt('something abstract')).toBe('other');
+  });
+
+  it('rates the model that wins more higher', () => {
+    const matches = [
+      { winner: 'a', loser: 'b' },
+      { winner: 'a', loser: 'b' },
+      { winner: 'b', loser: 'a' },
+      { winner: 'b', loser: 'c' },
+      { winner: 'a', loser: 'c' },
+    ];
+    const elo = computeElo(matches);
+    expect(elo.a).toBeGreaterThan(elo.b);
+    expect(elo.b).toBeGreaterThan(elo.c);
+    expect(elo.a + elo.b + elo.c).toBeCloseTo(3000);
+
+    const bt = computeBradleyTerry(matches);
+    expect(bt.a).toBeGreaterThan(bt.b);
+    expect(bt.b).toBeGreaterThan(bt.c);
+    expect(Number.isFinite(bt.c)).toBe(true);
+  });
+
+  it('builds the leaderboard overall and by category', async () => {
+    const foxFlux = await insertGeneration('flux-1');
+    const foxGpt = await insertGeneration('image-gpt');
+    const logoFlux = await insertGeneration('flux-1', { prompt: 'a logo for a coffee shop' });
+    const logoGpt = await insertGeneration('image-gpt', { prompt: 'a logo for a coffee shop' });
+    await vote(jsonRequest('/api/votes', { winnerId: foxFlux, loserIds: [foxGpt] }));
+    await vote(jsonRequest('/api/votes', { winnerId: logoGpt, loserIds: [logoFlux] }));
+    await vote(jsonRequest('/api/votes', { generationId: logoGpt, value: 'up' }));
+
+    const overall = await getLeaderboard();
+    expect(overall.matches).toBe(2);
+    expect(overall.categories).toEqual({ animal: 1, text: 1 });
+    expect(overall.rows.map((r) => [r.model, r.wins, r.losses])).toEqual(expect.arrayContaining([['flux-1', 1, 1], ['image-gpt', 1, 1]]));
+
+    const text = await getLeaderboard('text');
+    expect(text.rows[0]).toMatchObject({ model: 'image-gpt', label: 'Image-GPT', wins: 1, losses: 0, upvotes: 1 });
+    expect(text.rows[1]).toMatchObject({ model: 'flux-1', wins: 0, losses: 1 });
+    expect(text.rows[0].bradleyTerry).toBeGreaterThan(text.rows[1].bradleyTerry);
+  });
+});
@@ -0,0 +1,41 @@
+import { beforeEach, vi } from 'vitest';
+import { fetchServedFiles, servedFiles } from './support/storage';
+
+// Routes run in-process against fakes: Clerk auth resolves to a fixed user,
+// object storage returns deterministic URLs it serves files back from, `.test`
+// hosts resolve without DNS, the database is PGlite and after() callbacks wait
+// for flushAfter().
+vi.mock('next/server', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('next/server')>();
+  const { deferAfter } = await import('./support/after');
+  return { ...actual, after: deferAfter };
+});
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(async () => ({ userId: 'user_test' })),
+}));
+
+vi.mock('@/storage', async () => {
+  const { storeFile } = await import('./support/storage');
+  return { uploadFile: vi.fn(storeFile) };
+});
+
+vi.mock('node:dns/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:dns/promises')>();
+  const { lookupTestHost } = await import('./support/storage');
+  return { ...actual, default: { ...actual, lookup: lookupTestHost }, lookup: lookupTestHost };
+});
+
+vi.stubGlobal('fetch', fetchServedFiles(globalThis.fetch));
+
+vi.mock('@/db', async () => {
+  const { createTestDb } = await import('./support/db');
+  return { db: await createTestDb() };
+});
+
+// Rate limits and storage start empty in every test
+beforeEach(async () => {
+  const { memoryStore } = await import('@/rate-limit');
+  memoryStore.clear();
+  servedFiles.clear();
+});
@@ -0,0 +1,13 @@
+// Stand-in for next/server's after(): callbacks are queued and run when a test
+// calls flushAfter(), so background work is driven explicitly.
+const pending: Array<() => unknown> = [];
+
+export function deferAfter(task: (() => unknown) | Promise<unknown>) {
+  pending.push(typeof task === 'function' ? task : () => task);
+}
+
+export async function flushAfter() {
+  while (pending.length > 0) {
+    await pending.shift()!();
+  }
+}
@@ -0,0 +1,22 @@
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import { sql } from 'drizzle-orm';
+
+// In-process Postgres with the real migrations applied, standing in for Neon.
+export async function createTestDb() {
+  const db = drizzle(new PGlite());
+  await migrate(db, { migrationsFolder: path.resolve(__dirname, '../../drizzle') });
+  return db;
+}
+
+export type TestDb = Awaited<ReturnType<typeof createTestDb>>;
+
+export async function resetDb(db: TestDb) {
+  const result = await db.execute<{ tablename: string }>(sql`select tablename from pg_tables where schemaname = 'public'`);
+  const tables = result.rows.map((r) => `"${r.tablename}"`);
+  if (tables.length > 0) {
+    await db.execute(sql.raw(`truncate ${tables.join(', ')} restart identity cascade`));
+  }
+}
@@ -0,0 +1,25 @@
+import { expect } from 'vitest';
+import { getJob, runJob, toJobResponse } from '@/jobs';
+import { flushAfter } from './after';
+
+// Runs a job's steps (as the worker would) until it completes or fails.
+export async function driveJob(jobId: string, maxSteps = 50) {
+  await flushAfter();
+  for (let i = 0; i < maxSteps; i++) {
+    const job = await getJob(jobId);
+    if (!job) throw new Error(`Job ${jobId} not found`);
+    if (job.status === 'completed' || job.status === 'failed') return toJobResponse(job);
+    if (!(await runJob(jobId))) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+  throw new Error(`Job ${jobId} did not finish in ${maxSteps} steps`);
+}
+
+// Asserts a generation route queued a job and runs it to the end.
+export async function expectJob(res: Response) {
+  expect(res.status).toBe(202);
+  const { jobId } = await res.json();
+  expect(jobId).toEqual(expect.any(String));
+  return driveJob(jobId);
+}
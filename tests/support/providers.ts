@@ -0,0 +1,36 @@
+import { startFakeBfl, FakeBfl } from '../fakes/bfl';
+import { startFakeGemini, FakeGemini } from '../fakes/gemini';
+import { startFakeOpenAI, FakeOpenAI } from '../fakes/openai';
+
+export type Fakes = { bfl: FakeBfl; openai: FakeOpenAI; gemini: FakeGemini };
+
+// Starts every provider fake and points the provider base URLs at them.
+export async function startFakes(): Promise<Fakes> {
+  const [bfl, openai, gemini] = await Promise.all([startFakeBfl(), startFakeOpenAI(), startFakeGemini()]);
+  Object.assign(process.env, {
+    BFL_API_KEY: 'fake-bfl-key',
+    BFL_BASE_URL: bfl.url,
+    BFL_POLL_INTERVAL_MS: '10',
+    BFL_POLL_TIMEOUT_MS: '5000',
+    OPENAI_API_KEY: 'fake-openai-key',
+    OPENAI_BASE_URL: `${openai.url}/v1`,
+    GEMINI_API_KEY: 'fake-gemini-key',
+    GEMINI_BASE_URL: gemini.url,
+    GOOGLE_API_KEY: 'fake-google-key',
+    VEO_POLL_INTERVAL_MS: '10',
+  });
+  return { bfl, openai, gemini };
+}
+
+export async function stopFakes(fakes: Fakes) {
+  await Promise.all([fakes.bfl.close(), fakes.openai.close(), fakes.gemini.close()]);
+}
+
+export function resetFakes(fakes: Fakes) {
+  fakes.bfl.scenario = 'ok';
+  fakes.bfl.pollsUntilReady = 1;
+  fakes.openai.scenario = 'ok';
+  fakes.gemini.scenario = 'ok';
+  fakes.gemini.pollsUntilDone = 1;
+  for (const fake of [fakes.bfl, fakes.openai, fakes.gemini]) fake.requests.length = 0;
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+
+export function jsonRequest(path: string, body: unknown, init: { method?: string; headers?: Record<string, string> } = {}) {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method: init.method || 'POST',
+    headers: { 'content-type': 'application/json', ...init.headers },
+    body: JSON.stringify(body),
+  });
+}
+
+export type SseEvent = { event: string; data: Record<string, unknown> };
+
+// Reads a whole Server-Sent Events response into its events
+export async function readEvents(res: Response): Promise<SseEvent[]> {
+  const body = await res.text();
+  return body
+    .split('\n\n')
+    .filter((block) => block.trim().length > 0)
+    .map((block) => {
+      const lines = block.split('\n');
+      const event = lines.find((line) => line.startsWith('event: '))?.slice(7) || 'message';
+      const data = lines.filter((line) => line.startsWith('data: ')).map((line) => line.slice(6)).join('\n');
+      return { event, data: JSON.parse(data) };
+    });
+}
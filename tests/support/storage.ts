@@ -0,0 +1,47 @@
+import { PNG_BASE64 } from '../fakes/server';
+
+// Stand-in for object storage: uploads get deterministic URLs and, like the
+// real bucket, can be fetched back from them. Tests can serve other files
+// (images hosted elsewhere) with serveImage, and redirects with serveRedirect.
+type ServedFile = { content: Buffer; contentType: string; withLength: boolean } | { location: string };
+
+export const servedFiles = new Map<string, ServedFile>();
+
+export async function storeFile(fileName: string, content: Buffer, contentType: string) {
+  const url = `https://storage.test/images/${fileName}`;
+  servedFiles.set(url, { content, contentType, withLength: true });
+  return url;
+}
+
+// fetch() that answers for served files and for missing files on any `.test`
+// host, and leaves everything else (the fake providers) to `fetch`
+export function fetchServedFiles(fetch: typeof globalThis.fetch): typeof globalThis.fetch {
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const file = servedFiles.get(url);
+    if (file && 'location' in file) return new Response(null, { status: 302, headers: { location: file.location } });
+    if (file) {
+      const headers: Record<string, string> = { 'content-type': file.contentType };
+      if (file.withLength) headers['content-length'] = String(file.content.length);
+      return new Response(new Uint8Array(file.content), { headers });
+    }
+    if (new URL(url).hostname.endsWith('.test')) return new Response('Not found', { status: 404 });
+    return fetch(input, init);
+  };
+}
+
+// Serves the fakes' PNG at `url`, as an image hosted elsewhere. Without
+// `withLength` the response doesn't say how large it is.
+export function serveImage(url: string, content = Buffer.from(PNG_BASE64, 'base64'), contentType = 'image/png', { withLength = true } = {}) {
+  servedFiles.set(url, { content, contentType, withLength });
+}
+
+export function serveRedirect(url: string, location: string) {
+  servedFiles.set(url, { location });
+}
+
+// DNS for the tests: `.test` hosts are public, except `*.internal.test`,
+// which resolve to a private address
+export async function lookupTestHost(hostname: string) {
+  return [{ address: hostname.endsWith('.internal.test') ? '10.0.0.7' : '203.0.113.7', family: 4 }];
+}